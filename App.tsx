@@ -1,31 +1,51 @@
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { jsPDF } from 'jspdf';
 import { SearchBar } from './components/SearchBar';
 import { ResultDisplay } from './components/ResultDisplay';
 import { Loader } from './components/Loader';
+import { RecoveryHint } from './components/RecoveryHint';
+import { ComparisonView } from './components/ComparisonView';
+import { ProjectsView } from './components/ProjectsView';
+import { UsagePanel } from './components/UsagePanel';
+import { PromptTemplatesPanel } from './components/PromptTemplatesPanel';
+import { HistoryDrawer } from './components/HistoryDrawer';
+import { AddToProject } from './components/AddToProject';
+import { ShareButton } from './components/ShareButton';
+import { QualityReportCard } from './components/QualityReportCard';
 import { BuildingIcon } from './components/icons/BuildingIcon';
 import { PrintIcon } from './components/icons/PrintIcon';
-import { fetchConstructionProcess, generateProcessImage } from './services/geminiService';
-import type { SearchResult, GroundingChunk } from './types';
+import { fetchConstructionProcess, generateProcessImage, getCacheKeys, repairConstructionProcess } from './services/geminiService';
+import { loadAIProvider } from './services/providers';
+import { ApiError, type RecoveryAction } from './services/errors';
+import { findCachedTexts, getCachedImage, getCachedText, invalidateCached, normalizeQuery, putCachedImage, putCachedText } from './services/cacheStore';
+import { recordCacheHit } from './services/usageStore';
+import { listHistory, recordSearch, saveHistoryEntry } from './services/historyStore';
+import { loadJurisdiction, saveJurisdiction } from './services/jurisdictionStore';
+import { loadTranslateGuides, saveLocale, saveTranslateGuides } from './services/localeStore';
+import { promptTemplateRef } from './services/promptTemplateStore';
+import { loadAutoRepair, saveAutoRepair } from './services/qualityStore';
+import { buildGuidePdf } from './utils/guidePdf';
+import type { QuantityInputs } from './utils/quantities';
+import { buildCitationIndex } from './utils/citations';
+import { hasSharedGuide, queryUrl, readQueryParam, readSharedGuide, type SharedGuide } from './utils/share';
+import { jurisdictionOf, jurisdictions, type JurisdictionId } from './data/jurisdictions';
+import { DEFAULT_LOCALE, formatDate, getLocale, languageOf, locales, setLocale, t, type Locale } from './i18n';
+import type { Addendum, HistoryEntry, SearchResult } from './types';
 
-// Declare global variables from CDN scripts
-declare const jspdf: any;
-declare const html2canvas: any;
 
 interface SearchHistoryProps {
     history: string[];
     onHistoryClick: (query: string) => void;
+    onShowAll: () => void;
     isLoading: boolean;
 }
 
-const SearchHistory: React.FC<SearchHistoryProps> = ({ history, onHistoryClick, isLoading }) => {
-    if (history.length === 0) {
-        return null;
-    }
-
+// The drawer stays reachable with an empty history, to import a shared one.
+const SearchHistory: React.FC<SearchHistoryProps> = ({ history, onHistoryClick, onShowAll, isLoading }) => {
     return (
         <div className="flex flex-wrap items-center justify-center gap-2 mb-8 animate-fade-in">
-            <span className="text-gray-400 text-sm font-medium">Búsquedas recientes:</span>
+            {history.length > 0 && <span className="text-gray-400 text-sm font-medium">{t('history.recent')}</span>}
             {history.map((item) => (
                 <button
                     key={item}
@@ -36,257 +56,456 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({ history, onHistoryClick,
                     {item}
                 </button>
             ))}
+            <button
+                onClick={onShowAll}
+                className="px-3 py-1 text-cyan-400 text-sm font-semibold hover:text-cyan-300 hover:underline focus:outline-none focus:ring-2 focus:ring-cyan-500 rounded-full"
+            >
+                {history.length > 0 ? t('history.showAll') : t('history.open')}
+            </button>
         </div>
     );
 };
 
 const App: React.FC = () => {
     const [query, setQuery] = useState<string>('');
-    const [searchHistory, setSearchHistory] = useState<string[]>([]);
+    // The query the result on screen answers; `query` follows the search box as the user types.
+    const [resultQuery, setResultQuery] = useState<string>('');
+    const [searchHistory, setSearchHistory] = useState<HistoryEntry[]>([]);
+    const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
     const [searchResult, setSearchResult] = useState<SearchResult | null>(null);
     const [imageUrl, setImageUrl] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [isImageLoading, setIsImageLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
     const [imageError, setImageError] = useState<string | null>(null);
-    const printRef = useRef<HTMLDivElement>(null);
-    const cache = useRef(new Map<string, { result: SearchResult; imageUrl: string | null; }>());
+    const [errorRecovery, setErrorRecovery] = useState<RecoveryAction | null>(null);
+    const [imageErrorRecovery, setImageErrorRecovery] = useState<RecoveryAction | null>(null);
     const [isSearching, setIsSearching] = useState<boolean>(false);
+    const [isFromCache, setIsFromCache] = useState<boolean>(false);
+    const [quantities, setQuantities] = useState<QuantityInputs | null>(null);
+    // When the result on screen was opened from a permalink: shown read-only, and not cached.
+    const [sharedAt, setSharedAt] = useState<number | null>(null);
+    const searchControllerRef = useRef<AbortController | null>(null);
+    // The "perfil normativo" new searches are written against. handleSearch is created once, so it reads the ref.
+    const [jurisdiction, setJurisdiction] = useState<JurisdictionId>(loadJurisdiction);
+    const jurisdictionRef = useRef<JurisdictionId>(jurisdiction);
+    const [locale, setLocaleState] = useState<Locale>(getLocale);
+    // Whether new guides are written in the UI language rather than in Spanish.
+    const [translateGuides, setTranslateGuides] = useState<boolean>(loadTranslateGuides);
+    const guideLanguageRef = useRef<Locale>(translateGuides ? locale : DEFAULT_LOCALE);
+    const [autoRepair, setAutoRepair] = useState<boolean>(loadAutoRepair);
+    const autoRepairRef = useRef<boolean>(autoRepair);
+    const [isRepairing, setIsRepairing] = useState<boolean>(false);
+    const [repairMessage, setRepairMessage] = useState<string | null>(null);
+    const repairControllerRef = useRef<AbortController | null>(null);
+    const [mode, setMode] = useState<'search' | 'compare' | 'projects' | 'usage' | 'templates'>('search');
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    useEffect(() => {
+        listHistory()
+            .then(setSearchHistory)
+            .catch(err => console.error("Could not load the search history:", err));
+    }, []);
+
+    // A failure to record the search must not hide its result, so it is only logged.
+    const addToHistory = (searchQuery: string, result: SearchResult) => {
+        recordSearch(searchQuery, result)
+            .then(entry => setSearchHistory(prev => [entry, ...prev.filter(e => e.query !== entry.query)]))
+            .catch(err => console.error("Could not record the search in the history:", err));
+    };
 
-    const handleSearch = useCallback(async (searchQuery: string) => {
-        if (isSearching) return;
+    // A failed repair leaves the guide as it was; the reason is shown next to the quality report.
+    const repairResult = async (repairQuery: string, result: SearchResult, signal: AbortSignal): Promise<SearchResult> => {
+        setIsRepairing(true);
+        setRepairMessage(null);
+        try {
+            const repaired = await repairConstructionProcess({ query: repairQuery, result }, signal);
+            if (!repaired) setRepairMessage(t('quality.noImprovement'));
+            return repaired ? { ...result, ...repaired } : result;
+        } catch (err: any) {
+            if (signal.aborted) throw err;
+            console.error("Guide repair failed:", err);
+            setRepairMessage(t('quality.repairFailed', { message: err.message || t('errors.request') }));
+            return result;
+        } finally {
+            if (!signal.aborted) setIsRepairing(false);
+        }
+    };
 
-        const normalizedQuery = searchQuery.trim().toLowerCase();
+    // A guide reopened from the history or a shared link keeps the language it was written in.
+    const handleSearch = useCallback(async (searchQuery: string, searchLanguage: Locale = guideLanguageRef.current) => {
+        const searchJurisdiction = jurisdictionRef.current;
+        const normalizedQuery = normalizeQuery(searchQuery);
         if (!normalizedQuery) return;
 
-        if (cache.current.has(normalizedQuery)) {
-            const cachedData = cache.current.get(normalizedQuery)!;
-            setSearchResult(cachedData.result);
-            setImageUrl(cachedData.imageUrl);
-            setError(null);
-            setImageError(null);
-            setIsLoading(false);
-            setIsImageLoading(false);
-            
-            setSearchHistory(prev => {
-                const updatedHistory = [searchQuery, ...prev.filter(q => q.toLowerCase() !== normalizedQuery)];
-                return updatedHistory.slice(0, 3);
-            });
-            return;
+        // Back and forward replay searches through the URL, which then already matches.
+        if (readQueryParam() !== searchQuery.trim() || hasSharedGuide()) {
+            window.history.pushState(null, '', queryUrl(searchQuery.trim()));
         }
+        setSharedAt(null);
+
+        // A new search supersedes the one in flight; only the latest search may update the state.
+        searchControllerRef.current?.abort();
+        const controller = new AbortController();
+        searchControllerRef.current = controller;
+        const { signal } = controller;
+        repairControllerRef.current?.abort();
+        setIsRepairing(false);
+        setRepairMessage(null);
 
         setIsSearching(true);
-        setIsLoading(true);
-        setIsImageLoading(true);
         setError(null);
         setImageError(null);
-        setSearchResult(null);
-        setImageUrl(null);
+        setErrorRecovery(null);
+        setImageErrorRecovery(null);
+
+        // The keys name the provider and models behind the backend, which it reports on the first call.
+        await loadAIProvider();
+        if (signal.aborted) return;
+        const cacheKeys = getCacheKeys(searchQuery, searchJurisdiction, searchLanguage);
+
+        // Text and illustration are cached separately, so a failed image never costs a new text call.
+        const [cachedResult, cachedImageUrl] = await Promise.all([
+            getCachedText(cacheKeys.text),
+            getCachedImage(cacheKeys.image),
+        ]);
+        if (signal.aborted) return;
+        if (cachedResult) recordCacheHit(normalizedQuery, 'text');
+        if (cachedImageUrl) recordCacheHit(normalizedQuery, 'image');
+
+        setSearchResult(cachedResult);
+        setResultQuery(searchQuery.trim());
+        setImageUrl(cachedImageUrl);
+        setQuantities(null);
+        setIsFromCache(!!cachedResult);
+        setIsLoading(!cachedResult);
+        setIsImageLoading(!cachedImageUrl);
+
+        if (cachedResult && cachedImageUrl) {
+            addToHistory(searchQuery, cachedResult);
+            setIsSearching(false);
+            searchControllerRef.current = null;
+            return;
+        }
         
         let fullText = '';
 
         const onTextStream = (chunk: string) => {
-            if (isLoading) setIsLoading(false); 
+            if (signal.aborted) return;
+            setIsLoading(false);
             const textChunk = chunk || '';
             fullText += textChunk;
             setSearchResult(prev => {
                 const existingText = prev ? prev.text : '';
-                return { text: existingText + textChunk, sources: prev?.sources || [] };
+                return { text: existingText + textChunk, sources: prev?.sources || [], jurisdiction: searchJurisdiction, language: searchLanguage };
             });
         };
 
+        // Nothing produced by a cancelled search reaches the cache.
+        const loadImage = async (): Promise<string> => {
+            if (cachedImageUrl) return cachedImageUrl;
+            const generatedImageUrl = await generateProcessImage(searchQuery, signal);
+            signal.throwIfAborted();
+            await putCachedImage(cacheKeys.image, normalizedQuery, generatedImageUrl, promptTemplateRef('image'));
+            return generatedImageUrl;
+        };
+
+        const loadText = async (): Promise<SearchResult> => {
+            if (cachedResult) return cachedResult;
+            const { sources, guide, template, quality } = await fetchConstructionProcess(searchQuery, searchJurisdiction, searchLanguage, onTextStream, signal);
+            signal.throwIfAborted();
+            let result: SearchResult = { text: fullText, sources, guide, jurisdiction: searchJurisdiction, language: searchLanguage, template, quality };
+            // Repaired before caching, so the cache keeps the better text.
+            if (!quality.passed && autoRepairRef.current) {
+                setSearchResult(result);
+                result = await repairResult(searchQuery, result, signal);
+                signal.throwIfAborted();
+            }
+            await putCachedText(cacheKeys.text, normalizedQuery, result);
+            return result;
+        };
+
         try {
-            const [imageResult, sourcesResult] = await Promise.allSettled([
-                generateProcessImage(searchQuery),
-                fetchConstructionProcess(searchQuery, onTextStream),
-            ]);
+            const [imageResult, sourcesResult] = await Promise.allSettled([loadImage(), loadText()]);
+            // handleCancel or the superseding search has already settled the state.
+            if (signal.aborted) return;
 
             setIsImageLoading(false);
-
-            let finalImageUrl: string | null = null;
             
             if (imageResult.status === 'fulfilled' && imageResult.value) {
-                finalImageUrl = imageResult.value;
-                setImageUrl(finalImageUrl);
+                setImageUrl(imageResult.value);
                 setImageError(null);
             } else if (imageResult.status === 'rejected') {
                 const reason = imageResult.reason as Error;
                 const errorMessage = (reason.name.endsWith('Error')) 
                     ? reason.message 
-                    : 'No se pudo generar la ilustración para este proceso.';
+                    : t('errors.illustration');
                 setImageError(errorMessage);
+                setImageErrorRecovery(reason instanceof ApiError ? reason.recovery : null);
                 console.error("Image generation failed:", reason);
             }
 
             if (sourcesResult.status === 'fulfilled') {
-                const finalSources = sourcesResult.value.sources;
-                setSearchResult(prev => ({
-                    text: prev?.text || fullText,
-                    sources: finalSources,
-                }));
-                
-                setSearchHistory(prev => {
-                    const updatedHistory = [searchQuery, ...prev.filter(q => q.toLowerCase() !== normalizedQuery)];
-                    return updatedHistory.slice(0, 3);
-                });
-
-                if (imageResult.status === 'fulfilled' && finalImageUrl) {
-                    const finalResult: SearchResult = { text: fullText, sources: finalSources };
-                    cache.current.set(normalizedQuery, { result: finalResult, imageUrl: finalImageUrl });
-                } else {
-                    cache.current.delete(normalizedQuery);
-                }
-
+                setSearchResult(sourcesResult.value);
+                addToHistory(searchQuery, sourcesResult.value);
                 setError(null);
 
             } else {
                  const reason = sourcesResult.reason as Error;
                  const errorMessage = (reason.name.endsWith('Error'))
                     ? reason.message
-                    : 'Ocurrió un error al obtener los detalles del proceso.';
+                    : t('errors.processDetails');
                  setError(errorMessage);
+                 setErrorRecovery(reason instanceof ApiError ? reason.recovery : null);
                  setSearchResult(null);
-                 cache.current.delete(normalizedQuery);
                  console.error("Text generation/sourcing failed:", reason);
             }
 
         } catch (err: any) {
+            if (signal.aborted) return;
             console.error("An unexpected error occurred in handleSearch:", err);
-            setError(err.message || 'Ocurrió un error al procesar la solicitud.');
-            cache.current.delete(normalizedQuery);
+            setError(err.message || t('errors.request'));
         } finally {
-            setIsSearching(false);
-            setIsLoading(false);
-            setIsImageLoading(false);
+            if (!signal.aborted) {
+                searchControllerRef.current = null;
+                setIsSearching(false);
+                setIsLoading(false);
+                setIsImageLoading(false);
+            }
         }
-    }, [isSearching]);
+    }, []);
+
+    const clearResult = () => {
+        searchControllerRef.current?.abort();
+        searchControllerRef.current = null;
+        repairControllerRef.current?.abort();
+        setIsRepairing(false);
+        setRepairMessage(null);
+        setIsSearching(false);
+        setIsLoading(false);
+        setIsImageLoading(false);
+        setSearchResult(null);
+        setResultQuery('');
+        setImageUrl(null);
+        setQuantities(null);
+        setError(null);
+        setImageError(null);
+        setSharedAt(null);
+    };
 
-    const handleHistoryClick = (historicQuery: string) => {
-        setQuery(historicQuery);
-        handleSearch(historicQuery);
+    const openSharedGuide = (guide: SharedGuide) => {
+        clearResult();
+        setMode('search');
+        setQuery(guide.query);
+        setResultQuery(guide.query);
+        setSearchResult(guide.result);
+        setImageUrl(guide.imageUrl);
+        setIsFromCache(false);
+        setSharedAt(guide.sharedAt);
     };
 
-    const handlePrint = async () => {
-        const sourceNode = printRef.current;
-        if (!sourceNode || typeof jspdf === 'undefined' || typeof html2canvas === 'undefined') {
-            setError("Error: No se pudo generar el PDF. Las librerías necesarias no están cargadas o el contenido no existe.");
-            return;
-        }
+    // The page state follows the URL: a permalink opens its guide, `?q=` runs its search.
+    useEffect(() => {
+        const loadFromUrl = async () => {
+            if (hasSharedGuide()) {
+                // A shared guide is cached under the keys of the provider that answers here once it is edited.
+                const [guide] = await Promise.all([readSharedGuide(), loadAIProvider()]);
+                if (guide) {
+                    openSharedGuide(guide);
+                } else {
+                    clearResult();
+                    setError(t('errors.sharedLink'));
+                    setErrorRecovery(null);
+                }
+                return;
+            }
+            const urlQuery = readQueryParam();
+            setQuery(urlQuery);
+            if (urlQuery) {
+                setMode('search');
+                handleSearch(urlQuery);
+            } else {
+                clearResult();
+            }
+        };
+        loadFromUrl();
+        window.addEventListener('popstate', loadFromUrl);
+        return () => window.removeEventListener('popstate', loadFromUrl);
+    }, [handleSearch]);
+
+    // A new profile applies to the next search. The guide on screen is only searched again on
+    // request ("Buscar con este perfil"), since that may be a new paid call.
+    const selectJurisdiction = (next: JurisdictionId) => {
+        jurisdictionRef.current = next;
+        setJurisdiction(next);
+        saveJurisdiction(next);
+    };
 
-        const textNode = sourceNode.querySelector('#pdf-text-content');
-        const imageNode = sourceNode.querySelector('#pdf-image-content');
-        const sourcesNode = sourceNode.querySelector('#pdf-sources-content');
+    const handleLocaleChange = (next: Locale) => {
+        setLocale(next);
+        saveLocale(next);
+        setLocaleState(next);
+        guideLanguageRef.current = translateGuides ? next : DEFAULT_LOCALE;
+    };
 
-        if (!textNode || !imageNode) {
-            setError("Error: La estructura del contenido para el PDF es inválida. No se encontraron los bloques de texto o imagen.");
-            return;
+    const handleTranslateGuidesChange = (translate: boolean) => {
+        setTranslateGuides(translate);
+        saveTranslateGuides(translate);
+        guideLanguageRef.current = translate ? locale : DEFAULT_LOCALE;
+    };
+
+    const handleCloseShared = () => {
+        window.history.pushState(null, '', queryUrl(''));
+        clearResult();
+        setQuery('');
+    };
+
+    // Stops the search in flight. Text streamed so far stays on screen, marked as incomplete,
+    // until the user discards it or searches again.
+    const handleCancel = () => {
+        const controller = searchControllerRef.current;
+        if (!controller) return;
+        controller.abort();
+        searchControllerRef.current = null;
+
+        // A cached text is complete even if its illustration was still being generated.
+        if (!isFromCache) {
+            setSearchResult(prev => prev && prev.text ? { ...prev, guide: null, incomplete: true } : null);
         }
+        setIsSearching(false);
+        setIsLoading(false);
+        setIsImageLoading(false);
+    };
 
-        try {
-            const { jsPDF } = jspdf;
-            const pdf = new jsPDF({ orientation: 'p', unit: 'pt', format: 'letter' });
-
-            const pdfWidth = pdf.internal.pageSize.getWidth();
-            const pageHeight = pdf.internal.pageSize.getHeight();
-            const margin = 40;
-            const contentWidth = pdfWidth - margin * 2;
-            const contentHeight = pageHeight - margin * 2;
-
-            // --- STEP 1: Process the text content block ---
-            const textCanvas = await html2canvas(textNode as HTMLElement, {
-                scale: 2,
-                useCORS: true,
-                backgroundColor: '#374151',
-                logging: false,
-            });
+    const handleDiscardPartial = () => {
+        setSearchResult(null);
+        setQuantities(null);
+        setImageUrl(null);
+        setImageError(null);
+        setImageErrorRecovery(null);
+    };
 
-            const textImgData = textCanvas.toDataURL('image/jpeg', 0.95);
-            const textImgProps = pdf.getImageProperties(textImgData);
-            
-            const textImgRatio = textImgProps.height / textImgProps.width;
-            const textPdfTotalHeight = contentWidth * textImgRatio;
-
-            let textPosition = 0;
-            let pageCount = 0;
-            while (textPosition < textPdfTotalHeight) {
-                if (pageCount > 0) {
-                    pdf.addPage();
-                }
-                pdf.addImage(textImgData, 'JPEG', margin, -textPosition + margin, contentWidth, textPdfTotalHeight);
-                textPosition += contentHeight;
-                pageCount++;
+
+
+    // Changes to a guide (addenda, repairs) are kept with the cached guide and its history entry,
+    // so they come back with it on the next search.
+    const storeResult = (updated: SearchResult) => {
+        setSearchResult(updated);
+        if (!updated.incomplete) {
+            putCachedText(getCacheKeys(resultQuery, jurisdictionOf(updated).id, languageOf(updated)).text, normalizeQuery(resultQuery), updated);
+            const entry = searchHistory.find(e => e.query === normalizeQuery(resultQuery));
+            if (entry) {
+                saveHistoryEntry({ ...entry, result: updated })
+                    .then(saved => setSearchHistory(prev => prev.map(e => e.query === saved.query ? saved : e)))
+                    .catch(err => console.error("Could not update the history entry:", err));
             }
+        }
+    };
 
-            // --- STEP 2: Process the image content block on a new, dedicated page ---
-            const imageCanvas = await html2canvas(imageNode as HTMLElement, {
-                scale: 2,
-                useCORS: true,
-                backgroundColor: '#374151',
-                logging: false,
-            });
+    const updateAddenda = (update: (addenda: Addendum[]) => Addendum[]) => {
+        if (!searchResult) return;
+        storeResult({ ...searchResult, addenda: update(searchResult.addenda || []) });
+    };
 
-            pdf.addPage();
+    // Superseded by a new search or a cleared result, the repair is dropped.
+    const handleRepair = async () => {
+        if (!searchResult) return;
+        repairControllerRef.current?.abort();
+        const controller = new AbortController();
+        repairControllerRef.current = controller;
+        const updated = await repairResult(resultQuery, searchResult, controller.signal).catch(() => null);
+        if (controller.signal.aborted || !updated || updated === searchResult) return;
+        repairControllerRef.current = null;
+        storeResult(updated);
+    };
 
-            const imageImgData = imageCanvas.toDataURL('image/jpeg', 0.95);
-            const imageImgProps = pdf.getImageProperties(imageImgData);
-            const imageImgRatio = imageImgProps.height / imageImgProps.width;
+    const handleAutoRepairChange = (next: boolean) => {
+        autoRepairRef.current = next;
+        setAutoRepair(next);
+        saveAutoRepair(next);
+    };
 
-            let pdfImgWidth = contentWidth;
-            let pdfImgHeight = contentWidth * imageImgRatio;
-            
-            if (pdfImgHeight > contentHeight) {
-                pdfImgHeight = contentHeight;
-                pdfImgWidth = pdfImgHeight / imageImgRatio;
-            }
+    const handleAppendAddendum = (addendum: Addendum) => updateAddenda(addenda => [...addenda, addendum]);
 
-            const x = (pdfWidth - pdfImgWidth) / 2;
-            const y = (pageHeight - pdfImgHeight) / 2;
+    const handleRemoveAddendum = (id: string) => updateAddenda(addenda => addenda.filter(addendum => addendum.id !== id));
 
-            pdf.addImage(imageImgData, 'JPEG', x, y, pdfImgWidth, pdfImgHeight);
-            
-            // --- STEP 3: Process the sources content block (if it exists) ---
-            if (sourcesNode) {
-                const sourcesCanvas = await html2canvas(sourcesNode as HTMLElement, {
-                    scale: 2,
-                    useCORS: true,
-                    backgroundColor: '#374151',
-                    logging: false,
-                });
-
-                const sourcesImgData = sourcesCanvas.toDataURL('image/jpeg', 0.95);
-                const sourcesImgProps = pdf.getImageProperties(sourcesImgData);
-                const sourcesImgRatio = sourcesImgProps.height / sourcesImgProps.width;
-                const sourcesPdfTotalHeight = contentWidth * sourcesImgRatio;
-
-                pdf.addPage();
-                let sourcesPosition = 0;
-                let sourcesPageCount = 0;
-                while (sourcesPosition < sourcesPdfTotalHeight) {
-                    if (sourcesPageCount > 0) {
-                        pdf.addPage();
-                    }
-                    pdf.addImage(sourcesImgData, 'JPEG', margin, -sourcesPosition + margin, contentWidth, sourcesPdfTotalHeight);
-                    sourcesPosition += contentHeight;
-                    sourcesPageCount++;
-                }
-            }
+    // The preferred illustration replaces the cached one, so it is the one served and exported from now on.
+    const handleSelectImage = (selectedImageUrl: string) => {
+        setImageUrl(selectedImageUrl);
+        setImageError(null);
+        setImageErrorRecovery(null);
+        if (!searchResult) return;
+        putCachedImage(getCacheKeys(resultQuery, jurisdictionOf(searchResult).id, languageOf(searchResult)).image, normalizeQuery(resultQuery), selectedImageUrl, promptTemplateRef('image'));
+    };
 
-            // --- STEP 4: Save the final PDF document ---
-            const fileName = `resumen_${query.replace(/\s+/g, '_').toLowerCase()}.pdf`;
-            pdf.save(fileName);
+    // Runs the search of the result on screen again, under the profile and language it was written in.
+    const searchAgain = () => {
+        if (!searchResult) {
+            handleSearch(resultQuery);
+            return;
+        }
+        selectJurisdiction(jurisdictionOf(searchResult).id);
+        handleSearch(resultQuery, languageOf(searchResult));
+    };
 
+    const handleRegenerate = async () => {
+        if (!searchResult) return;
+        await loadAIProvider();
+        await invalidateCached(getCacheKeys(resultQuery, jurisdictionOf(searchResult).id, languageOf(searchResult)));
+        searchAgain();
+    };
+
+    const handleHistoryClick = (historicQuery: string) => {
+        setQuery(historicQuery);
+        handleSearch(historicQuery);
+    };
+
+    // A past search whose cache entry expired is restored from the history instead of calling the model again.
+    // It is opened under its own profile, which becomes the selected one.
+    const handleOpenHistoryEntry = async (entry: HistoryEntry) => {
+        setIsHistoryOpen(false);
+        setMode('search');
+        const entryJurisdiction = jurisdictionOf(entry.result).id;
+        selectJurisdiction(entryJurisdiction);
+        const entryLanguage = languageOf(entry.result);
+        await loadAIProvider();
+        const key = getCacheKeys(entry.label, entryJurisdiction, entryLanguage).text;
+        const cached = await findCachedTexts([key]);
+        if (!cached.has(key)) {
+            await putCachedText(key, entry.query, entry.result);
+        }
+        setQuery(entry.label);
+        handleSearch(entry.label, entryLanguage);
+    };
+
+    const handlePrint = () => {
+        if (!searchResult) return;
+
+        try {
+            const pdf = buildGuidePdf({
+                query: resultQuery,
+                result: searchResult,
+                imageUrl,
+                citationIndex: buildCitationIndex(searchResult.text, jurisdictionOf(searchResult).id),
+                quantities,
+            });
+            const fileName = `resumen_${resultQuery.replace(/\s+/g, '_').toLowerCase()}.pdf`;
+            pdf.save(fileName);
         } catch (e) {
-            console.error("Error al generar el PDF con html2canvas:", e);
-            setError("Ocurrió un error al crear el archivo PDF. Por favor, inténtelo de nuevo.");
+            console.error("Error al generar el PDF:", e);
+            setError(t('errors.pdf'));
+            setErrorRecovery(null);
         }
     };
     
     const handlePrintImage = useCallback(() => {
-        if (!imageUrl || typeof jspdf === 'undefined') {
-            console.error("No image URL or jspdf library not found.");
+        if (!imageUrl) {
+            console.error("No image URL to export.");
             return;
         }
-        const { jsPDF } = jspdf;
         const pdf = new jsPDF({ orientation: 'l', unit: 'pt', format: 'letter' });
         const pageWidth = pdf.internal.pageSize.getWidth();
         const pageHeight = pdf.internal.pageSize.getHeight();
@@ -312,14 +531,15 @@ const App: React.FC = () => {
             const imageFormat = imageUrl.substring(imageUrl.indexOf('/') + 1, imageUrl.indexOf(';')).toUpperCase();
             pdf.addImage(imageUrl, imageFormat, x, y, pdfImgWidth, pdfImgHeight);
 
-            const fileName = `esquema_${query.replace(/\s+/g, '_').toLowerCase()}.pdf`;
+            const fileName = `esquema_${resultQuery.replace(/\s+/g, '_').toLowerCase()}.pdf`;
             pdf.save(fileName);
         };
         img.onerror = () => {
-            setImageError("No se pudo cargar la imagen para generar el PDF. El archivo de imagen puede estar corrupto.");
+            setImageError(t('errors.illustrationPdf'));
+            setImageErrorRecovery(null);
         };
         img.src = imageUrl;
-    }, [imageUrl, query]);
+    }, [imageUrl, resultQuery]);
     
 
     return (
@@ -329,74 +549,254 @@ const App: React.FC = () => {
                     <div className="flex justify-center items-center gap-4 mb-4">
                         <BuildingIcon className="w-12 h-12 text-cyan-400"/>
                         <h1 className="text-3xl sm:text-4xl md:text-5xl font-bold tracking-tight text-white">
-                            GUIA PROCESOS CONSTRUCTIVOS
+                            {t('app.title')}
                         </h1>
                     </div>
                     <p className="text-gray-400 text-lg">
-                        Busque un proceso constructivo y obtenga un resumen técnico basado en la normativa colombiana.
+                        {t('app.subtitle', { regulation: jurisdictions[jurisdiction].regulation, country: jurisdictions[jurisdiction].country })}
                     </p>
+                    <div className="flex flex-wrap justify-center items-center gap-x-6 gap-y-2 mt-3 text-sm text-gray-400">
+                        <label className="inline-flex items-center gap-2">
+                            {t('app.jurisdiction')}
+                            <select
+                                value={jurisdiction}
+                                onChange={(e) => selectJurisdiction(e.target.value as JurisdictionId)}
+                                disabled={isSearching}
+                                className="bg-gray-700 border border-gray-600 text-gray-200 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50"
+                                title={t('app.jurisdictionHint')}
+                            >
+                                {Object.values(jurisdictions).map(profile => (
+                                    <option key={profile.id} value={profile.id}>
+                                        {profile.country} ({profile.codes[0].family})
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="inline-flex items-center gap-2">
+                            {t('app.language')}
+                            <select
+                                value={locale}
+                                onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+                                className="bg-gray-700 border border-gray-600 text-gray-200 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                            >
+                                {(Object.keys(locales) as Locale[]).map(value => (
+                                    <option key={value} value={value}>{locales[value].label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        {locale !== DEFAULT_LOCALE && (
+                            <label className="inline-flex items-center gap-2" title={t('app.guideInUiLanguageHint')}>
+                                <input
+                                    type="checkbox"
+                                    checked={translateGuides}
+                                    onChange={(e) => handleTranslateGuidesChange(e.target.checked)}
+                                    disabled={isSearching}
+                                    className="accent-cyan-500"
+                                />
+                                {t('app.guideInUiLanguage')}
+                            </label>
+                        )}
+                    </div>
                 </header>
 
                 <main>
-                    <div className="mb-4">
-                        <SearchBar
-                            query={query}
-                            setQuery={setQuery}
-                            onSearch={handleSearch}
-                            isLoading={isSearching}
-                        />
-                    </div>
-                    
-                    <SearchHistory 
-                        history={searchHistory} 
-                        onHistoryClick={handleHistoryClick}
-                        isLoading={isSearching}
-                    />
-
-                    {!isSearching && searchResult && (
-                         <div className="flex justify-end mb-6">
+                    <div className="flex justify-center gap-2 mb-6">
+                        {([['search', t('app.tab.search')], ['compare', t('app.tab.compare')], ['projects', t('app.tab.projects')], ['usage', t('app.tab.usage')], ['templates', t('app.tab.templates')]] as const).map(([value, label]) => (
                             <button
-                                onClick={handlePrint}
-                                className="flex items-center justify-center px-5 py-2.5 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-green-500 transition-colors duration-300"
+                                key={value}
+                                onClick={() => setMode(value)}
+                                className={`px-4 py-1.5 rounded-full text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors ${mode === value ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
                             >
-                                <PrintIcon className="w-5 h-5 mr-2" />
-                                Imprimir Resumen (PDF)
+                                {label}
                             </button>
-                        </div>
-                    )}
-
-                    {isLoading && <Loader />}
-
-                    {error && (
-                        <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-center backdrop-blur-sm">
-                            <p className="font-semibold">Error al obtener la información</p>
-                            <p className="text-sm">{error}</p>
-                        </div>
-                    )}
-
-                    {!isLoading && !error && searchResult && (
-                        <ResultDisplay
-                            searchResult={searchResult}
-                            imageUrl={imageUrl}
-                            imageError={imageError}
-                            query={query}
-                            printRef={printRef}
-                            isImageLoading={isImageLoading}
-                            handlePrintImage={handlePrintImage}
-                        />
-                    )}
+                        ))}
+                    </div>
 
-                    {!isSearching && !searchResult && !error && (
-                        <div className="text-center text-gray-500 mt-12">
-                            <p>Ingrese una actividad de construcción para comenzar.</p>
-                            <p className="text-sm">Ej: "Instalación de una viga de cimentación"</p>
-                        </div>
+                    {mode === 'compare' ? (
+                        <ComparisonView jurisdiction={jurisdiction} />
+                    ) : mode === 'projects' ? (
+                        <ProjectsView />
+                    ) : mode === 'usage' ? (
+                        <UsagePanel />
+                    ) : mode === 'templates' ? (
+                        <PromptTemplatesPanel jurisdiction={jurisdiction} language={guideLanguageRef.current} />
+                    ) : (
+                        <>
+                            <div className="mb-4 flex items-center gap-3">
+                                <div className="flex-grow">
+                                    <SearchBar
+                                        query={query}
+                                        setQuery={setQuery}
+                                        onSearch={handleSearch}
+                                        isLoading={isSearching}
+                                        history={searchHistory}
+                                    />
+                                </div>
+                                {isSearching && (
+                                    <button
+                                        onClick={handleCancel}
+                                        className="flex-shrink-0 px-5 py-4 bg-gray-700 text-white font-semibold rounded-full hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-red-500 transition-colors duration-300"
+                                        title={t('search.cancelHint')}
+                                    >
+                                        {t('search.cancel')}
+                                    </button>
+                                )}
+                            </div>
+                    
+                            <SearchHistory 
+                                history={searchHistory.slice(0, 3).map(entry => entry.label)} 
+                                onHistoryClick={handleHistoryClick}
+                                onShowAll={() => setIsHistoryOpen(true)}
+                                isLoading={isSearching}
+                            />
+
+                            {!isSearching && searchResult?.incomplete && (
+                                <div className="flex flex-wrap justify-between items-center gap-3 mb-6 bg-yellow-900/50 border border-yellow-700 text-yellow-300 px-4 py-3 rounded-lg">
+                                    <p className="text-sm">{t('search.cancelled')}</p>
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={handleDiscardPartial}
+                                            className="px-4 py-1.5 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 transition-colors"
+                                        >
+                                            {t('search.discard')}
+                                        </button>
+                                        <button
+                                            onClick={searchAgain}
+                                            className="px-4 py-1.5 bg-cyan-600 text-white text-sm font-semibold rounded-lg hover:bg-cyan-500 focus:outline-none focus:ring-2 focus:ring-yellow-500 transition-colors"
+                                        >
+                                            {t('search.retry')}
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {sharedAt !== null && searchResult && (
+                                <div className="flex flex-wrap justify-between items-center gap-3 mb-6 bg-cyan-900/40 border border-cyan-700 text-cyan-200 px-4 py-3 rounded-lg">
+                                    <p className="text-sm">
+                                        {t('shared.banner', { date: formatDate(sharedAt) })}
+                                    </p>
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={handleCloseShared}
+                                            className="px-4 py-1.5 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors"
+                                        >
+                                            {t('shared.close')}
+                                        </button>
+                                        <button
+                                            onClick={() => { selectJurisdiction(jurisdictionOf(searchResult).id); handleSearch(resultQuery, languageOf(searchResult)); }}
+                                            className="px-4 py-1.5 bg-cyan-600 text-white text-sm font-semibold rounded-lg hover:bg-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors"
+                                            title={t('shared.openAsSearchHint')}
+                                        >
+                                            {t('shared.openAsSearch')}
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {!isSearching && searchResult && !searchResult.incomplete && sharedAt === null && jurisdictionOf(searchResult).id !== jurisdiction && (
+                                <div className="flex flex-wrap justify-between items-center gap-3 mb-6 bg-gray-800 border border-gray-600 text-gray-300 px-4 py-3 rounded-lg">
+                                    <p className="text-sm">
+                                        {t('search.otherProfile', { country: jurisdictionOf(searchResult).country, selected: jurisdictions[jurisdiction].country })}
+                                    </p>
+                                    <button
+                                        onClick={() => handleSearch(resultQuery, languageOf(searchResult))}
+                                        className="px-4 py-1.5 bg-cyan-600 text-white text-sm font-semibold rounded-lg hover:bg-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors"
+                                        title={t('search.searchWithProfileHint')}
+                                    >
+                                        {t('search.searchWithProfile')}
+                                    </button>
+                                </div>
+                            )}
+
+                            {!isSearching && searchResult && !searchResult.incomplete && (
+                                 <div className="flex justify-end items-center gap-3 mb-6">
+                                    {isFromCache && (
+                                        <span className="text-gray-500 text-sm">{t('search.fromCache')}</span>
+                                    )}
+                                    {sharedAt === null && (
+                                        <button
+                                            onClick={handleRegenerate}
+                                            className="flex items-center justify-center px-5 py-2.5 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-500 transition-colors duration-300"
+                                            title={t('search.regenerateHint')}
+                                        >
+                                            {t('search.regenerate')}
+                                        </button>
+                                    )}
+                                    {sharedAt === null && <ShareButton query={resultQuery} result={searchResult} imageUrl={imageUrl} />}
+                                    <AddToProject query={resultQuery} result={searchResult} imageUrl={imageUrl} />
+                                    <button
+                                        onClick={handlePrint}
+                                        className="flex items-center justify-center px-5 py-2.5 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-green-500 transition-colors duration-300"
+                                    >
+                                        <PrintIcon className="w-5 h-5 mr-2" />
+                                        {t('search.print')}
+                                    </button>
+                                </div>
+                            )}
+
+                            {isLoading && <Loader />}
+
+                            {error && (
+                                <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-center backdrop-blur-sm">
+                                    <p className="font-semibold">{t('search.errorTitle')}</p>
+                                    <p className="text-sm">{error}</p>
+                                    <RecoveryHint recovery={errorRecovery} onRetry={searchAgain} />
+                                </div>
+                            )}
+
+                            {!isLoading && !error && searchResult?.quality && !searchResult.incomplete && (
+                                <QualityReportCard
+                                    report={searchResult.quality}
+                                    language={languageOf(searchResult)}
+                                    isRepairing={isRepairing}
+                                    repairMessage={repairMessage}
+                                    autoRepair={autoRepair}
+                                    onAutoRepairChange={handleAutoRepairChange}
+                                    onRepair={sharedAt === null && !isSearching ? handleRepair : undefined}
+                                />
+                            )}
+
+                            {!isLoading && !error && searchResult && (
+                                <ResultDisplay
+                                    searchResult={searchResult}
+                                    imageUrl={imageUrl}
+                                    imageError={imageError}
+                                    imageErrorRecovery={imageErrorRecovery}
+                                    onRetryImage={searchAgain}
+                                    onSelectImage={handleSelectImage}
+                                    query={resultQuery}
+                                    isImageLoading={isImageLoading}
+                                    handlePrintImage={handlePrintImage}
+                                    quantities={quantities}
+                                    onQuantitiesChange={setQuantities}
+                                    onAppendAddendum={handleAppendAddendum}
+                                    onRemoveAddendum={handleRemoveAddendum}
+                                    readOnly={sharedAt !== null}
+                                />
+                            )}
+
+                            {!isSearching && !searchResult && !error && (
+                                <div className="text-center text-gray-500 mt-12">
+                                    <p>{t('search.emptyTitle')}</p>
+                                    <p className="text-sm">{t('search.emptyExample')}</p>
+                                </div>
+                            )}
+                        </>
                     )}
                 </main>
                  <footer className="text-center mt-12 text-gray-600 text-sm">
-                    <p>Desarrollado con IA. La información debe ser verificada por un profesional.</p>
+                    <p>{t('app.footer')}</p>
                 </footer>
             </div>
+
+            {isHistoryOpen && (
+                <HistoryDrawer
+                    entries={searchHistory}
+                    onEntriesChange={setSearchHistory}
+                    onOpen={handleOpenHistoryEntry}
+                    onClose={() => setIsHistoryOpen(false)}
+                />
+            )}
         </div>
     );
 };
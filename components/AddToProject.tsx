@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import type { Project, SearchResult } from '../types';
+import { addGuide, createProject, listProjects, saveProject } from '../services/projectStore';
+import { t } from '../i18n';
+
+interface AddToProjectProps {
+    query: string;
+    result: SearchResult;
+    imageUrl: string | null;
+}
+
+// Toolbar button that appends the current guide to a project, or to a new one named on the spot.
+export const AddToProject: React.FC<AddToProjectProps> = ({ query, result, imageUrl }) => {
+    const [projects, setProjects] = useState<Project[] | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const handleOpen = async () => {
+        if (projects) {
+            setProjects(null);
+            return;
+        }
+        setMessage(null);
+        try {
+            setProjects(await listProjects());
+        } catch (err) {
+            console.error("Could not load projects:", err);
+            setMessage(t('projects.loadFailed'));
+        }
+    };
+
+    const handleAdd = async (project: Project) => {
+        try {
+            await saveProject(addGuide(project, query, result, imageUrl));
+            setMessage(t('projects.added', { name: project.name }));
+        } catch (err) {
+            console.error("Could not save project:", err);
+            setMessage(t('projects.addFailed'));
+        }
+        setProjects(null);
+    };
+
+    const handleCreate = () => {
+        const name = window.prompt(t('projects.newProjectPrompt'));
+        if (name?.trim()) {
+            handleAdd(createProject({ name: name.trim(), client: '', location: '', engineer: '' }));
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={handleOpen}
+                className="flex items-center justify-center px-5 py-2.5 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-500 transition-colors duration-300"
+                title={t('projects.addHint')}
+            >
+                {t('projects.add')}
+            </button>
+            {message && !projects && (
+                <span className="absolute right-0 top-full mt-1 text-xs text-gray-400 whitespace-nowrap">{message}</span>
+            )}
+            {projects && (
+                <div className="absolute right-0 top-full mt-2 w-64 bg-gray-800 border border-gray-600 rounded-lg shadow-xl z-10 py-1">
+                    {projects.map(project => (
+                        <button
+                            key={project.id}
+                            onClick={() => handleAdd(project)}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-700 truncate"
+                        >
+                            {project.name}
+                        </button>
+                    ))}
+                    <button
+                        onClick={handleCreate}
+                        className="block w-full text-left px-4 py-2 text-sm text-cyan-400 hover:bg-gray-700 border-t border-gray-700"
+                    >
+                        + {t('projects.newProject')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
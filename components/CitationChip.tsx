@@ -0,0 +1,58 @@
+import React from 'react';
+import { citationAnchor, splitCitations, type Citation } from '../utils/citations';
+import { verificationLabel, verifyCitation, type VerificationStatus } from '../utils/verifyCitation';
+import type { JurisdictionId } from '../data/jurisdictions';
+import { t } from '../i18n';
+
+interface CitationChipProps {
+    citation: Citation;
+}
+
+export const verificationStyles: Record<VerificationStatus, string> = {
+    verified: 'bg-cyan-900/60 border-cyan-700 text-cyan-300 hover:bg-cyan-800',
+    unknown: 'bg-yellow-900/50 border-yellow-700 text-yellow-300 hover:bg-yellow-800/60',
+    hallucinated: 'bg-red-900/60 border-red-700 text-red-300 hover:bg-red-800/70 line-through',
+};
+
+export const CitationChip: React.FC<CitationChipProps> = ({ citation }) => {
+    const verification = verifyCitation(citation.family, citation.section);
+    const detail = verification.title ? ` — ${verification.matchedSection ? `${verification.matchedSection}: ` : ''}${verification.title}` : '';
+
+    return (
+        <a
+            href={`#${citationAnchor(citation.id)}`}
+            className={`inline-flex items-center mx-0.5 px-2 py-0.5 border rounded-full text-xs font-semibold align-middle focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors whitespace-nowrap ${verificationStyles[verification.status]}`}
+            title={`${verificationLabel(verification.status)}${detail}. ${t('citations.seeWhere', { id: citation.id })}`}
+        >
+            {citation.label}
+        </a>
+    );
+};
+
+// Text renderer for MarkdownRenderer that recognises the citations of one jurisdiction profile. A
+// citation that fills a whole parenthesis, "(NTC 673)", replaces the parenthesis too.
+export const citationRenderer = (jurisdiction: JurisdictionId) => (text: string, key: React.Key): React.ReactNode => {
+    const segments = splitCitations(text, jurisdiction);
+    if (segments.length === 1 && typeof segments[0] === 'string') {
+        return <React.Fragment key={key}>{text}</React.Fragment>;
+    }
+
+    const parts = segments.map(segment => typeof segment === 'string' ? segment : { ...segment });
+    for (let i = 0; i < parts.length; i++) {
+        const before = parts[i - 1];
+        const after = parts[i + 1];
+        if (typeof parts[i] !== 'string' && typeof before === 'string' && typeof after === 'string'
+            && before.endsWith('(') && after.startsWith(')')) {
+            parts[i - 1] = before.slice(0, -1);
+            parts[i + 1] = after.slice(1);
+        }
+    }
+
+    return (
+        <React.Fragment key={key}>
+            {parts.map((part, index) => typeof part === 'string'
+                ? <React.Fragment key={index}>{part}</React.Fragment>
+                : <CitationChip key={index} citation={part} />)}
+        </React.Fragment>
+    );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { catalogNote, citationAnchor, formatCitationLocation, type CitationIndexEntry } from '../utils/citations';
+import { verificationLabel, type VerificationStatus } from '../utils/verifyCitation';
+import { verificationStyles } from './CitationChip';
+import { t } from '../i18n';
+
+interface CitationIndexProps {
+    index: CitationIndexEntry[];
+}
+
+export const CitationIndex: React.FC<CitationIndexProps> = ({ index }) => {
+    if (index.length === 0) {
+        return null;
+    }
+
+    const counts: Record<VerificationStatus, number> = { verified: 0, unknown: 0, hallucinated: 0 };
+    index.forEach(entry => { counts[entry.verification.status] += 1; });
+
+    return (
+        <div className="mt-8 pt-6 border-t border-gray-600">
+            <h3 className="text-2xl font-bold text-cyan-400 mb-2">{t('citations.title')}</h3>
+            <p className="text-sm text-gray-400 mb-4">
+                {t('citations.summary', counts)}
+                {' '}{catalogNote(index)}
+            </p>
+            {counts.hallucinated > 0 && (
+                <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg mb-4 text-sm">
+                    {t('citations.hallucinatedWarning')}
+                </div>
+            )}
+            <ul className="space-y-2">
+                {index.map(entry => (
+                    <li
+                        key={entry.id}
+                        id={citationAnchor(entry.id)}
+                        className="flex flex-col sm:flex-row sm:items-baseline gap-1 sm:gap-3 p-2 rounded-lg target:bg-cyan-900/40 transition-colors"
+                    >
+                        <span className="font-semibold text-white whitespace-nowrap">{entry.id}</span>
+                        <span className={`px-2 py-0.5 border rounded-full text-xs font-semibold whitespace-nowrap self-start ${verificationStyles[entry.verification.status]}`}>
+                            {verificationLabel(entry.verification.status)}
+                        </span>
+                        <span className="text-sm text-gray-400">
+                            {entry.verification.title && (
+                                <span className="block text-gray-300">{entry.verification.title}</span>
+                            )}
+                            {entry.locations.map(formatCitationLocation).join(' · ')}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
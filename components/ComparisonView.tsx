@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader } from './Loader';
+import { PrintIcon } from './icons/PrintIcon';
+import { loadProcessResult } from '../services/processLoader';
+import { normalizeQuery } from '../services/cacheStore';
+import { compareProcesses, formatMaterial, type AlignedRow, type ComparedStep, type ProcessComparison } from '../utils/compareGuides';
+import { buildComparisonPdf } from '../utils/comparisonPdf';
+import type { JurisdictionId } from '../data/jurisdictions';
+import { t } from '../i18n';
+
+const inputClassName = "w-full px-5 py-3 bg-gray-800 border-2 border-gray-600 rounded-full text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition-all duration-300 shadow-lg";
+const uniqueCellClassName = 'bg-yellow-900/30 border-yellow-700';
+const cellClassName = 'p-3 border rounded-lg align-top';
+
+const UniqueTag: React.FC = () => (
+    <span className="ml-2 px-2 py-0.5 bg-yellow-900/60 border border-yellow-700 text-yellow-300 rounded-full text-xs font-semibold whitespace-nowrap">{t('comparison.unique')}</span>
+);
+
+const StepCell: React.FC<{ step: ComparedStep | null; unique: boolean }> = ({ step, unique }) => {
+    if (!step) return <div className={`${cellClassName} border-gray-700 border-dashed`} />;
+    return (
+        <div className={`${cellClassName} ${unique ? uniqueCellClassName : 'border-gray-600'}`}>
+            <p className="font-semibold text-white">
+                {step.number}. {step.title}
+                {unique && <UniqueTag />}
+            </p>
+            {step.detail && <p className="text-sm text-gray-300 mt-1">{step.detail}</p>}
+            {step.durations.length > 0 && (
+                <p className="text-xs text-cyan-300 mt-2">{t('comparison.time')}: {step.durations.join(', ')}</p>
+            )}
+        </div>
+    );
+};
+
+const isUnique = <T,>(row: AlignedRow<T>, side: 'left' | 'right'): boolean =>
+    !!row[side] && !row[side === 'left' ? 'right' : 'left'];
+
+interface ComparisonViewProps {
+    // Profile both processes are searched under.
+    jurisdiction: JurisdictionId;
+}
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ jurisdiction }) => {
+    const [leftQuery, setLeftQuery] = useState<string>('');
+    const [rightQuery, setRightQuery] = useState<string>('');
+    const [comparison, setComparison] = useState<ProcessComparison | null>(null);
+    const [isComparing, setIsComparing] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const handleCompare = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!normalizeQuery(leftQuery) || !normalizeQuery(rightQuery)) return;
+
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+
+        setIsComparing(true);
+        setError(null);
+        setComparison(null);
+
+        try {
+            const [left, right] = await Promise.all([
+                loadProcessResult(leftQuery, jurisdiction, { signal: controller.signal }),
+                loadProcessResult(rightQuery, jurisdiction, { signal: controller.signal }),
+            ]);
+            if (controller.signal.aborted) return;
+            setComparison(compareProcesses(
+                { query: leftQuery.trim(), result: left.result },
+                { query: rightQuery.trim(), result: right.result },
+            ));
+        } catch (err: any) {
+            if (controller.signal.aborted) return;
+            // The other load is no longer needed: stop it rather than pay for an answer nobody sees.
+            controller.abort();
+            console.error("Comparison failed:", err);
+            setError(err.name?.endsWith('Error') ? err.message : t('comparison.failed'));
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setIsComparing(false);
+            }
+        }
+    };
+
+    const handleCancel = () => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+        setIsComparing(false);
+    };
+
+    const handleExportPdf = () => {
+        if (!comparison) return;
+        try {
+            const fileName = `comparacion_${comparison.left.query}_vs_${comparison.right.query}`.replace(/\s+/g, '_').toLowerCase();
+            buildComparisonPdf(comparison).save(`${fileName}.pdf`);
+        } catch (e) {
+            console.error("Error al generar el PDF:", e);
+            setError(t('errors.pdf'));
+        }
+    };
+
+    return (
+        <div>
+            <form onSubmit={handleCompare} className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr_auto] gap-3 items-center mb-8">
+                <input
+                    type="text"
+                    value={leftQuery}
+                    onChange={(e) => setLeftQuery(e.target.value)}
+                    placeholder={t('comparison.leftPlaceholder')}
+                    className={inputClassName}
+                />
+                <span className="text-center text-gray-400 font-semibold">vs.</span>
+                <input
+                    type="text"
+                    value={rightQuery}
+                    onChange={(e) => setRightQuery(e.target.value)}
+                    placeholder={t('comparison.rightPlaceholder')}
+                    className={inputClassName}
+                />
+                {isComparing ? (
+                    <button
+                        type="button"
+                        onClick={handleCancel}
+                        className="px-6 py-3 bg-gray-700 text-white font-semibold rounded-full hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-red-500 transition-colors duration-300"
+                    >
+                        {t('comparison.cancel')}
+                    </button>
+                ) : (
+                    <button
+                        type="submit"
+                        className="px-6 py-3 bg-cyan-600 text-white font-semibold rounded-full hover:bg-cyan-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-500 transition-colors duration-300"
+                    >
+                        {t('comparison.compare')}
+                    </button>
+                )}
+            </form>
+
+            {isComparing && <Loader />}
+
+            {error && (
+                <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-center backdrop-blur-sm">
+                    <p className="font-semibold">{t('comparison.errorTitle')}</p>
+                    <p className="text-sm">{error}</p>
+                </div>
+            )}
+
+            {comparison && (
+                <div className="bg-gray-700 border border-gray-600 rounded-2xl shadow-2xl animate-fade-in p-6 md:p-8 space-y-8">
+                    <div className="flex justify-between items-center gap-4">
+                        <h2 className="text-2xl font-bold text-white">
+                            <span className="text-cyan-400">{comparison.left.query}</span> vs. <span className="text-cyan-400">{comparison.right.query}</span>
+                        </h2>
+                        <button
+                            onClick={handleExportPdf}
+                            className="flex-shrink-0 flex items-center justify-center px-5 py-2.5 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-700 focus:ring-green-500 transition-colors duration-300"
+                        >
+                            <PrintIcon className="w-5 h-5 mr-2" />
+                            {t('comparison.exportPdf')}
+                        </button>
+                    </div>
+
+                    <section>
+                        <h3 className="text-xl font-bold text-cyan-400 mb-3">{t('comparison.description')}</h3>
+                        <div className="grid grid-cols-2 gap-3">
+                            {[comparison.left, comparison.right].map((process, index) => (
+                                <p key={index} className="text-sm text-gray-300">{process.guide.description}</p>
+                            ))}
+                        </div>
+                    </section>
+
+                    <section>
+                        <h3 className="text-xl font-bold text-cyan-400 mb-3">{t('comparison.steps')}</h3>
+                        <div className="grid grid-cols-2 gap-3">
+                            {comparison.steps.map((row, index) => (
+                                <React.Fragment key={index}>
+                                    <StepCell step={row.left} unique={isUnique(row, 'left')} />
+                                    <StepCell step={row.right} unique={isUnique(row, 'right')} />
+                                </React.Fragment>
+                            ))}
+                        </div>
+                    </section>
+
+                    <section>
+                        <h3 className="text-xl font-bold text-cyan-400 mb-3">{t('comparison.materials')}</h3>
+                        <div className="grid grid-cols-2 gap-3">
+                            {comparison.materials.map((row, index) => (
+                                <React.Fragment key={index}>
+                                    {(['left', 'right'] as const).map(side => {
+                                        const material = row[side];
+                                        return material ? (
+                                            <div key={side} className={`${cellClassName} text-sm text-gray-300 ${isUnique(row, side) ? uniqueCellClassName : 'border-gray-600'}`}>
+                                                {formatMaterial(material)}
+                                                {isUnique(row, side) && <UniqueTag />}
+                                            </div>
+                                        ) : <div key={side} className={`${cellClassName} border-gray-700 border-dashed`} />;
+                                    })}
+                                </React.Fragment>
+                            ))}
+                        </div>
+                    </section>
+
+                    {comparison.norms.length > 0 && (
+                        <section>
+                            <h3 className="text-xl font-bold text-cyan-400 mb-3">{t('citations.title')}</h3>
+                            <table className="w-full text-sm text-gray-300">
+                                <thead>
+                                    <tr className="text-left text-gray-400">
+                                        <th className="py-2">{t('exports.norm')}</th>
+                                        <th className="py-2">{comparison.left.query}</th>
+                                        <th className="py-2">{comparison.right.query}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {comparison.norms.map(norm => (
+                                        <tr key={norm.id} className={`border-t border-gray-600 ${norm.inLeft !== norm.inRight ? 'bg-yellow-900/20' : ''}`}>
+                                            <td className="py-2 font-semibold text-white">{norm.label}</td>
+                                            <td className="py-2">{norm.inLeft ? t('comparison.yes') : '—'}</td>
+                                            <td className="py-2">{norm.inRight ? t('comparison.yes') : '—'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </section>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,159 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Addendum, GroundingChunk, SearchResult } from '../types';
+import { ApiError, SearchCancelledError, type RecoveryAction } from '../services/errors';
+import { askFollowUp } from '../services/geminiService';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import { citationRenderer } from './CitationChip';
+import { RecoveryHint } from './RecoveryHint';
+import { jurisdictionOf } from '../data/jurisdictions';
+import { t } from '../i18n';
+
+interface FollowUpChatProps {
+    query: string;
+    result: SearchResult;
+    onAppend: (addendum: Addendum) => void;
+}
+
+interface PendingAnswer {
+    question: string;
+    answer: string;
+}
+
+const buttonClassName = "px-3 py-1.5 bg-gray-600 text-white text-sm font-semibold rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const SourceLinks: React.FC<{ sources: GroundingChunk[] }> = ({ sources }) => (
+    <ul className="mt-2 space-y-1 text-xs">
+        {sources.map((source, index) => (
+            <li key={index}>
+                <a href={source.web.uri} target="_blank" rel="noopener noreferrer" className="text-cyan-500 hover:text-cyan-400 hover:underline">
+                    {source.web.title || source.web.uri}
+                </a>
+            </li>
+        ))}
+    </ul>
+);
+
+// Multi-turn conversation about the guide on screen. Each answer can be appended to the guide
+// as an addendum, which then travels with it to the cache and the exports.
+export const FollowUpChat: React.FC<FollowUpChatProps> = ({ query, result, onAppend }) => {
+    const [exchanges, setExchanges] = useState<Addendum[]>([]);
+    const [pending, setPending] = useState<PendingAnswer | null>(null);
+    const [question, setQuestion] = useState<string>('');
+    const [error, setError] = useState<string | null>(null);
+    const [errorRecovery, setErrorRecovery] = useState<RecoveryAction | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+    const jurisdiction = jurisdictionOf(result).id;
+    const renderText = useMemo(() => citationRenderer(jurisdiction), [jurisdiction]);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const appendedIds = new Set((result.addenda || []).map(addendum => addendum.id));
+
+    const ask = async (text: string) => {
+        const trimmed = text.trim();
+        if (!trimmed || controllerRef.current) return;
+
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setQuestion('');
+        setError(null);
+        setErrorRecovery(null);
+        setPending({ question: trimmed, answer: '' });
+
+        try {
+            const { text: answer, sources } = await askFollowUp(
+                { query, result },
+                exchanges,
+                trimmed,
+                (chunk) => setPending(prev => prev && { ...prev, answer: prev.answer + chunk }),
+                controller.signal,
+            );
+            setExchanges(prev => [...prev, { id: crypto.randomUUID(), question: trimmed, answer, sources, askedAt: Date.now() }]);
+        } catch (err: any) {
+            // The question goes back to the input so it can be asked again or rephrased.
+            setQuestion(trimmed);
+            if (!(err instanceof SearchCancelledError)) {
+                console.error("Follow-up failed:", err);
+                setError(err instanceof ApiError ? err.message : t('followUp.failed'));
+                setErrorRecovery(err instanceof ApiError ? err.recovery : null);
+            }
+        } finally {
+            controllerRef.current = null;
+            setPending(null);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        ask(question);
+    };
+
+    return (
+        <div className="mt-8 pt-6 border-t border-gray-600">
+            <h3 className="text-2xl font-bold text-cyan-400 mb-2">{t('followUp.title')}</h3>
+            <p className="text-sm text-gray-400 mb-4">{t('followUp.intro')}</p>
+
+            <div className="space-y-4">
+                {exchanges.map(exchange => (
+                    <div key={exchange.id} className="space-y-2">
+                        <p className="ml-auto max-w-[85%] w-fit px-4 py-2 bg-cyan-900/40 border border-cyan-800 rounded-2xl text-white">{exchange.question}</p>
+                        <div className="px-4 py-3 bg-gray-800/60 border border-gray-600 rounded-2xl">
+                            <div className="prose prose-invert max-w-none prose-p:text-gray-300">
+                                <MarkdownRenderer text={exchange.answer} renderText={renderText} />
+                            </div>
+                            {exchange.sources.length > 0 && <SourceLinks sources={exchange.sources} />}
+                            <div className="flex justify-end mt-2">
+                                <button
+                                    onClick={() => onAppend(exchange)}
+                                    disabled={appendedIds.has(exchange.id) || !!result.incomplete}
+                                    className={buttonClassName}
+                                >
+                                    {appendedIds.has(exchange.id) ? t('followUp.appended') : t('followUp.append')}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+
+                {pending && (
+                    <div className="space-y-2">
+                        <p className="ml-auto max-w-[85%] w-fit px-4 py-2 bg-cyan-900/40 border border-cyan-800 rounded-2xl text-white">{pending.question}</p>
+                        <div className="px-4 py-3 bg-gray-800/60 border border-gray-600 rounded-2xl">
+                            {pending.answer ? (
+                                <div className="prose prose-invert max-w-none prose-p:text-gray-300">
+                                    <MarkdownRenderer text={pending.answer} renderText={renderText} />
+                                </div>
+                            ) : (
+                                <p className="text-sm text-gray-400 animate-pulse">{t('followUp.asking')}</p>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {error && (
+                <div className="mt-4 bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+                    <p className="text-sm">{error}</p>
+                    <RecoveryHint recovery={errorRecovery} onRetry={() => ask(question)} />
+                </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="flex gap-2 mt-4">
+                <input
+                    type="text"
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    placeholder={t('followUp.placeholder')}
+                    className="flex-grow px-4 py-2 bg-gray-800 border border-gray-600 rounded-full text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+                {pending ? (
+                    <button type="button" onClick={() => controllerRef.current?.abort()} className={buttonClassName}>{t('followUp.cancel')}</button>
+                ) : (
+                    <button type="submit" disabled={!question.trim()} className="px-5 py-2 bg-cyan-600 text-white font-semibold rounded-full hover:bg-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                        {t('followUp.ask')}
+                    </button>
+                )}
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { HistoryEntry } from '../types';
+import { deleteHistoryEntry, importHistory, listHistory, saveHistoryEntry } from '../services/historyStore';
+import { findCachedTexts } from '../services/cacheStore';
+import { getCacheKeys } from '../services/geminiService';
+import { loadAIProvider } from '../services/providers';
+import { jurisdictionOf } from '../data/jurisdictions';
+import { languageOf, t } from '../i18n';
+import { formatHistoryDate, formatHistoryExport, historyPreview, matchesHistorySearch, normalizeTag, parseHistoryExport, suggestedTags } from '../utils/history';
+import { downloadBlob } from '../utils/download';
+
+interface HistoryDrawerProps {
+    entries: HistoryEntry[];
+    onEntriesChange: (entries: HistoryEntry[]) => void;
+    onOpen: (entry: HistoryEntry) => void;
+    onClose: () => void;
+}
+
+const inputClassName = "w-full px-3 py-1.5 bg-gray-900 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+const buttonClassName = "px-3 py-1.5 bg-gray-600 text-white text-sm font-semibold rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const chipClassName = (active: boolean) =>
+    `px-3 py-1 border rounded-full text-xs transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 ${active ? 'bg-cyan-600 border-cyan-500 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`;
+
+interface TagEditorProps {
+    tags: string[];
+    onChange: (tags: string[]) => void;
+}
+
+const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange }) => {
+    const [draft, setDraft] = useState<string>('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const tag = normalizeTag(draft);
+        if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+        setDraft('');
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5">
+            {tags.map(tag => (
+                <span key={tag} className="flex items-center gap-1 px-2 py-0.5 bg-gray-700 text-gray-200 rounded-full text-xs">
+                    {tag}
+                    <button onClick={() => onChange(tags.filter(existing => existing !== tag))} className="text-gray-400 hover:text-white focus:outline-none" title={t('history.removeTag', { tag })}>✕</button>
+                </span>
+            ))}
+            <form onSubmit={handleSubmit}>
+                <input
+                    type="text"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    list="history-tag-suggestions"
+                    placeholder={t('history.addTag')}
+                    className="w-24 px-2 py-0.5 bg-transparent border border-dashed border-gray-600 rounded-full text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+            </form>
+        </div>
+    );
+};
+
+export const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ entries, onEntriesChange, onOpen, onClose }) => {
+    const [search, setSearch] = useState<string>('');
+    const [favoritesOnly, setFavoritesOnly] = useState<boolean>(false);
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+    const [cachedKeys, setCachedKeys] = useState<Set<string>>(new Set());
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    useEffect(() => {
+        loadAIProvider()
+            .then(() => findCachedTexts(entries.map(entry => getCacheKeys(entry.label, jurisdictionOf(entry.result).id, languageOf(entry.result)).text)))
+            .then(setCachedKeys);
+    }, [entries]);
+
+    const allTags = useMemo(() => [...new Set([...suggestedTags, ...entries.flatMap(entry => entry.tags)])], [entries]);
+
+    const visible = entries.filter(entry =>
+        (!favoritesOnly || entry.favorite)
+        && (!tagFilter || entry.tags.includes(tagFilter))
+        && matchesHistorySearch(entry, search));
+
+    const persist = async (entry: HistoryEntry) => {
+        try {
+            const saved = await saveHistoryEntry(entry);
+            onEntriesChange(entries.map(e => e.query === saved.query ? saved : e));
+            setError(null);
+        } catch (err) {
+            console.error("Could not save history entry:", err);
+            setError(t('history.saveFailed'));
+        }
+    };
+
+    const handleDelete = async (entry: HistoryEntry) => {
+        if (!window.confirm(t('history.deleteConfirm', { label: entry.label }))) return;
+        try {
+            await deleteHistoryEntry(entry.query);
+            onEntriesChange(entries.filter(e => e.query !== entry.query));
+            setError(null);
+        } catch (err) {
+            console.error("Could not delete history entry:", err);
+            setError(t('history.deleteFailed'));
+        }
+    };
+
+    const handleExport = () => {
+        downloadBlob(new Blob([formatHistoryExport(visible)], { type: 'application/json' }), `historial_${new Date().toISOString().slice(0, 10)}.json`);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const imported = parseHistoryExport(await file.text());
+        if (!imported) {
+            setError(t('history.invalidFile'));
+            return;
+        }
+        try {
+            await importHistory(imported);
+            onEntriesChange(await listHistory());
+            setError(null);
+        } catch (err) {
+            console.error("Could not import history:", err);
+            setError(t('history.importFailed'));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-40 flex justify-end bg-black/50" onClick={onClose}>
+            <aside
+                className="h-full w-full max-w-md bg-gray-800 border-l border-gray-600 shadow-2xl overflow-y-auto p-5 space-y-4"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('history.dialogLabel')}
+            >
+                <div className="flex justify-between items-center">
+                    <h2 className="text-2xl font-bold text-white">{t('history.open')}</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-xl focus:outline-none focus:ring-2 focus:ring-cyan-500 rounded" title={t('shared.close')}>✕</button>
+                </div>
+
+                <input
+                    type="search"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder={t('history.searchPlaceholder')}
+                    className={inputClassName}
+                    autoFocus
+                />
+
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={() => setFavoritesOnly(value => !value)} className={chipClassName(favoritesOnly)} aria-pressed={favoritesOnly}>★ {t('history.favorites')}</button>
+                    {allTags.map(tag => (
+                        <button key={tag} onClick={() => setTagFilter(current => current === tag ? null : tag)} className={chipClassName(tagFilter === tag)} aria-pressed={tagFilter === tag}>
+                            {tag}
+                        </button>
+                    ))}
+                </div>
+                <datalist id="history-tag-suggestions">
+                    {allTags.map(tag => <option key={tag} value={tag} />)}
+                </datalist>
+
+                <div className="flex gap-2">
+                    <button onClick={handleExport} disabled={visible.length === 0} className={buttonClassName} title={t('history.exportHint')}>
+                        {t('history.export', { count: visible.length })}
+                    </button>
+                    <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>{t('history.import')}</button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                </div>
+
+                {error && (
+                    <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+                        <p className="text-sm">{error}</p>
+                    </div>
+                )}
+
+                {visible.length === 0 ? (
+                    <p className="text-sm text-gray-400">
+                        {entries.length === 0 ? t('history.empty') : t('history.noMatches')}
+                    </p>
+                ) : (
+                    <ul className="space-y-3">
+                        {visible.map(entry => (
+                            <li key={entry.query} className="bg-gray-900/60 border border-gray-600 rounded-lg p-3 space-y-2">
+                                <div className="flex items-start gap-2">
+                                    <button
+                                        onClick={() => persist({ ...entry, favorite: !entry.favorite })}
+                                        className={`text-lg leading-none focus:outline-none ${entry.favorite ? 'text-yellow-400' : 'text-gray-500 hover:text-yellow-400'}`}
+                                        title={entry.favorite ? t('history.unfavorite') : t('history.favorite')}
+                                        aria-pressed={entry.favorite}
+                                    >
+                                        {entry.favorite ? '★' : '☆'}
+                                    </button>
+                                    <button onClick={() => onOpen(entry)} className="flex-grow text-left font-semibold text-cyan-400 hover:text-cyan-300 hover:underline focus:outline-none">
+                                        {entry.label}
+                                    </button>
+                                    <button onClick={() => handleDelete(entry)} className="text-gray-500 hover:text-red-400 focus:outline-none" title={t('history.delete')}>✕</button>
+                                </div>
+                                <p className="text-xs text-gray-400">
+                                    {formatHistoryDate(entry.searchedAt)} · {jurisdictionOf(entry.result).country} · {cachedKeys.has(getCacheKeys(entry.label, jurisdictionOf(entry.result).id, languageOf(entry.result)).text) ? t('history.cached') : t('history.notCached')}
+                                </p>
+                                <p className="text-sm text-gray-300 line-clamp-3">{historyPreview(entry)}</p>
+                                <TagEditor tags={entry.tags} onChange={(tags) => persist({ ...entry, tags })} />
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </aside>
+        </div>
+    );
+};
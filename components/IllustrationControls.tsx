@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ApiError, SearchCancelledError, type RecoveryAction } from '../services/errors';
+import { defaultImageOptions, generateProcessImages, imageStyles, type ImageOptions, type ImageStyle } from '../services/geminiService';
+import type { ImageAspectRatio } from '../services/providers';
+import { RecoveryHint } from './RecoveryHint';
+import { t, type MessageKey } from '../i18n';
+
+interface IllustrationControlsProps {
+    query: string;
+    imageUrl: string | null;
+    // Makes an image the guide's illustration: it replaces the cached one and goes into the exports.
+    onSelect: (imageUrl: string) => void;
+}
+
+const aspectRatios: { value: ImageAspectRatio; label: MessageKey }[] = [
+    { value: '4:3', label: 'illustration.ratio.landscape' },
+    { value: '16:9', label: 'illustration.ratio.wide' },
+    { value: '1:1', label: 'illustration.ratio.square' },
+    { value: '3:4', label: 'illustration.ratio.portrait' },
+    { value: '9:16', label: 'illustration.ratio.tall' },
+];
+
+const inputClassName = "w-full px-3 py-1.5 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+const buttonClassName = "px-4 py-2 bg-cyan-600 text-white text-sm font-semibold rounded-lg hover:bg-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors disabled:opacity-50";
+
+export const IllustrationControls: React.FC<IllustrationControlsProps> = ({ query, imageUrl, onSelect }) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [options, setOptions] = useState<ImageOptions>(defaultImageOptions);
+    const [variants, setVariants] = useState<string[]>([]);
+    const [isGenerating, setIsGenerating] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const [errorRecovery, setErrorRecovery] = useState<RecoveryAction | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const update = <K extends keyof ImageOptions>(key: K, value: ImageOptions[K]) => setOptions(prev => ({ ...prev, [key]: value }));
+
+    const handleGenerate = async () => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+
+        setIsGenerating(true);
+        setError(null);
+        setErrorRecovery(null);
+        try {
+            const images = await generateProcessImages(query, options, controller.signal);
+            setVariants(images);
+            // A single image needs no choice.
+            if (images.length === 1) onSelect(images[0]);
+        } catch (err: any) {
+            if (err instanceof SearchCancelledError) return;
+            console.error("Image regeneration failed:", err);
+            setError(err instanceof ApiError ? err.message : t('errors.illustration'));
+            setErrorRecovery(err instanceof ApiError ? err.recovery : null);
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setIsGenerating(false);
+            }
+        }
+    };
+
+    const handleCancel = () => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+        setIsGenerating(false);
+    };
+
+    return (
+        <div className="mt-4">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="flex items-center gap-2 text-sm font-semibold text-cyan-400 hover:text-cyan-300 focus:outline-none"
+                aria-expanded={isOpen}
+            >
+                <span>{isOpen ? '▾' : '▸'}</span>
+                {t('illustration.options')}
+            </button>
+
+            {isOpen && (
+                <div className="mt-3 p-4 bg-gray-800/60 border border-gray-600 rounded-lg space-y-4">
+                    <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={t('illustration.style')}>
+                        {(Object.keys(imageStyles) as ImageStyle[]).map(style => (
+                            <button
+                                key={style}
+                                onClick={() => update('style', style)}
+                                className={`px-3 py-1 border rounded-full text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 ${options.style === style ? 'bg-cyan-600 border-cyan-500 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+                                role="radio"
+                                aria-checked={options.style === style}
+                            >
+                                {t(imageStyles[style].label)}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_2fr] gap-3">
+                        <label className="text-sm text-gray-400">
+                            {t('illustration.aspectRatio')}
+                            <select value={options.aspectRatio} onChange={(e) => update('aspectRatio', e.target.value as ImageAspectRatio)} className={`${inputClassName} mt-1`}>
+                                {aspectRatios.map(ratio => <option key={ratio.value} value={ratio.value}>{ratio.value} {t(ratio.label)}</option>)}
+                            </select>
+                        </label>
+                        <label className="text-sm text-gray-400">
+                            {t('illustration.variants')}
+                            <select value={options.variants} onChange={(e) => update('variants', Number(e.target.value))} className={`${inputClassName} mt-1`}>
+                                {[1, 2, 3, 4].map(count => <option key={count} value={count}>{count}</option>)}
+                            </select>
+                        </label>
+                        <label className="text-sm text-gray-400">
+                            {t('illustration.detail')}
+                            <input
+                                type="text"
+                                value={options.detail}
+                                onChange={(e) => update('detail', e.target.value)}
+                                placeholder={t('illustration.detailPlaceholder')}
+                                className={`${inputClassName} mt-1`}
+                            />
+                        </label>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <button onClick={handleGenerate} disabled={isGenerating} className={buttonClassName}>
+                            {isGenerating ? t('illustration.generating') : options.variants > 1 ? t('illustration.generateVariants', { count: options.variants }) : t('illustration.regenerate')}
+                        </button>
+                        {isGenerating && (
+                            <button onClick={handleCancel} className="px-4 py-2 bg-gray-600 text-white text-sm font-semibold rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+                                {t('illustration.cancel')}
+                            </button>
+                        )}
+                    </div>
+
+                    {error && (
+                        <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+                            <p className="text-sm">{error}</p>
+                            <RecoveryHint recovery={errorRecovery} onRetry={handleGenerate} />
+                        </div>
+                    )}
+
+                    {variants.length > 1 && (
+                        <div className="grid grid-cols-2 gap-3">
+                            {variants.map((variant, index) => (
+                                <figure key={index} className={`p-2 rounded-lg border-2 ${variant === imageUrl ? 'border-cyan-500' : 'border-gray-700'}`}>
+                                    <img src={variant} alt={t('illustration.variantAlt', { index: index + 1, query })} className="w-full h-auto rounded" />
+                                    <figcaption className="flex justify-between items-center mt-2 text-sm text-gray-400">
+                                        {t('illustration.variant', { index: index + 1 })}
+                                        {variant === imageUrl ? (
+                                            <span className="text-cyan-400 font-semibold">{t('illustration.preferred')}</span>
+                                        ) : (
+                                            <button onClick={() => onSelect(variant)} className="text-cyan-400 hover:text-cyan-300 hover:underline focus:outline-none">{t('illustration.use')}</button>
+                                        )}
+                                    </figcaption>
+                                </figure>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
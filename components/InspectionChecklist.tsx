@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import type { ChecklistItem, ChecklistStatus, InspectionChecklist as Checklist, SearchResult } from '../types';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { listChecklists, saveChecklist } from '../services/checklistStore';
+import { normalizeQuery } from '../services/cacheStore';
+import { t } from '../i18n';
+import { checklistKindLabel, checklistStatusLabel, checklistStatuses, checklistSummary, createChecklist, formatChecklistCsv, formatCheckedAt } from '../utils/checklist';
+import { buildChecklistPdf } from '../utils/checklistPdf';
+import { guideOf } from '../utils/compareGuides';
+import { downloadBlob } from '../utils/download';
+
+interface InspectionChecklistProps {
+    query: string;
+    result: SearchResult;
+}
+
+const statusStyles: Record<ChecklistStatus, string> = {
+    'cumple': 'bg-green-700 border-green-500 text-white',
+    'no-cumple': 'bg-red-700 border-red-500 text-white',
+    'na': 'bg-gray-500 border-gray-400 text-white',
+};
+
+const inputClassName = "w-full px-3 py-1.5 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+const exportButtonClassName = "flex items-center px-3 py-1.5 bg-gray-600 text-white text-sm font-semibold rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors";
+
+// Inspection record built from the guide's key steps and quality parameters. It is kept in
+// IndexedDB as it is filled in, so a site resident can come back to it during the work.
+export const InspectionChecklist: React.FC<InspectionChecklistProps> = ({ query, result }) => {
+    const normalizedQuery = normalizeQuery(query);
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [checklist, setChecklist] = useState<Checklist | null>(null);
+    const [inspector, setInspector] = useState<string>('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let isCurrent = true;
+        listChecklists(normalizedQuery)
+            .catch(err => {
+                console.error("Could not load checklists:", err);
+                return [];
+            })
+            .then(saved => {
+                if (isCurrent) setChecklist(saved[0] || createChecklist(normalizedQuery, guideOf(result)));
+            });
+        return () => { isCurrent = false; };
+    }, [isOpen, normalizedQuery, result]);
+
+    const persist = async (next: Checklist) => {
+        setChecklist(next);
+        try {
+            await saveChecklist(next);
+            setError(null);
+        } catch (err) {
+            console.error("Could not save checklist:", err);
+            setError(t('checklist.saveFailed'));
+        }
+    };
+
+    const updateItem = (id: string, changes: Partial<ChecklistItem>) => {
+        if (!checklist) return;
+        persist({ ...checklist, items: checklist.items.map(item => item.id === id ? { ...item, ...changes } : item) });
+    };
+
+    const handleStatus = (item: ChecklistItem, status: ChecklistStatus) => {
+        updateItem(item.id, { status, checkedAt: Date.now(), inspector: item.inspector || inspector });
+    };
+
+    // Text fields are edited locally and saved when they lose focus.
+    const editItem = (id: string, changes: Partial<ChecklistItem>) => {
+        setChecklist(prev => prev && { ...prev, items: prev.items.map(item => item.id === id ? { ...item, ...changes } : item) });
+    };
+
+    const handleNewInspection = () => {
+        if (checklist && checklist.items.some(item => item.status) && !window.confirm(t('checklist.newInspectionConfirm'))) return;
+        setChecklist(createChecklist(normalizedQuery, guideOf(result)));
+    };
+
+    const fileBaseName = `chequeo_${query.replace(/\s+/g, '_').toLowerCase()}`;
+
+    const handleExportPdf = () => {
+        if (!checklist) return;
+        try {
+            buildChecklistPdf(checklist).save(`${fileBaseName}.pdf`);
+        } catch (e) {
+            console.error("Error al generar el PDF:", e);
+            setError(t('errors.pdf'));
+        }
+    };
+
+    const handleExportCsv = () => {
+        if (!checklist) return;
+        downloadBlob(new Blob([formatChecklistCsv(checklist)], { type: 'text/csv;charset=utf-8' }), `${fileBaseName}.csv`);
+    };
+
+    const summary = checklist ? checklistSummary(checklist) : null;
+
+    return (
+        <div className="mt-8 pt-6 border-t border-gray-600">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="flex items-center gap-2 text-2xl font-bold text-cyan-400 hover:text-cyan-300 focus:outline-none"
+                aria-expanded={isOpen}
+            >
+                <span className="text-base">{isOpen ? '▾' : '▸'}</span>
+                {t('checklist.title')}
+            </button>
+
+            {isOpen && checklist && summary && (
+                <div className="mt-4 space-y-4">
+                    <div className="flex flex-wrap items-end gap-3">
+                        <label className="text-sm text-gray-400 flex-grow">
+                            {t('checklist.inspector')}
+                            <input
+                                type="text"
+                                value={inspector}
+                                onChange={(e) => setInspector(e.target.value)}
+                                placeholder={t('checklist.inspectorPlaceholder')}
+                                className={`${inputClassName} mt-1`}
+                            />
+                        </label>
+                        <button onClick={handleNewInspection} className={exportButtonClassName}>{t('checklist.newInspection')}</button>
+                        <button onClick={handleExportPdf} className={exportButtonClassName}>
+                            <DownloadIcon className="w-4 h-4 mr-1" />
+                            PDF
+                        </button>
+                        <button onClick={handleExportCsv} className={exportButtonClassName}>
+                            <DownloadIcon className="w-4 h-4 mr-1" />
+                            CSV
+                        </button>
+                    </div>
+
+                    <p className="text-sm text-gray-400">
+                        {t('checklist.summary', {
+                            date: formatCheckedAt(checklist.createdAt),
+                            passed: summary['cumple'],
+                            failed: summary['no-cumple'],
+                            na: summary['na'],
+                            pending: summary['pending'],
+                        })}
+                    </p>
+
+                    {error && (
+                        <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+                            <p className="text-sm">{error}</p>
+                        </div>
+                    )}
+
+                    {checklist.items.length === 0 && (
+                        <p className="text-sm text-gray-400">{t('checklist.empty')}</p>
+                    )}
+
+                    <ol className="space-y-3">
+                        {checklist.items.map((item, index) => (
+                            <li key={item.id} className={`p-4 rounded-lg border ${item.status === 'no-cumple' ? 'border-red-700 bg-red-900/20' : 'border-gray-600 bg-gray-800/60'}`}>
+                                <div className="flex flex-wrap justify-between gap-3">
+                                    <div className="flex-grow min-w-0">
+                                        <p className="font-semibold text-white">
+                                            {index + 1}. <span className="text-xs uppercase text-gray-400 mr-1">{checklistKindLabel(item.kind)}</span> {item.title}
+                                        </p>
+                                        <p className="text-sm text-gray-300 mt-1"><span className="text-gray-400">{t('checklist.acceptanceCriteria')}:</span> {item.acceptanceCriteria}</p>
+                                        {item.citations.length > 0 && (
+                                            <p className="text-xs text-cyan-300 mt-1">{item.citations.join(' · ')}</p>
+                                        )}
+                                    </div>
+                                    <div className="flex gap-1 flex-shrink-0 self-start">
+                                        {checklistStatuses.map(status => (
+                                            <button
+                                                key={status}
+                                                onClick={() => handleStatus(item, status)}
+                                                className={`px-3 py-1 border rounded-full text-xs font-semibold transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 ${item.status === status ? statusStyles[status] : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+                                                aria-pressed={item.status === status}
+                                            >
+                                                {checklistStatusLabel(status)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-1 sm:grid-cols-[1fr_12rem] gap-2 mt-3">
+                                    <input
+                                        type="text"
+                                        value={item.observations}
+                                        onChange={(e) => editItem(item.id, { observations: e.target.value })}
+                                        onBlur={() => persist(checklist)}
+                                        placeholder={t('checklist.observations')}
+                                        className={inputClassName}
+                                    />
+                                    <input
+                                        type="text"
+                                        value={item.inspector}
+                                        onChange={(e) => editItem(item.id, { inspector: e.target.value })}
+                                        onBlur={() => persist(checklist)}
+                                        placeholder={t('checklist.inspector')}
+                                        className={inputClassName}
+                                    />
+                                </div>
+                                {item.checkedAt && (
+                                    <p className="text-xs text-gray-500 mt-2">{t('checklist.checkedAt', { date: formatCheckedAt(item.checkedAt) })}</p>
+                                )}
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+        </div>
+    );
+};
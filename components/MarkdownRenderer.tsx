@@ -0,0 +1,143 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, type Block, type Inline, type TableAlign } from '../utils/markdown';
+
+type TextRenderer = (text: string, key: React.Key) => React.ReactNode;
+
+interface MarkdownRendererProps {
+    text: string;
+    // Custom rendering of plain text runs, e.g. to turn norm citations into chips.
+    renderText?: TextRenderer;
+}
+
+const defaultRenderText: TextRenderer = (text, key) => <React.Fragment key={key}>{text}</React.Fragment>;
+
+const alignClass = (align: TableAlign): string =>
+    align === 'center' ? 'text-center' : align === 'right' ? 'text-right' : 'text-left';
+
+const renderInlines = (nodes: Inline[], renderText: TextRenderer): React.ReactNode[] => nodes.map((node, index) => {
+    switch (node.type) {
+        case 'text':
+            return renderText(node.text, index);
+        case 'strong':
+            return <strong key={index} className="font-bold text-white">{renderInlines(node.children, renderText)}</strong>;
+        case 'emphasis':
+            return <em key={index} className="italic">{renderInlines(node.children, renderText)}</em>;
+        case 'strike':
+            return <del key={index}>{renderInlines(node.children, renderText)}</del>;
+        case 'code':
+            return <code key={index} className="px-1.5 py-0.5 bg-gray-800 rounded text-cyan-300 text-sm">{node.text}</code>;
+        // Link labels are plain text: a citation chip inside would nest one link in another.
+        case 'link':
+            return (
+                <a
+                    key={index}
+                    href={node.href}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-cyan-500 hover:text-cyan-400 hover:underline"
+                >
+                    {renderInlines(node.children, defaultRenderText)}
+                </a>
+            );
+        case 'break':
+            return <br key={index} />;
+    }
+});
+
+// List items holding a single paragraph are rendered inline, without paragraph margins.
+const renderListItemContent = (children: Block[], renderText: TextRenderer): React.ReactNode =>
+    children.length === 1 && children[0].type === 'paragraph'
+        ? renderInlines(children[0].children, renderText)
+        : renderBlocks(children, renderText);
+
+const renderBlock = (block: Block, index: number, renderText: TextRenderer): React.ReactNode => {
+    switch (block.type) {
+        case 'heading':
+            if (block.level === 1) {
+                return (
+                    <h1 key={index} className="text-3xl font-extrabold text-white mt-4 mb-4">
+                        {renderInlines(block.children, renderText)}
+                    </h1>
+                );
+            }
+            if (block.level === 2) {
+                return (
+                    <h2 key={index} className="text-2xl font-bold text-cyan-400 mt-6 mb-3 border-b border-gray-600 pb-2">
+                        {renderInlines(block.children, renderText)}
+                    </h2>
+                );
+            }
+            return (
+                <p key={index} className="text-lg font-semibold text-gray-200 mt-4 mb-1">
+                    {renderInlines(block.children, renderText)}
+                </p>
+            );
+        case 'paragraph':
+            return <p key={index} className="mb-2 text-gray-300">{renderInlines(block.children, renderText)}</p>;
+        case 'list': {
+            const items = block.items.map((item, itemIndex) => (
+                <li key={itemIndex} className="mb-2 text-gray-300 pl-1">
+                    {renderListItemContent(item.children, renderText)}
+                </li>
+            ));
+            return block.ordered ? (
+                <ol key={index} start={block.start} className="list-decimal pl-6 mb-2 marker:text-cyan-400 marker:font-bold">
+                    {items}
+                </ol>
+            ) : (
+                <ul key={index} className="list-disc pl-6 mb-2 marker:text-cyan-400">
+                    {items}
+                </ul>
+            );
+        }
+        case 'table':
+            return (
+                <div key={index} className="overflow-x-auto mb-4">
+                    <table className="min-w-full border border-gray-600 text-sm">
+                        <thead className="bg-gray-800">
+                            <tr>
+                                {block.header.map((cell, column) => (
+                                    <th key={column} className={`px-3 py-2 border border-gray-600 font-semibold text-cyan-400 ${alignClass(block.align[column])}`}>
+                                        {renderInlines(cell, renderText)}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {block.rows.map((row, rowIndex) => (
+                                <tr key={rowIndex} className="even:bg-gray-800/40">
+                                    {row.map((cell, column) => (
+                                        <td key={column} className={`px-3 py-2 border border-gray-600 text-gray-300 ${alignClass(block.align[column])}`}>
+                                            {renderInlines(cell, renderText)}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            );
+        case 'code':
+            return (
+                <pre key={index} className="mb-4 p-4 bg-gray-800 rounded-lg overflow-x-auto text-sm text-gray-200">
+                    <code>{block.text}</code>
+                </pre>
+            );
+        case 'blockquote':
+            return (
+                <blockquote key={index} className="mb-4 pl-4 border-l-4 border-cyan-600 text-gray-400">
+                    {renderBlocks(block.children, renderText)}
+                </blockquote>
+            );
+        case 'rule':
+            return <hr key={index} className="my-6 border-gray-600" />;
+    }
+};
+
+const renderBlocks = (blocks: Block[], renderText: TextRenderer): React.ReactNode[] =>
+    blocks.map((block, index) => renderBlock(block, index, renderText));
+
+export const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ text, renderText = defaultRenderText }) => {
+    const blocks = useMemo(() => parseMarkdown(text), [text]);
+    return <>{renderBlocks(blocks, renderText)}</>;
+};
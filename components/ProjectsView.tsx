@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import type { Project, ProjectMetadata } from '../types';
+import { PrintIcon } from './icons/PrintIcon';
+import { createProject, deleteProject, listProjects, moveGuide, removeGuide, saveProject } from '../services/projectStore';
+import { buildMethodStatementPdf } from '../utils/methodStatementPdf';
+import { t, type MessageKey } from '../i18n';
+
+const emptyMetadata: ProjectMetadata = { name: '', client: '', location: '', engineer: '' };
+
+const metadataFields: { key: keyof ProjectMetadata; label: MessageKey; placeholder: MessageKey }[] = [
+    { key: 'name', label: 'projects.field.name', placeholder: 'projects.field.namePlaceholder' },
+    { key: 'client', label: 'projects.field.client', placeholder: 'projects.field.clientPlaceholder' },
+    { key: 'location', label: 'projects.field.location', placeholder: 'projects.field.locationPlaceholder' },
+    { key: 'engineer', label: 'projects.field.engineer', placeholder: 'projects.field.engineerPlaceholder' },
+];
+
+const inputClassName = "w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+const smallButtonClassName = "px-2 py-1 bg-gray-600 text-white text-sm rounded hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+interface MetadataFormProps {
+    initial: ProjectMetadata;
+    submitLabel: string;
+    onSubmit: (metadata: ProjectMetadata) => void;
+}
+
+const MetadataForm: React.FC<MetadataFormProps> = ({ initial, submitLabel, onSubmit }) => {
+    const [metadata, setMetadata] = useState<ProjectMetadata>(initial);
+
+    useEffect(() => setMetadata(initial), [initial]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!metadata.name.trim()) return;
+        onSubmit({
+            name: metadata.name.trim(),
+            client: metadata.client.trim(),
+            location: metadata.location.trim(),
+            engineer: metadata.engineer.trim(),
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {metadataFields.map(field => (
+                <label key={field.key} className="text-sm text-gray-400">
+                    {t(field.label)}
+                    <input
+                        type="text"
+                        value={metadata[field.key]}
+                        onChange={(e) => setMetadata(prev => ({ ...prev, [field.key]: e.target.value }))}
+                        placeholder={t(field.placeholder)}
+                        required={field.key === 'name'}
+                        className={`${inputClassName} mt-1`}
+                    />
+                </label>
+            ))}
+            <div className="sm:col-span-2 flex justify-end">
+                <button
+                    type="submit"
+                    className="px-5 py-2 bg-cyan-600 text-white font-semibold rounded-lg hover:bg-cyan-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-500 transition-colors duration-300"
+                >
+                    {submitLabel}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export const ProjectsView: React.FC = () => {
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [isCreating, setIsCreating] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const selected = projects.find(project => project.id === selectedId) || null;
+
+    useEffect(() => {
+        listProjects()
+            .then(setProjects)
+            .catch(err => {
+                console.error("Could not load projects:", err);
+                setError(t('projects.loadSavedFailed'));
+            });
+    }, []);
+
+    const persist = async (project: Project) => {
+        try {
+            const saved = await saveProject(project);
+            setProjects(prev => [saved, ...prev.filter(p => p.id !== saved.id)]);
+            setError(null);
+            return saved;
+        } catch (err) {
+            console.error("Could not save project:", err);
+            setError(t('projects.saveFailed'));
+            return null;
+        }
+    };
+
+    const handleCreate = async (metadata: ProjectMetadata) => {
+        const saved = await persist(createProject(metadata));
+        if (saved) {
+            setSelectedId(saved.id);
+            setIsCreating(false);
+        }
+    };
+
+    const handleDelete = async (project: Project) => {
+        if (!window.confirm(t('projects.deleteConfirm', { name: project.name, count: project.guides.length }))) return;
+        try {
+            await deleteProject(project.id);
+            setProjects(prev => prev.filter(p => p.id !== project.id));
+            setSelectedId(null);
+        } catch (err) {
+            console.error("Could not delete project:", err);
+            setError(t('projects.deleteFailed'));
+        }
+    };
+
+    const handleExport = (project: Project) => {
+        try {
+            const fileName = `procedimiento_${project.name.replace(/\s+/g, '_').toLowerCase()}.pdf`;
+            buildMethodStatementPdf(project).save(fileName);
+        } catch (e) {
+            console.error("Error al generar el PDF:", e);
+            setError(t('errors.pdf'));
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-6">
+            <aside className="space-y-2">
+                <button
+                    onClick={() => { setIsCreating(true); setSelectedId(null); }}
+                    className="w-full px-4 py-2 bg-cyan-600 text-white font-semibold rounded-lg hover:bg-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors"
+                >
+                    {t('projects.newProject')}
+                </button>
+                {projects.map(project => (
+                    <button
+                        key={project.id}
+                        onClick={() => { setSelectedId(project.id); setIsCreating(false); }}
+                        className={`w-full text-left px-4 py-2 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 ${project.id === selectedId ? 'bg-gray-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                    >
+                        <span className="block font-semibold truncate">{project.name}</span>
+                        <span className="block text-xs text-gray-400">{t(project.guides.length === 1 ? 'projects.processCountOne' : 'projects.processCount', { count: project.guides.length })}</span>
+                    </button>
+                ))}
+                {projects.length === 0 && !isCreating && (
+                    <p className="text-sm text-gray-500">{t('projects.empty')}</p>
+                )}
+            </aside>
+
+            <section className="bg-gray-700 border border-gray-600 rounded-2xl shadow-2xl p-6 space-y-6">
+                {error && (
+                    <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+                        <p className="text-sm">{error}</p>
+                    </div>
+                )}
+
+                {isCreating ? (
+                    <>
+                        <h2 className="text-2xl font-bold text-white">{t('projects.newProject')}</h2>
+                        <MetadataForm initial={emptyMetadata} submitLabel={t('projects.create')} onSubmit={handleCreate} />
+                    </>
+                ) : selected ? (
+                    <>
+                        <div className="flex justify-between items-center gap-4">
+                            <h2 className="text-2xl font-bold text-white">{selected.name}</h2>
+                            <button
+                                onClick={() => handleExport(selected)}
+                                disabled={selected.guides.length === 0}
+                                className="flex-shrink-0 flex items-center justify-center px-5 py-2.5 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-700 focus:ring-green-500 transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                                title={t('projects.exportHint')}
+                            >
+                                <PrintIcon className="w-5 h-5 mr-2" />
+                                {t('projects.export')}
+                            </button>
+                        </div>
+
+                        <MetadataForm initial={selected} submitLabel={t('projects.saveMetadata')} onSubmit={(metadata) => persist({ ...selected, ...metadata })} />
+
+                        <div>
+                            <h3 className="text-xl font-bold text-cyan-400 mb-3">{t('projects.processes')}</h3>
+                            {selected.guides.length === 0 ? (
+                                <p className="text-sm text-gray-400">{t('projects.noProcesses', { add: t('projects.add') })}</p>
+                            ) : (
+                                <ol className="space-y-2">
+                                    {selected.guides.map((guide, index) => (
+                                        <li key={guide.id} className="flex items-center gap-3 bg-gray-800 border border-gray-600 rounded-lg px-4 py-2">
+                                            <span className="text-cyan-400 font-bold w-6">{index + 1}.</span>
+                                            <span className="flex-grow text-gray-200">{guide.query}</span>
+                                            <button onClick={() => persist(moveGuide(selected, index, index - 1))} disabled={index === 0} className={smallButtonClassName} title={t('projects.moveUp')}>↑</button>
+                                            <button onClick={() => persist(moveGuide(selected, index, index + 1))} disabled={index === selected.guides.length - 1} className={smallButtonClassName} title={t('projects.moveDown')}>↓</button>
+                                            <button onClick={() => persist(removeGuide(selected, guide.id))} className={smallButtonClassName} title={t('projects.removeGuide')}>✕</button>
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                        </div>
+
+                        <div className="flex justify-end">
+                            <button onClick={() => handleDelete(selected)} className="text-sm text-red-400 hover:text-red-300 hover:underline">
+                                {t('projects.delete')}
+                            </button>
+                        </div>
+                    </>
+                ) : (
+                    <p className="text-gray-400 text-center">{t('projects.select')}</p>
+                )}
+            </section>
+        </div>
+    );
+};
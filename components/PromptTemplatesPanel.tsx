@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { formatDate, getLocale, t, type Locale } from '../i18n';
+import type { JurisdictionId } from '../data/jurisdictions';
+import { coreSections, defaultPromptTemplates, extraSections, templateVariables, type ExtraSectionId, type PromptTemplate, type PromptTemplateId } from '../data/promptTemplates';
+import { loadPromptTemplate, restoreDefaultPromptTemplate, savePromptTemplate } from '../services/promptTemplateStore';
+import { buildGuidePrompt, buildImagePrompt, defaultImageOptions } from '../services/geminiService';
+import { unknownVariables } from '../utils/promptTemplate';
+
+interface PromptTemplatesPanelProps {
+    // Profile and guide language the preview is rendered with, the same as a new search.
+    jurisdiction: JurisdictionId;
+    language: Locale;
+}
+
+const inputClassName = "w-full px-3 py-1.5 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+const buttonClassName = "px-4 py-2 bg-cyan-600 text-white text-sm font-semibold rounded-lg hover:bg-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const secondaryButtonClassName = "px-4 py-2 bg-gray-600 text-white text-sm font-semibold rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const loadAll = (): Record<PromptTemplateId, PromptTemplate> => ({ guide: loadPromptTemplate('guide'), image: loadPromptTemplate('image') });
+
+const sameSections = (a: ExtraSectionId[], b: ExtraSectionId[]) => a.length === b.length && a.every(id => b.includes(id));
+
+export const PromptTemplatesPanel: React.FC<PromptTemplatesPanelProps> = ({ jurisdiction, language }) => {
+    const [templates, setTemplates] = useState(loadAll);
+    const [selectedId, setSelectedId] = useState<PromptTemplateId>('guide');
+    const [body, setBody] = useState(templates.guide.body);
+    const [sections, setSections] = useState<ExtraSectionId[]>(templates.guide.extraSections);
+    const [sampleQuery, setSampleQuery] = useState(() => t('templates.sampleQuery'));
+    const [error, setError] = useState<string | null>(null);
+
+    const template = templates[selectedId];
+    const draft: PromptTemplate = { ...template, body, extraSections: sections };
+    const isDirty = body !== template.body || !sameSections(sections, template.extraSections);
+    const isBuiltIn = template.updatedAt === null;
+    const unknown = unknownVariables(draft);
+
+    const preview = selectedId === 'guide'
+        ? buildGuidePrompt(sampleQuery, jurisdiction, language, draft)
+        : buildImagePrompt(sampleQuery, defaultImageOptions, draft);
+
+    const select = (id: PromptTemplateId) => {
+        if (isDirty && !window.confirm(t('templates.discardConfirm'))) return;
+        setSelectedId(id);
+        setBody(templates[id].body);
+        setSections(templates[id].extraSections);
+        setError(null);
+    };
+
+    const apply = (saved: PromptTemplate) => {
+        setTemplates(prev => ({ ...prev, [saved.id]: saved }));
+        setBody(saved.body);
+        setSections(saved.extraSections);
+        setError(null);
+    };
+
+    const handleSave = () => {
+        try {
+            apply(savePromptTemplate(selectedId, { body, extraSections: sections }));
+        } catch (err) {
+            console.error("Could not save template:", err);
+            setError(t('templates.saveFailed'));
+        }
+    };
+
+    const handleRestore = () => {
+        if (!window.confirm(t('templates.restoreConfirm'))) return;
+        try {
+            apply(restoreDefaultPromptTemplate(selectedId));
+        } catch (err) {
+            console.error("Could not restore template:", err);
+            setError(t('templates.restoreFailed'));
+        }
+    };
+
+    const toggleSection = (id: ExtraSectionId) =>
+        setSections(prev => prev.includes(id) ? prev.filter(section => section !== id) : [...prev, id]);
+
+    const nextVersion = Math.max(template.version, defaultPromptTemplates[selectedId].version) + 1;
+
+    return (
+        <section className="bg-gray-700 border border-gray-600 rounded-2xl shadow-2xl p-6 space-y-6">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <h2 className="text-2xl font-bold text-white">{t('templates.title')}</h2>
+                <select
+                    value={selectedId}
+                    onChange={(e) => select(e.target.value as PromptTemplateId)}
+                    className="px-3 py-1.5 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                >
+                    {(Object.keys(templates) as PromptTemplateId[]).map(id => (
+                        <option key={id} value={id}>{t(`templates.name.${id}`)} · v{templates[id].version}</option>
+                    ))}
+                </select>
+            </div>
+
+            <p className="text-sm text-gray-400">
+                {isBuiltIn ? t('templates.versionBuiltIn', { version: template.version }) : t('templates.versionModified', { version: template.version, date: formatDate(template.updatedAt!) })}
+                {' '}{t('templates.versionNote')}
+            </p>
+
+            {error && (
+                <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+                    <p className="text-sm">{error}</p>
+                </div>
+            )}
+
+            {selectedId === 'guide' && (
+                <div>
+                    <h3 className="text-xl font-bold text-cyan-400 mb-3">{t('templates.optionalSections')}</h3>
+                    <div className="flex flex-wrap gap-4">
+                        {(Object.keys(extraSections) as ExtraSectionId[]).map(id => (
+                            <label key={id} className="flex items-center gap-2 text-sm text-gray-300" title={extraSections[id].instruction}>
+                                <input
+                                    type="checkbox"
+                                    checked={sections.includes(id)}
+                                    onChange={() => toggleSection(id)}
+                                    className="accent-cyan-500"
+                                />
+                                {extraSections[id].titles[getLocale()]}
+                            </label>
+                        ))}
+                    </div>
+                    <p className="mt-2 text-xs text-gray-500">{t('templates.optionalSectionsNote', { norms: coreSections.norms.titles[getLocale()] })}</p>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-3">
+                    <h3 className="text-xl font-bold text-cyan-400">{t('templates.body')}</h3>
+                    <textarea
+                        value={body}
+                        onChange={(e) => setBody(e.target.value)}
+                        rows={18}
+                        spellCheck={false}
+                        className={`${inputClassName} font-mono`}
+                    />
+                    {unknown.length > 0 && (
+                        <p className="text-sm text-yellow-300">
+                            {t('templates.unknownVariables', { names: unknown.map(name => `{{${name}}}`).join(', ') })}
+                        </p>
+                    )}
+                    <div>
+                        <p className="text-sm text-gray-400 mb-1">{t('templates.variables')}</p>
+                        <ul className="text-xs text-gray-400 space-y-0.5">
+                            {templateVariables[selectedId].map(variable => (
+                                <li key={variable.name}>
+                                    <code className="text-cyan-300">{`{{${variable.name}}}`}</code> — {t(variable.description)}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </div>
+
+                <div className="space-y-3">
+                    <h3 className="text-xl font-bold text-cyan-400">{t('templates.preview')}</h3>
+                    <label className="block text-sm text-gray-400">
+                        {t('templates.sampleQueryLabel')}
+                        <input
+                            type="text"
+                            value={sampleQuery}
+                            onChange={(e) => setSampleQuery(e.target.value)}
+                            className={`${inputClassName} mt-1`}
+                        />
+                    </label>
+                    <pre className="whitespace-pre-wrap bg-gray-800 border border-gray-600 rounded-lg p-3 text-xs text-gray-300 max-h-[28rem] overflow-y-auto">{preview}</pre>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                <button onClick={handleSave} disabled={!isDirty} className={buttonClassName}>
+                    {t('templates.save', { version: nextVersion })}
+                </button>
+                <button onClick={() => apply(template)} disabled={!isDirty} className={secondaryButtonClassName}>
+                    {t('templates.discard')}
+                </button>
+                <button onClick={handleRestore} disabled={isBuiltIn} className={secondaryButtonClassName}>
+                    {t('templates.restore')}
+                </button>
+            </div>
+        </section>
+    );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import type { QualityIssue, QualityReport } from '../types';
+import { qualityConfig, sectionTitle } from '../utils/guideQuality';
+import { t, type Locale } from '../i18n';
+
+interface QualityReportCardProps {
+    report: QualityReport;
+    // Language of the guide, which the section names are given in.
+    language: Locale;
+    isRepairing: boolean;
+    repairMessage: string | null;
+    autoRepair: boolean;
+    onAutoRepairChange: (autoRepair: boolean) => void;
+    // Absent for shared guides, which are read-only.
+    onRepair?: () => void;
+}
+
+const describeIssue = (issue: QualityIssue, language: Locale): string =>
+    t(`quality.issue.${issue.kind}`, {
+        section: issue.section ? sectionTitle(issue.section, language) : t('quality.outsideSections'),
+        count: issue.count ?? 0,
+        total: issue.total ?? 0,
+        min: Math.round(qualityConfig.minCitedShare * 100),
+    });
+
+const scoreClassName = (report: QualityReport) =>
+    report.passed ? 'bg-green-700 text-green-100' : report.score >= 60 ? 'bg-yellow-700 text-yellow-100' : 'bg-red-700 text-red-100';
+
+// Verdict of the quality gate on the guide, with the repair request when it fails.
+export const QualityReportCard: React.FC<QualityReportCardProps> = ({ report, language, isRepairing, repairMessage, autoRepair, onAutoRepairChange, onRepair }) => (
+    <div className="mb-6 bg-gray-800 border border-gray-600 rounded-lg px-4 py-3 space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+            <span className="font-semibold text-gray-200">{t('quality.title')}</span>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${scoreClassName(report)}`}>
+                {t('quality.score', { score: report.score })} · {report.passed ? t('quality.passed') : t('quality.failed')}
+            </span>
+            {report.totalSteps > 0 && (
+                <span className="text-sm text-gray-400">{t('quality.citedSteps', { cited: report.citedSteps, total: report.totalSteps })}</span>
+            )}
+            {report.repairedFrom !== undefined && (
+                <span className="text-sm text-gray-400">{t('quality.repairedFrom', { score: report.repairedFrom })}</span>
+            )}
+            {onRepair && (
+                <div className="flex items-center gap-3 ml-auto">
+                    <label className="flex items-center gap-2 text-sm text-gray-400" title={t('quality.autoRepairHint')}>
+                        <input
+                            type="checkbox"
+                            checked={autoRepair}
+                            onChange={(e) => onAutoRepairChange(e.target.checked)}
+                            className="accent-cyan-500"
+                        />
+                        {t('quality.autoRepair')}
+                    </label>
+                    {!report.passed && (
+                        <button
+                            onClick={onRepair}
+                            disabled={isRepairing}
+                            className="px-4 py-1.5 bg-cyan-600 text-white text-sm font-semibold rounded-lg hover:bg-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={t('quality.repairHint')}
+                        >
+                            {t('quality.repair')}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+        {report.issues.length > 0 && (
+            <ul className="list-disc list-inside text-sm text-yellow-300 space-y-0.5">
+                {report.issues.map((issue, index) => <li key={index}>{describeIssue(issue, language)}</li>)}
+            </ul>
+        )}
+        {isRepairing && <p className="text-sm text-cyan-300">{t('quality.repairing')}</p>}
+        {repairMessage && <p className="text-sm text-gray-400">{repairMessage}</p>}
+    </div>
+);
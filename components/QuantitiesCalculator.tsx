@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import type { SearchResult } from '../types';
+import { t } from '../i18n';
+import { guideOf } from '../utils/compareGuides';
+import {
+    barSizes,
+    computeQuantities,
+    mixDesignLabel,
+    mixDesigns,
+    mixProportion,
+    quantityInputsFromMaterials,
+    quantityResultRows,
+    type BarSize,
+    type Dimension,
+    type LengthUnit,
+    type MixDesignId,
+    type QuantityInputs,
+} from '../utils/quantities';
+
+interface QuantitiesCalculatorProps {
+    result: SearchResult;
+    // null until the calculator is used; exports include the quantities only when set.
+    inputs: QuantityInputs | null;
+    onChange: (inputs: QuantityInputs | null) => void;
+}
+
+const inputClassName = "w-full px-3 py-1.5 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-cyan-500";
+const buttonClassName = "px-3 py-1.5 bg-gray-600 text-white text-sm font-semibold rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors";
+
+const lengthUnits: LengthUnit[] = ['m', 'cm', 'mm'];
+
+const parseNumber = (value: string): number => {
+    const parsed = parseFloat(value.replace(',', '.'));
+    return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (value: number) => void; suffix?: string }> = ({ label, value, onChange, suffix }) => (
+    <label className="text-sm text-gray-400">
+        {label}{suffix && <span className="text-gray-500"> ({suffix})</span>}
+        <input type="number" min={0} step="any" value={value} onChange={(e) => onChange(parseNumber(e.target.value))} className={`${inputClassName} mt-1`} />
+    </label>
+);
+
+const DimensionField: React.FC<{ label: string; value: Dimension; onChange: (value: Dimension) => void }> = ({ label, value, onChange }) => (
+    <label className="text-sm text-gray-400">
+        {label}
+        <div className="flex gap-1 mt-1">
+            <input type="number" min={0} step="any" value={value.value} onChange={(e) => onChange({ ...value, value: parseNumber(e.target.value) })} className={inputClassName} />
+            <select value={value.unit} onChange={(e) => onChange({ ...value, unit: e.target.value as LengthUnit })} className={`${inputClassName} w-20`} aria-label={t('quantities.unitOf', { label: label.toLowerCase() })}>
+                {lengthUnits.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+            </select>
+        </div>
+    </label>
+);
+
+// Quantity take-off for the element the guide describes, pre-filled from its materials section.
+export const QuantitiesCalculator: React.FC<QuantitiesCalculatorProps> = ({ result, inputs, onChange }) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const results = useMemo(() => inputs && computeQuantities(inputs), [inputs]);
+
+    const prefill = () => onChange(quantityInputsFromMaterials(guideOf(result).materials));
+
+    const handleToggle = () => {
+        if (!isOpen && !inputs) prefill();
+        setIsOpen(open => !open);
+    };
+
+    const handleRemove = () => {
+        onChange(null);
+        setIsOpen(false);
+    };
+
+    const update = <K extends keyof QuantityInputs>(key: K, value: QuantityInputs[K]) => {
+        if (inputs) onChange({ ...inputs, [key]: value });
+    };
+
+    return (
+        <div className="mt-8 pt-6 border-t border-gray-600">
+            <button
+                onClick={handleToggle}
+                className="flex items-center gap-2 text-2xl font-bold text-cyan-400 hover:text-cyan-300 focus:outline-none"
+                aria-expanded={isOpen}
+            >
+                <span className="text-base">{isOpen ? '▾' : '▸'}</span>
+                {t('quantities.title')}
+            </button>
+
+            {isOpen && inputs && results && (
+                <div className="mt-4 space-y-4">
+                    <p className="text-sm text-gray-400">
+                        {t('quantities.intro')}
+                    </p>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <DimensionField label={t('quantities.length')} value={inputs.length} onChange={(value) => update('length', value)} />
+                        <DimensionField label={t('quantities.width')} value={inputs.width} onChange={(value) => update('width', value)} />
+                        <DimensionField label={t('quantities.thickness')} value={inputs.thickness} onChange={(value) => update('thickness', value)} />
+                        <NumberField label={t('quantities.row.count')} value={inputs.count} onChange={(value) => update('count', value)} />
+
+                        <label className="text-sm text-gray-400 col-span-2">
+                            {t('quantities.row.mixDesign')}
+                            <select value={inputs.mixDesign} onChange={(e) => update('mixDesign', e.target.value as MixDesignId)} className={`${inputClassName} mt-1`}>
+                                {mixDesigns.map(design => (
+                                    <option key={design.id} value={design.id}>{mixDesignLabel(design)} — {mixProportion(design)}, {design.cementKgPerM3} kg/m³</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="text-sm text-gray-400">
+                            {t('quantities.barSize')}
+                            <select value={inputs.barSize} onChange={(e) => update('barSize', e.target.value as BarSize)} className={`${inputClassName} mt-1`}>
+                                {(Object.keys(barSizes) as BarSize[]).map(size => (
+                                    <option key={size} value={size}>{size} ({barSizes[size].inches})</option>
+                                ))}
+                            </select>
+                        </label>
+                        <NumberField label={t('quantities.mats')} value={inputs.mats} onChange={(value) => update('mats', Math.max(0, Math.floor(value)))} />
+
+                        <DimensionField label={t('quantities.barSpacing')} value={inputs.barSpacing} onChange={(value) => update('barSpacing', value)} />
+                        <DimensionField label={t('quantities.cover')} value={inputs.cover} onChange={(value) => update('cover', value)} />
+                        <label className="flex items-center gap-2 text-sm text-gray-400 col-span-2 self-end pb-2">
+                            <input type="checkbox" checked={inputs.formworkBottom} onChange={(e) => update('formworkBottom', e.target.checked)} className="accent-cyan-500" />
+                            {t('quantities.formworkBottom')}
+                        </label>
+
+                        <NumberField label={t('quantities.concreteWaste')} suffix="%" value={inputs.concreteWaste} onChange={(value) => update('concreteWaste', value)} />
+                        <NumberField label={t('quantities.steelWaste')} suffix="%" value={inputs.steelWaste} onChange={(value) => update('steelWaste', value)} />
+                        <NumberField label={t('quantities.formworkWaste')} suffix="%" value={inputs.formworkWaste} onChange={(value) => update('formworkWaste', value)} />
+                    </div>
+
+                    <table className="w-full text-sm border border-gray-600">
+                        <tbody>
+                            {quantityResultRows(results).map(([label, value]) => (
+                                <tr key={label} className="border-t border-gray-600">
+                                    <th className="text-left font-semibold text-gray-300 px-3 py-2 w-1/3 bg-gray-800/60">{label}</th>
+                                    <td className="text-white px-3 py-2">{value}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    <div className="flex flex-wrap items-center gap-3">
+                        <p className="text-xs text-gray-500 flex-grow">{t('quantities.exportsNote')}</p>
+                        <button onClick={prefill} className={buttonClassName}>{t('quantities.reset')}</button>
+                        <button onClick={handleRemove} className={buttonClassName}>{t('quantities.remove')}</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
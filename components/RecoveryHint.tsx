@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import type { RecoveryAction } from '../services/errors';
+import { t } from '../i18n';
+
+interface RecoveryHintProps {
+    recovery: RecoveryAction | null;
+    onRetry: () => void;
+}
+
+// Tells the user what to do about an error; for transient ones, a retry button that unlocks
+// once the wait requested by the service has passed.
+export const RecoveryHint: React.FC<RecoveryHintProps> = ({ recovery, onRetry }) => {
+    const [secondsLeft, setSecondsLeft] = useState<number>(0);
+
+    useEffect(() => {
+        const wait = recovery?.kind === 'retry' ? recovery.retryAfterSeconds ?? 0 : 0;
+        setSecondsLeft(wait);
+        if (wait <= 0) return;
+
+        const timer = setInterval(() => {
+            setSecondsLeft(prev => {
+                if (prev <= 1) clearInterval(timer);
+                return Math.max(0, prev - 1);
+            });
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [recovery]);
+
+    if (!recovery) {
+        return null;
+    }
+
+    if (recovery.kind === 'rephrase') {
+        return <p className="text-sm mt-2">{t('recovery.rephrase')}</p>;
+    }
+
+    if (recovery.kind === 'contact-admin') {
+        return <p className="text-sm mt-2">{t('recovery.contactAdmin')}</p>;
+    }
+
+    return (
+        <button
+            onClick={onRetry}
+            disabled={secondsLeft > 0}
+            className="mt-3 px-4 py-1.5 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+            {secondsLeft > 0 ? t('recovery.retryIn', { seconds: secondsLeft }) : t('recovery.retry')}
+        </button>
+    );
+};
@@ -1,18 +1,58 @@
-
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { SearchIcon } from './icons/SearchIcon';
+import type { HistoryEntry } from '../types';
+import { canonicalActivity, suggestActivities, type Suggestion } from '../utils/autocomplete';
+import { t } from '../i18n';
 
 interface SearchBarProps {
     query: string;
     setQuery: (query: string) => void;
     onSearch: (query: string) => void;
     isLoading: boolean;
+    // Past searches, suggested before the taxonomy activities.
+    history?: HistoryEntry[];
 }
 
-export const SearchBar: React.FC<SearchBarProps> = ({ query, setQuery, onSearch, isLoading }) => {
+const sourceIcons: Record<Suggestion['source'], string> = { favorite: '★', history: '↺', taxonomy: '' };
+
+export const SearchBar: React.FC<SearchBarProps> = ({ query, setQuery, onSearch, isLoading, history = [] }) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [highlighted, setHighlighted] = useState<number>(-1);
+
+    const suggestions = useMemo(() => suggestActivities(query, history), [query, history]);
+    const showSuggestions = isOpen && suggestions.length > 0;
+
+    const search = (value: string) => {
+        setIsOpen(false);
+        setHighlighted(-1);
+        setQuery(value);
+        onSearch(value);
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        onSearch(query);
+        if (showSuggestions && highlighted >= 0) {
+            search(suggestions[highlighted].label);
+            return;
+        }
+        search(canonicalActivity(query) ?? query);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (!isOpen) {
+                setIsOpen(true);
+                return;
+            }
+            // Cycles through the suggestions and back to the typed text (-1).
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            const positions = suggestions.length + 1;
+            setHighlighted(current => (current + 1 + step + positions) % positions - 1);
+        } else if (e.key === 'Escape') {
+            setIsOpen(false);
+            setHighlighted(-1);
+        }
     };
 
     return (
@@ -20,25 +60,57 @@ export const SearchBar: React.FC<SearchBarProps> = ({ query, setQuery, onSearch,
             <input
                 type="text"
                 value={query}
-                onChange={(e) => setQuery(e.target.value)}
-                placeholder="Ej: Muro de contención en concreto reforzado..."
+                onChange={(e) => { setQuery(e.target.value); setIsOpen(true); setHighlighted(-1); }}
+                onFocus={() => setIsOpen(true)}
+                onBlur={() => setIsOpen(false)}
+                onKeyDown={handleKeyDown}
+                placeholder={t('search.placeholder')}
                 className="w-full pl-5 pr-28 py-4 text-lg bg-gray-800 border-2 border-gray-600 rounded-full text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition-all duration-300 shadow-lg"
-                disabled={isLoading}
+                role="combobox"
+                aria-autocomplete="list"
+                aria-expanded={showSuggestions}
+                aria-controls="search-suggestions"
+                aria-activedescendant={showSuggestions && highlighted >= 0 ? `search-suggestion-${highlighted}` : undefined}
+                autoComplete="off"
             />
             <button
                 type="submit"
-                disabled={isLoading}
                 className="absolute inset-y-0 right-2.5 my-2.5 flex items-center justify-center px-6 bg-cyan-600 text-white font-semibold rounded-full hover:bg-cyan-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors duration-300"
             >
                 {isLoading ? (
-                    'Buscando...'
+                    t('search.searching')
                 ) : (
                     <>
                         <SearchIcon className="w-5 h-5 mr-2" />
-                        Buscar
+                        {t('search.submit')}
                     </>
                 )}
             </button>
+
+            {showSuggestions && (
+                <ul
+                    id="search-suggestions"
+                    role="listbox"
+                    className="absolute z-30 left-0 right-0 mt-2 py-2 bg-gray-800 border border-gray-600 rounded-2xl shadow-2xl overflow-hidden"
+                >
+                    {suggestions.map((suggestion, index) => (
+                        <li
+                            key={`${suggestion.source}|${suggestion.label}`}
+                            id={`search-suggestion-${index}`}
+                            role="option"
+                            aria-selected={index === highlighted}
+                            // Before the input's blur closes the list.
+                            onMouseDown={(e) => { e.preventDefault(); search(suggestion.label); }}
+                            onMouseEnter={() => setHighlighted(index)}
+                            className={`flex items-center gap-3 px-5 py-2 cursor-pointer ${index === highlighted ? 'bg-gray-700 text-white' : 'text-gray-300'}`}
+                        >
+                            <span className={`w-4 text-center ${suggestion.source === 'favorite' ? 'text-yellow-400' : 'text-gray-500'}`}>{sourceIcons[suggestion.source]}</span>
+                            <span className="flex-grow truncate">{suggestion.label}</span>
+                            {suggestion.chapter && <span className="text-xs text-gray-500">{suggestion.chapter}</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
         </form>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import type { SearchResult } from '../types';
+import { buildPermalink, buildShareFile, compressImage, LONG_LINK_CHARS } from '../utils/share';
+import { downloadBlob } from '../utils/download';
+import { t } from '../i18n';
+
+interface ShareButtonProps {
+    query: string;
+    result: SearchResult;
+    imageUrl: string | null;
+}
+
+const actionClassName = "block w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-wait";
+
+// Toolbar button that puts the finished guide in a permalink: copied to the clipboard, or saved as
+// a small HTML file when the link is too long for a chat message.
+export const ShareButton: React.FC<ShareButtonProps> = ({ query, result, imageUrl }) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [includeImage, setIncludeImage] = useState<boolean>(false);
+    const [isBuilding, setIsBuilding] = useState<boolean>(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const permalink = async (): Promise<string> => {
+        let sharedImage: string | null = null;
+        if (includeImage && imageUrl) {
+            try {
+                sharedImage = await compressImage(imageUrl);
+            } catch (err) {
+                console.warn("Could not compress the illustration; sharing without it:", err);
+            }
+        }
+        return buildPermalink({ query, result, imageUrl: sharedImage, sharedAt: Date.now() });
+    };
+
+    const run = async (action: (link: string) => Promise<string>) => {
+        setIsBuilding(true);
+        try {
+            setMessage(await action(await permalink()));
+        } catch (err) {
+            console.error("Could not share the guide:", err);
+            setMessage(t('share.failed'));
+        } finally {
+            setIsBuilding(false);
+            setIsOpen(false);
+        }
+    };
+
+    const handleCopy = () => run(async (link) => {
+        await navigator.clipboard.writeText(link);
+        return link.length > LONG_LINK_CHARS
+            ? t('share.copiedLong')
+            : t('share.copied');
+    });
+
+    const handleDownload = () => run(async (link) => {
+        downloadBlob(buildShareFile(link, query), `guia_${query.replace(/\s+/g, '_').toLowerCase()}.html`);
+        return t('share.downloaded');
+    });
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => { setIsOpen(open => !open); setMessage(null); }}
+                className="flex items-center justify-center px-5 py-2.5 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-500 transition-colors duration-300"
+                title={t('share.hint')}
+            >
+                {t('share.share')}
+            </button>
+            {message && !isOpen && (
+                <span className="absolute right-0 top-full mt-1 text-xs text-gray-400 whitespace-nowrap">{message}</span>
+            )}
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-2 w-72 bg-gray-800 border border-gray-600 rounded-lg shadow-xl z-10 py-1">
+                    {imageUrl && (
+                        <label className="flex items-center gap-2 px-4 py-2 text-sm text-gray-300 border-b border-gray-700">
+                            <input type="checkbox" checked={includeImage} onChange={(e) => setIncludeImage(e.target.checked)} className="accent-cyan-500" />
+                            {t('share.includeImage')}
+                        </label>
+                    )}
+                    <button onClick={handleCopy} disabled={isBuilding} className={actionClassName}>{t('share.copy')}</button>
+                    <button onClick={handleDownload} disabled={isBuilding} className={actionClassName}>{t('share.download')}</button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { UnitPrices, UsageRecord } from '../types';
+import { clearUsage, defaultUnitPrices, listUsage, loadUnitPrices, saveUnitPrices } from '../services/usageStore';
+import { formatCost, formatTokens, formatUsageCsv, summarizeUsage } from '../utils/usage';
+import { downloadBlob } from '../utils/download';
+import { t, type MessageKey } from '../i18n';
+
+const priceFields: { key: Exclude<keyof UnitPrices, 'currency'>; label: MessageKey }[] = [
+    { key: 'inputPerMillionTokens', label: 'usage.price.input' },
+    { key: 'outputPerMillionTokens', label: 'usage.price.output' },
+    { key: 'perImage', label: 'usage.price.image' },
+];
+
+const TOP_QUERIES = 5;
+
+const inputClassName = "w-full px-3 py-1.5 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+const buttonClassName = "px-4 py-2 bg-cyan-600 text-white text-sm font-semibold rounded-lg hover:bg-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+    <div className="bg-gray-800 border border-gray-600 rounded-lg px-4 py-3">
+        <p className="text-xs uppercase tracking-wide text-gray-400">{label}</p>
+        <p className="text-xl font-bold text-white">{value}</p>
+        {hint && <p className="text-xs text-gray-500">{hint}</p>}
+    </div>
+);
+
+export const UsagePanel: React.FC = () => {
+    const [records, setRecords] = useState<UsageRecord[]>([]);
+    const [prices, setPrices] = useState<UnitPrices>(loadUnitPrices);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        listUsage()
+            .then(setRecords)
+            .catch(err => {
+                console.error("Could not load usage:", err);
+                setError(t('usage.loadFailed'));
+            });
+    }, []);
+
+    const summary = useMemo(() => summarizeUsage(records, prices), [records, prices]);
+    const { totals } = summary;
+
+    const updatePrices = (next: UnitPrices) => {
+        setPrices(next);
+        try {
+            saveUnitPrices(next);
+        } catch (err) {
+            console.error("Could not save prices:", err);
+            setError(t('usage.savePricesFailed'));
+        }
+    };
+
+    const handleExport = () => {
+        downloadBlob(new Blob([formatUsageCsv(summary, prices)], { type: 'text/csv;charset=utf-8' }), `consumo_${new Date().toISOString().slice(0, 10)}.csv`);
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm(t('usage.clearConfirm'))) return;
+        try {
+            await clearUsage();
+            setRecords([]);
+            setError(null);
+        } catch (err) {
+            console.error("Could not clear usage:", err);
+            setError(t('usage.clearFailed'));
+        }
+    };
+
+    return (
+        <section className="bg-gray-700 border border-gray-600 rounded-2xl shadow-2xl p-6 space-y-6">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <h2 className="text-2xl font-bold text-white">{t('app.tab.usage')}</h2>
+                <div className="flex gap-2">
+                    <button onClick={handleExport} disabled={records.length === 0} className={buttonClassName} title={t('usage.exportHint')}>
+                        {t('usage.export')}
+                    </button>
+                    <button
+                        onClick={handleClear}
+                        disabled={records.length === 0}
+                        className="px-4 py-2 bg-gray-600 text-white text-sm font-semibold rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {t('usage.clear')}
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+                    <p className="text-sm">{error}</p>
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Stat label={t('usage.cost')} value={formatCost(totals.cost, prices.currency)} hint={t(totals.calls === 1 ? 'usage.callsOne' : 'usage.calls', { count: totals.calls })} />
+                <Stat label={t('usage.tokens')} value={formatTokens(totals.inputTokens + totals.outputTokens)} hint={t('usage.tokensSplit', { input: formatTokens(totals.inputTokens), output: formatTokens(totals.outputTokens) })} />
+                <Stat label={t('usage.images')} value={String(totals.images)} />
+                <Stat label={t('usage.savings')} value={formatCost(totals.savings, prices.currency)} hint={t(totals.cacheHits === 1 ? 'usage.cacheHitsOne' : 'usage.cacheHits', { count: totals.cacheHits })} />
+            </div>
+
+            <div>
+                <h3 className="text-xl font-bold text-cyan-400 mb-3">{t('usage.topQueries')}</h3>
+                {summary.byQuery.length === 0 ? (
+                    <p className="text-sm text-gray-400">{t('usage.empty')}</p>
+                ) : (
+                    <ol className="space-y-2">
+                        {summary.byQuery.slice(0, TOP_QUERIES).map((row, index) => (
+                            <li key={row.query} className="flex items-center gap-3 bg-gray-800 border border-gray-600 rounded-lg px-4 py-2">
+                                <span className="text-cyan-400 font-bold w-6">{index + 1}.</span>
+                                <span className="flex-grow text-gray-200 truncate">{row.query}</span>
+                                <span className="text-xs text-gray-400">{t('usage.queryCalls', { calls: row.calls, cacheHits: row.cacheHits })}</span>
+                                <span className="font-semibold text-white">{formatCost(row.cost, prices.currency)}</span>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+            </div>
+
+            {summary.byDay.length > 0 && (
+                <div>
+                    <h3 className="text-xl font-bold text-cyan-400 mb-3">{t('usage.byDay')}</h3>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left text-gray-300">
+                            <thead className="text-xs uppercase text-gray-400 border-b border-gray-600">
+                                <tr>
+                                    <th className="py-2 pr-3">{t('usage.column.date')}</th>
+                                    <th className="py-2 pr-3">{t('usage.column.query')}</th>
+                                    <th className="py-2 pr-3 text-right">{t('usage.tokens')}</th>
+                                    <th className="py-2 pr-3 text-right">{t('usage.images')}</th>
+                                    <th className="py-2 pr-3 text-right">{t('usage.costShort')}</th>
+                                    <th className="py-2 text-right">{t('usage.savingsShort')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {summary.byDay.map(row => (
+                                    <tr key={`${row.day}|${row.query}`} className="border-b border-gray-600/50">
+                                        <td className="py-2 pr-3 whitespace-nowrap">{row.day}</td>
+                                        <td className="py-2 pr-3">{row.query}</td>
+                                        <td className="py-2 pr-3 text-right">{formatTokens(row.inputTokens + row.outputTokens)}</td>
+                                        <td className="py-2 pr-3 text-right">{row.images}</td>
+                                        <td className="py-2 pr-3 text-right whitespace-nowrap">{formatCost(row.cost, prices.currency)}</td>
+                                        <td className="py-2 text-right whitespace-nowrap">{formatCost(row.savings, prices.currency)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <div>
+                <h3 className="text-xl font-bold text-cyan-400 mb-3">{t('usage.prices')}</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+                    <label className="text-sm text-gray-400">
+                        {t('usage.currency')}
+                        <input
+                            type="text"
+                            value={prices.currency}
+                            onChange={(e) => updatePrices({ ...prices, currency: e.target.value.toUpperCase() })}
+                            maxLength={3}
+                            className={`${inputClassName} mt-1`}
+                        />
+                    </label>
+                    {priceFields.map(field => (
+                        <label key={field.key} className="text-sm text-gray-400">
+                            {t(field.label)}
+                            <input
+                                type="number"
+                                min={0}
+                                step="any"
+                                value={prices[field.key]}
+                                onChange={(e) => updatePrices({ ...prices, [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+                                className={`${inputClassName} mt-1`}
+                            />
+                        </label>
+                    ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                    {t('usage.pricesNote')}{' '}
+                    <button onClick={() => updatePrices(defaultUnitPrices)} className="text-cyan-400 hover:text-cyan-300 hover:underline focus:outline-none">
+                        {t('usage.restorePrices')}
+                    </button>
+                </p>
+            </div>
+        </section>
+    );
+};
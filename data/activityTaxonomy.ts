@@ -0,0 +1,82 @@
+// Construction activities offered by the search autocomplete, grouped by budget chapter. Picking
+// one searches its `name`, so the same activity always reaches the cache under the same query.
+
+export type ActivityChapter = 'preliminares' | 'cimentacion' | 'estructura' | 'mamposteria' | 'instalaciones' | 'acabados';
+
+export interface TaxonomyActivity {
+    name: string;
+    chapter: ActivityChapter;
+    // Other names used on site; they match as well as the name does.
+    synonyms?: string[];
+}
+
+export const activityChapters: Record<ActivityChapter, string> = {
+    preliminares: 'Preliminares',
+    cimentacion: 'Cimentación',
+    estructura: 'Estructura',
+    mamposteria: 'Mampostería',
+    instalaciones: 'Instalaciones',
+    acabados: 'Acabados',
+};
+
+export const activityTaxonomy: TaxonomyActivity[] = [
+    { name: 'Localización y replanteo', chapter: 'preliminares', synonyms: ['trazado y nivelación', 'replanteo topográfico'] },
+    { name: 'Descapote y limpieza del terreno', chapter: 'preliminares', synonyms: ['desmonte', 'limpieza del lote'] },
+    { name: 'Cerramiento provisional de obra', chapter: 'preliminares', synonyms: ['cerramiento en polisombra', 'valla de obra'] },
+    { name: 'Campamento de obra', chapter: 'preliminares', synonyms: ['almacén y oficina de obra'] },
+    { name: 'Demolición de estructuras existentes', chapter: 'preliminares', synonyms: ['demoliciones'] },
+    { name: 'Excavación mecánica a cielo abierto', chapter: 'preliminares', synonyms: ['movimiento de tierras', 'excavación con retroexcavadora'] },
+    { name: 'Retiro de escombros y sobrantes', chapter: 'preliminares', synonyms: ['disposición de escombros', 'RCD'] },
+
+    { name: 'Excavación manual para cimentaciones', chapter: 'cimentacion', synonyms: ['excavación de zanjas'] },
+    { name: 'Solado de limpieza', chapter: 'cimentacion', synonyms: ['concreto pobre', 'concreto de limpieza'] },
+    { name: 'Zapatas aisladas en concreto reforzado', chapter: 'cimentacion', synonyms: ['zapatas', 'dados de cimentación'] },
+    { name: 'Vigas de cimentación en concreto reforzado', chapter: 'cimentacion', synonyms: ['vigas de amarre', 'riostras de cimentación'] },
+    { name: 'Losa de cimentación', chapter: 'cimentacion', synonyms: ['placa de cimentación', 'platea'] },
+    { name: 'Pilotes preexcavados en concreto', chapter: 'cimentacion', synonyms: ['pilotaje', 'pilas'] },
+    { name: 'Caissons excavados a mano', chapter: 'cimentacion', synonyms: ['caisson', 'pilas excavadas a mano'] },
+    { name: 'Muro de contención en concreto reforzado', chapter: 'cimentacion', synonyms: ['muro de contención'] },
+    { name: 'Relleno y compactación con material seleccionado', chapter: 'cimentacion', synonyms: ['relleno compactado', 'base granular'] },
+    { name: 'Impermeabilización de cimentaciones', chapter: 'cimentacion', synonyms: ['impermeabilización de sótanos'] },
+
+    { name: 'Columnas en concreto reforzado', chapter: 'estructura', synonyms: ['columnas'] },
+    { name: 'Vigas aéreas en concreto reforzado', chapter: 'estructura', synonyms: ['vigas de entrepiso', 'vigas'] },
+    { name: 'Losa maciza en concreto reforzado', chapter: 'estructura', synonyms: ['placa maciza'] },
+    { name: 'Losa aligerada de entrepiso', chapter: 'estructura', synonyms: ['placa aligerada', 'entrepiso'] },
+    { name: 'Placa en steel deck', chapter: 'estructura', synonyms: ['placa colaborante', 'lámina colaborante'] },
+    { name: 'Muros estructurales en concreto', chapter: 'estructura', synonyms: ['muros de carga en concreto', 'pantallas'] },
+    { name: 'Escaleras en concreto reforzado', chapter: 'estructura', synonyms: ['escaleras'] },
+    { name: 'Estructura metálica', chapter: 'estructura', synonyms: ['perfiles de acero', 'cerchas metálicas'] },
+    { name: 'Figurado y armado de acero de refuerzo', chapter: 'estructura', synonyms: ['armado de hierro', 'acero de refuerzo'] },
+    { name: 'Encofrado y desencofrado', chapter: 'estructura', synonyms: ['formaleta', 'cimbra'] },
+    { name: 'Vaciado y curado de concreto', chapter: 'estructura', synonyms: ['fundida de concreto', 'curado del concreto'] },
+
+    { name: 'Muro en bloque de concreto', chapter: 'mamposteria', synonyms: ['bloque de cemento'] },
+    { name: 'Muro en ladrillo tolete', chapter: 'mamposteria', synonyms: ['ladrillo macizo', 'ladrillo a la vista'] },
+    { name: 'Muro en ladrillo farol', chapter: 'mamposteria', synonyms: ['bloque de arcilla', 'ladrillo hueco'] },
+    { name: 'Mampostería estructural', chapter: 'mamposteria', synonyms: ['mampostería reforzada'] },
+    { name: 'Mampostería confinada', chapter: 'mamposteria', synonyms: ['muros confinados'] },
+    { name: 'Columnetas y vigas de amarre en mampostería', chapter: 'mamposteria', synonyms: ['columnetas', 'dinteles'] },
+    { name: 'Muros divisorios en drywall', chapter: 'mamposteria', synonyms: ['panel de yeso', 'superboard', 'tabiquería liviana'] },
+
+    { name: 'Red hidráulica en PVC', chapter: 'instalaciones', synonyms: ['agua potable', 'tubería de presión'] },
+    { name: 'Red sanitaria', chapter: 'instalaciones', synonyms: ['desagües', 'aguas residuales'] },
+    { name: 'Red de aguas lluvias', chapter: 'instalaciones', synonyms: ['bajantes', 'canales de aguas lluvias'] },
+    { name: 'Tanque de almacenamiento de agua', chapter: 'instalaciones', synonyms: ['tanque elevado', 'tanque subterráneo'] },
+    { name: 'Red eléctrica interna', chapter: 'instalaciones', synonyms: ['instalaciones eléctricas', 'cableado eléctrico', 'RETIE'] },
+    { name: 'Acometida eléctrica', chapter: 'instalaciones', synonyms: ['acometida'] },
+    { name: 'Sistema de puesta a tierra', chapter: 'instalaciones', synonyms: ['puesta a tierra', 'pararrayos'] },
+    { name: 'Red de gas natural', chapter: 'instalaciones', synonyms: ['instalación de gas'] },
+    { name: 'Red contra incendio', chapter: 'instalaciones', synonyms: ['rociadores', 'gabinetes contra incendio'] },
+
+    { name: 'Pañete en muros', chapter: 'acabados', synonyms: ['revoque', 'repello', 'pañete'] },
+    { name: 'Estuco y pintura de muros', chapter: 'acabados', synonyms: ['pintura', 'estuco'] },
+    { name: 'Alistado de pisos', chapter: 'acabados', synonyms: ['afinado de piso', 'mortero de nivelación'] },
+    { name: 'Enchape de pisos y muros', chapter: 'acabados', synonyms: ['cerámica', 'porcelanato', 'baldosa'] },
+    { name: 'Piso en concreto endurecido', chapter: 'acabados', synonyms: ['piso industrial', 'concreto pulido'] },
+    { name: 'Cielo raso en drywall', chapter: 'acabados', synonyms: ['cielo falso'] },
+    { name: 'Cubierta en teja', chapter: 'acabados', synonyms: ['techo', 'teja de fibrocemento', 'teja termoacústica'] },
+    { name: 'Impermeabilización de cubiertas', chapter: 'acabados', synonyms: ['manto asfáltico', 'impermeabilización de terrazas'] },
+    { name: 'Instalación de ventanas en aluminio', chapter: 'acabados', synonyms: ['ventanería', 'carpintería de aluminio'] },
+    { name: 'Instalación de aparatos sanitarios', chapter: 'acabados', synonyms: ['sanitarios', 'lavamanos'] },
+];
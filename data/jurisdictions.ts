@@ -0,0 +1,92 @@
+// "Perfiles normativos": the country whose codes a guide is written against. A profile drives the
+// prompt, which citations are recognised, the cache key and the export headers. Citation patterns
+// live in utils/citations.ts, keyed by the families listed here.
+
+export type JurisdictionId = 'co' | 'pe' | 'ec' | 'pa';
+
+export interface JurisdictionCode {
+    // Citation family, as recognised by utils/citations.ts.
+    family: string;
+    // How the prompt names the code.
+    name: string;
+}
+
+export interface JurisdictionProfile {
+    id: JurisdictionId;
+    country: string;
+    // "normativa colombiana de construcción", for prompts and export headers.
+    regulation: string;
+    // Reference codes, in the order of the "Normas citadas" index.
+    codes: JurisdictionCode[];
+    // How the model must write a citation, with an example, e.g. "(NSR-10, Título C.5.2)".
+    citationFormat: string;
+    citationExample: string;
+    units: string;
+}
+
+export const DEFAULT_JURISDICTION: JurisdictionId = 'co';
+
+export const jurisdictions: Record<JurisdictionId, JurisdictionProfile> = {
+    co: {
+        id: 'co',
+        country: 'Colombia',
+        regulation: 'normativa colombiana de construcción',
+        codes: [
+            { family: 'NSR-10', name: 'NSR-10' },
+            { family: 'NTC', name: 'Normas Técnicas Colombianas (NTC) y normas ICONTEC' },
+            { family: 'RAS', name: 'Reglamento Técnico del Sector de Agua Potable y Saneamiento Básico (RAS)' },
+            { family: 'RETIE', name: 'Reglamento Técnico de Instalaciones Eléctricas (RETIE)' },
+            { family: 'RETILAP', name: 'Reglamento Técnico de Iluminación y Alumbrado Público (RETILAP)' },
+            { family: 'RITEL', name: 'Reglamento Técnico para Redes Internas de Telecomunicaciones (RITEL)' },
+        ],
+        citationFormat: 'la sigla de la norma seguida del título, capítulo, sección o artículo',
+        citationExample: '(NSR-10, Título C.5.2)',
+        units: 'Sistema Internacional: resistencias en MPa, dosificaciones en kg/m³ y dimensiones en m, cm o mm.',
+    },
+    pe: {
+        id: 'pe',
+        country: 'Perú',
+        regulation: 'normativa peruana de construcción',
+        codes: [
+            { family: 'RNE', name: 'Reglamento Nacional de Edificaciones (RNE), con sus normas técnicas E.030, E.050, E.060, E.070, IS.010, EM.010 y demás' },
+            { family: 'NTP', name: 'Normas Técnicas Peruanas (NTP) de INACAL' },
+            { family: 'CNE', name: 'Código Nacional de Electricidad - Utilización (CNE)' },
+        ],
+        citationFormat: 'la norma del RNE con su número y el artículo o numeral',
+        citationExample: '(RNE, Norma E.060, Artículo 5.3)',
+        units: "Sistema Internacional, con la resistencia del concreto en kg/cm² como se usa en obra (f'c = 210 kg/cm²) y su equivalente en MPa.",
+    },
+    ec: {
+        id: 'ec',
+        country: 'Ecuador',
+        regulation: 'normativa ecuatoriana de construcción',
+        codes: [
+            { family: 'NEC', name: 'Norma Ecuatoriana de la Construcción (NEC-15), con sus capítulos NEC-SE-HM, NEC-SE-DS, NEC-SE-MP, NEC-SE-CM, NEC-HS y demás' },
+            { family: 'INEN', name: 'Normas Técnicas Ecuatorianas del INEN (NTE INEN)' },
+        ],
+        citationFormat: 'el capítulo de la NEC con su código y la sección',
+        citationExample: '(NEC-SE-HM, Sección 3.3.1)',
+        units: 'Sistema Internacional: resistencias en MPa, dosificaciones en kg/m³ y dimensiones en m, cm o mm. Use "hormigón" como en la NEC.',
+    },
+    pa: {
+        id: 'pa',
+        country: 'Panamá',
+        regulation: 'normativa panameña de construcción',
+        codes: [
+            { family: 'REP-2014', name: 'Reglamento Estructural Panameño (REP-2014)' },
+            { family: 'ACI 318', name: 'ACI 318, adoptado por el REP para concreto estructural' },
+            { family: 'RIE', name: 'Reglamento para Instalaciones Eléctricas (RIE) de la Junta Técnica de Ingeniería y Arquitectura' },
+            { family: 'COPANIT', name: 'Reglamentos técnicos DGNTI-COPANIT' },
+        ],
+        citationFormat: 'la sigla del reglamento seguida del capítulo o sección',
+        citationExample: '(REP-2014, Capítulo 5.3)',
+        units: 'Sistema Internacional con la resistencia del concreto también en psi, como se especifica en obra (3000 psi ≈ 21 MPa).',
+    },
+};
+
+export const isJurisdictionId = (value: unknown): value is JurisdictionId =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(jurisdictions, value);
+
+// Profile of a stored guide. Guides from before profiles existed, or with an unknown id, are Colombian.
+export const jurisdictionOf = (result: { jurisdiction?: JurisdictionId }): JurisdictionProfile =>
+    jurisdictions[isJurisdictionId(result.jurisdiction) ? result.jurisdiction : DEFAULT_JURISDICTION];
@@ -0,0 +1,217 @@
+import type { NormFamily } from '../utils/citations';
+
+// Bump when entries are added or corrected, so reviewed guides can state which catalog checked them.
+export const NORMS_CATALOG_VERSION = '2025.2';
+
+export interface NormFamilyCatalog {
+    family: NormFamily;
+    name: string;
+    edition: string;
+    // Known titles, chapters, sections or norm numbers, keyed by the citation section ("C.5", "673", "15").
+    entries: Record<string, string>;
+    // True when a cited section can be proven not to exist in the norm (e.g. chapter C.24 of NSR-10).
+    isImpossible: (section: string) => boolean;
+}
+
+// Highest chapter of each NSR-10 title. Titles left out (D, E, G, H, K) are listed only
+// partially below, so a chapter missing from `entries` is not evidence of an invented one.
+const nsrChapterCount: Record<string, number> = { A: 13, B: 6, C: 23, F: 5, I: 4, J: 4 };
+
+const nsr10: NormFamilyCatalog = {
+    family: 'NSR-10',
+    name: 'Reglamento Colombiano de Construcción Sismo Resistente',
+    edition: 'NSR-10 (Decreto 926 de 2010 y modificaciones)',
+    entries: {
+        A: 'Requisitos generales de diseño y construcción sismo resistente',
+        'A.1': 'Introducción',
+        'A.2': 'Zonas de amenaza sísmica y movimientos sísmicos de diseño',
+        'A.3': 'Requisitos generales de diseño sismo resistente',
+        'A.4': 'Método de la fuerza horizontal equivalente',
+        'A.5': 'Método del análisis dinámico',
+        'A.6': 'Requisitos de la deriva',
+        'A.7': 'Interacción suelo-estructura',
+        'A.8': 'Efectos sísmicos en componentes estructurales que no pertenecen al sistema de resistencia sísmica',
+        'A.9': 'Elementos no estructurales',
+        'A.10': 'Evaluación e intervención de edificaciones construidas antes de la vigencia de la presente versión del reglamento',
+        'A.11': 'Instrumentación sísmica',
+        'A.12': 'Requisitos especiales para edificaciones indispensables de los grupos de uso III y IV',
+        'A.13': 'Definiciones y nomenclatura del Título A',
+        B: 'Cargas',
+        'B.1': 'Requisitos generales',
+        'B.2': 'Combinaciones de carga',
+        'B.3': 'Cargas muertas',
+        'B.4': 'Cargas vivas',
+        'B.5': 'Empuje de tierra y presión hidrostática',
+        'B.6': 'Fuerzas de viento',
+        C: 'Concreto estructural',
+        'C.1': 'Requisitos generales',
+        'C.2': 'Notación y definiciones',
+        'C.3': 'Materiales',
+        'C.4': 'Requisitos de durabilidad',
+        'C.5': 'Calidad del concreto, mezclado y colocación',
+        'C.6': 'Cimbras y encofrados, embebidos y juntas de construcción',
+        'C.7': 'Detalles del refuerzo',
+        'C.8': 'Análisis y diseño — consideraciones generales',
+        'C.9': 'Requisitos de resistencia y de funcionamiento',
+        'C.10': 'Flexión y cargas axiales',
+        'C.11': 'Cortante y torsión',
+        'C.12': 'Longitudes de desarrollo y empalmes del refuerzo',
+        'C.13': 'Sistemas de losa en dos direcciones',
+        'C.14': 'Muros',
+        'C.15': 'Cimentaciones',
+        'C.16': 'Concreto prefabricado',
+        'C.17': 'Elementos compuestos de concreto sometidos a flexión',
+        'C.18': 'Concreto preesforzado',
+        'C.19': 'Cáscaras y losas plegadas',
+        'C.20': 'Evaluación de la resistencia de estructuras existentes',
+        'C.21': 'Requisitos de diseño sismo resistente',
+        'C.22': 'Concreto estructural simple',
+        'C.23': 'Tanques y estructuras de ingeniería ambiental de concreto',
+        D: 'Mampostería estructural',
+        'D.1': 'Requisitos generales',
+        'D.2': 'Calidad de los materiales en la mampostería estructural',
+        'D.3': 'Requisitos constructivos para mampostería estructural',
+        'D.4': 'Requisitos de refuerzo, detalles y anclajes',
+        'D.5': 'Requisitos generales de análisis y diseño',
+        'D.10': 'Mampostería de muros confinados',
+        E: 'Casas de uno y dos pisos',
+        F: 'Estructuras metálicas',
+        'F.1': 'Requisitos generales',
+        'F.2': 'Estructuras de acero con perfiles laminados, armados y tubulares estructurales',
+        'F.3': 'Provisiones sísmicas para estructuras de acero',
+        'F.4': 'Estructuras de acero con perfiles de lámina formada en frío',
+        'F.5': 'Estructuras de aluminio',
+        G: 'Estructuras de madera y estructuras de guadua',
+        'G.12': 'Estructuras de guadua',
+        H: 'Estudios geotécnicos',
+        'H.1': 'Introducción',
+        'H.2': 'Definiciones',
+        'H.3': 'Caracterización geotécnica del subsuelo',
+        'H.4': 'Cimentaciones',
+        'H.5': 'Excavaciones y estabilidad de taludes',
+        'H.6': 'Estructuras de contención',
+        'H.7': 'Evaluación geotécnica de efectos sísmicos',
+        'H.8': 'Sistema constructivo de cimentaciones, excavaciones y muros de contención',
+        I: 'Supervisión técnica',
+        'I.1': 'Generalidades',
+        'I.2': 'Alcance de la supervisión técnica',
+        'I.3': 'Idoneidad del supervisor técnico y su personal auxiliar',
+        'I.4': 'Recomendaciones para ejercer la supervisión técnica',
+        J: 'Requisitos de protección contra incendios en edificaciones',
+        'J.1': 'Generalidades',
+        'J.2': 'Requisitos generales',
+        'J.3': 'Requisitos de resistencia contra fuego',
+        'J.4': 'Detección y extinción de incendios',
+        K: 'Requisitos complementarios',
+        'K.1': 'Generalidades',
+        'K.2': 'Clasificación de las edificaciones por grupos de ocupación',
+        'K.3': 'Requisitos generales de diseño de edificaciones',
+    },
+    isImpossible: (section) => {
+        const [title, chapter] = section.split('.');
+        if (!/^[A-K]$/.test(title)) return true;
+        const chapterCount = nsrChapterCount[title];
+        return chapter !== undefined && chapterCount !== undefined && parseInt(chapter, 10) > chapterCount;
+    },
+};
+
+const ntc: NormFamilyCatalog = {
+    family: 'NTC',
+    name: 'Normas Técnicas Colombianas (ICONTEC)',
+    edition: 'Catálogo ICONTEC, selección para construcción',
+    entries: {
+        '77': 'Método de ensayo para el análisis por tamizado de los agregados finos y gruesos',
+        '92': 'Determinación de la masa unitaria y los vacíos entre partículas de agregados',
+        '121': 'Cemento Portland. Especificaciones físicas y mecánicas',
+        '174': 'Concretos. Especificaciones de los agregados para concreto',
+        '176': 'Método de ensayo para determinar la densidad y la absorción del agregado grueso',
+        '237': 'Método para determinar la densidad y la absorción del agregado fino',
+        '396': 'Método de ensayo para determinar el asentamiento del concreto',
+        '454': 'Concreto fresco. Toma de muestras',
+        '550': 'Elaboración y curado de especímenes de concreto en obra',
+        '673': 'Ensayo de resistencia a la compresión de especímenes cilíndricos de concreto',
+        '722': 'Ensayo de tracción indirecta de especímenes cilíndricos de concreto',
+        '1299': 'Aditivos químicos para concreto',
+        '1377': 'Elaboración y curado de especímenes de concreto para ensayos de laboratorio',
+        '1500': 'Código colombiano de fontanería',
+        '1667': 'Método para ensayo de compactación en laboratorio de suelos utilizando energía modificada',
+        '1776': 'Método de ensayo para determinar por secado el contenido total de humedad de los agregados',
+        '2017': 'Adoquines de concreto para pavimentos',
+        '2050': 'Código eléctrico colombiano',
+        '2240': 'Agregados usados en morteros de mampostería',
+        '2289': 'Barras y rollos corrugados de acero de baja aleación, para refuerzo de concreto',
+        '2871': 'Método de ensayo para determinar la resistencia del concreto a la flexión',
+        '3318': 'Producción de concreto',
+        '3329': 'Especificaciones del mortero para unidades de mampostería',
+        '3459': 'Agua para la elaboración de concreto',
+        '4017': 'Métodos para muestreo y ensayos de unidades de mampostería y otros productos de arcilla',
+        '4024': 'Muestreo y ensayo de prefabricados de concreto no reforzados, vibrocompactados',
+        '4026': 'Unidades (bloques y ladrillos) de concreto para mampostería estructural',
+        '4205': 'Unidades de mampostería de arcilla cocida. Ladrillos y bloques cerámicos',
+        '4595': 'Planeamiento y diseño de instalaciones y ambientes escolares',
+        'ISO 9001': 'Sistemas de gestión de la calidad. Requisitos',
+        'ISO 14001': 'Sistemas de gestión ambiental. Requisitos con orientación para su uso',
+        'ISO 45001': 'Sistemas de gestión de la seguridad y salud en el trabajo. Requisitos',
+        'ISO/IEC 17025': 'Requisitos generales para la competencia de los laboratorios de ensayo y calibración',
+    },
+    // ICONTEC has not issued numbers anywhere near this range; ISO adoptions keep the ISO number.
+    isImpossible: (section) => !section.startsWith('ISO') && parseInt(section, 10) > 7500,
+};
+
+const ras: NormFamilyCatalog = {
+    family: 'RAS',
+    name: 'Reglamento Técnico del Sector de Agua Potable y Saneamiento Básico',
+    edition: 'Resolución 0330 de 2017 y títulos del RAS 2000',
+    entries: {
+        A: 'Aspectos generales de los sistemas de agua potable y saneamiento básico',
+        B: 'Sistemas de acueducto',
+        C: 'Sistemas de potabilización',
+        D: 'Sistemas de recolección y evacuación de aguas residuales domésticas y pluviales',
+        E: 'Tratamiento de aguas residuales',
+        F: 'Sistemas de aseo urbano',
+        G: 'Aspectos complementarios',
+        J: 'Alternativas tecnológicas en agua y saneamiento para el sector rural',
+    },
+    isImpossible: (section) => /^[A-Z]/.test(section) && !/^[A-J]/.test(section),
+};
+
+const retie: NormFamilyCatalog = {
+    family: 'RETIE',
+    name: 'Reglamento Técnico de Instalaciones Eléctricas',
+    edition: 'Resolución 90708 de 2013 y modificaciones',
+    entries: {
+        '1': 'Objeto',
+        '2': 'Campo de aplicación',
+        '3': 'Definiciones',
+        '13': 'Distancias de seguridad',
+        '15': 'Sistema de puesta a tierra',
+        '20': 'Requisitos de productos',
+    },
+    isImpossible: (section) => parseInt(section, 10) > 60,
+};
+
+const retilap: NormFamilyCatalog = {
+    family: 'RETILAP',
+    name: 'Reglamento Técnico de Iluminación y Alumbrado Público',
+    edition: 'Resolución 180540 de 2010 y modificaciones',
+    entries: {},
+    isImpossible: () => false,
+};
+
+const ritel: NormFamilyCatalog = {
+    family: 'RITEL',
+    name: 'Reglamento Técnico para Redes Internas de Telecomunicaciones',
+    edition: 'Resolución CRC 5405 de 2018 y modificaciones',
+    entries: {},
+    isImpossible: () => false,
+};
+
+// Colombian codes only so far.
+export const normsCatalog: Partial<Record<NormFamily, NormFamilyCatalog>> = {
+    'NSR-10': nsr10,
+    NTC: ntc,
+    RAS: ras,
+    RETIE: retie,
+    RETILAP: retilap,
+    RITEL: ritel,
+};
@@ -0,0 +1,135 @@
+import type { Locale, MessageKey } from '../i18n';
+
+// Built-in prompt templates. "{{name}}" placeholders are filled in by utils/promptTemplate.ts;
+// the "Plantillas" tab saves edited copies as new versions (services/promptTemplateStore.ts).
+
+export type PromptTemplateId = 'guide' | 'image';
+
+export interface PromptTemplate {
+    id: PromptTemplateId;
+    name: string;
+    // Part of the cache key, so results of an older version are not served again. Never reused.
+    version: number;
+    body: string;
+    // Optional sections the guide asks for, after the core ones. Unused by the image template.
+    extraSections: ExtraSectionId[];
+    // When it was saved from the "Plantillas" tab; null for the built-in version.
+    updatedAt: number | null;
+}
+
+// Which template (and version) produced a cached result.
+export interface PromptTemplateRef {
+    id: PromptTemplateId;
+    version: number;
+}
+
+export const isPromptTemplateRef = (value: unknown): value is PromptTemplateRef => {
+    const ref = value as Partial<PromptTemplateRef> | null;
+    return typeof ref === 'object' && ref !== null && (ref.id === 'guide' || ref.id === 'image') && typeof ref.version === 'number';
+};
+
+export interface PromptVariable {
+    name: string;
+    // Shown in the "Plantillas" tab.
+    description: MessageKey;
+}
+
+export type CoreSectionId = 'description' | 'steps' | 'materials' | 'norms';
+export type ExtraSectionId = 'safety' | 'equipment' | 'mistakes';
+export type GuideSectionId = CoreSectionId | ExtraSectionId;
+
+export interface GuideSection<Id extends string> {
+    id: Id;
+    // Heading the model must use, per guide language.
+    titles: Record<Locale, string>;
+    instruction: string;
+}
+
+export const coreSections: Record<CoreSectionId, GuideSection<CoreSectionId>> = {
+    description: {
+        id: 'description',
+        titles: { es: 'Descripción del Proceso', en: 'Process Description' },
+        instruction: 'Una explicación clara y concisa de la actividad.',
+    },
+    steps: {
+        id: 'steps',
+        titles: { es: 'Pasos Clave para el Éxito', en: 'Key Steps to Success' },
+        instruction: 'Una lista numerada de los pasos más importantes a seguir, en orden cronológico.',
+    },
+    materials: {
+        id: 'materials',
+        titles: { es: 'Parámetros y Materiales', en: 'Parameters and Materials' },
+        instruction: 'Información puntual, exacta y precisa sobre materiales, dosificaciones y control de calidad.',
+    },
+    norms: {
+        id: 'norms',
+        titles: { es: 'Normatividad Aplicable', en: 'Applicable Regulations' },
+        instruction: 'Un apartado específico y claro bajo este título exacto. Aquí debes resumir las normas clave que aplican al proceso descrito, explicando brevemente su incumbencia.',
+    },
+};
+
+// Headings chosen so the markdown fallback of services/processGuide.ts never mistakes them for a core section.
+export const extraSections: Record<ExtraSectionId, GuideSection<ExtraSectionId>> = {
+    safety: {
+        id: 'safety',
+        titles: { es: 'Seguridad y Salud en el Trabajo', en: 'Occupational Health and Safety' },
+        instruction: 'Los riesgos de la actividad, los elementos de protección personal y las medidas de control, citando la norma de seguridad que aplique.',
+    },
+    equipment: {
+        id: 'equipment',
+        titles: { es: 'Equipos y Herramientas', en: 'Equipment and Tools' },
+        instruction: 'Los equipos y herramientas necesarios, con su capacidad o especificación, en el orden en que se usan.',
+    },
+    mistakes: {
+        id: 'mistakes',
+        titles: { es: 'Errores Comunes', en: 'Common Mistakes' },
+        instruction: 'Los errores más frecuentes en obra, sus consecuencias y cómo evitarlos.',
+    },
+};
+
+export const templateVariables: Record<PromptTemplateId, PromptVariable[]> = {
+    guide: [
+        { name: 'query', description: 'templates.variable.query' },
+        { name: 'country', description: 'templates.variable.country' },
+        { name: 'regulation', description: 'templates.variable.regulation' },
+        { name: 'codes', description: 'templates.variable.codes' },
+        { name: 'citationFormat', description: 'templates.variable.citationFormat' },
+        { name: 'citationExample', description: 'templates.variable.citationExample' },
+        { name: 'units', description: 'templates.variable.units' },
+        { name: 'language', description: 'templates.variable.language' },
+        { name: 'languageNote', description: 'templates.variable.languageNote' },
+        { name: 'sections', description: 'templates.variable.sections' },
+        { name: 'normsTitle', description: 'templates.variable.normsTitle' },
+    ],
+    image: [
+        { name: 'query', description: 'templates.variable.query' },
+        { name: 'style', description: 'templates.variable.style' },
+        { name: 'detail', description: 'templates.variable.detail' },
+    ],
+};
+
+const guideBody = `Eres un asistente experto en ingeniería civil y arquitectura especializado en la {{regulation}} ({{country}}).
+
+Para la siguiente actividad de construcción: "{{query}}"
+
+Genera una respuesta detallada y técnica en {{language}} con la siguiente estructura:
+
+{{sections}}
+
+**REQUISITOS INDISPENSABLES:**
+*   **Citas Inline:** Toda la información en los puntos 1, 2 y 3 debe estar rigurosamente soportada y citar explícitamente las normas de {{country}} cuando apliquen. Para cada paso, parámetro, material o dosificación, debes indicar de forma explícita y junto a la descripción, cuál norma específica (y si es posible, qué artículo o sección) lo respalda, citándola entre paréntesis con {{citationFormat}}. Por ejemplo: "El concreto debe tener una resistencia de 21 MPa {{citationExample}}". La conexión entre la información y la norma debe ser directa e inequívoca.
+*   **Condicional de Normatividad:** Si después de tu análisis, ninguna de las normativas de la lista aplica directamente al proceso consultado, DEBES OMITIR POR COMPLETO la sección "{{normsTitle}}". No escribas "No aplica" ni nada similar; simplemente no incluyas el título ni la sección.
+*   **Unidades:** {{units}}
+*   **Idioma:** {{languageNote}}
+*   **Formato Markdown:** Utiliza formato Markdown para la respuesta. Usa encabezados de nivel 1 (#) y 2 (##) únicamente. No uses encabezados de nivel 3 (###) o inferiores.
+
+**Lista de normativas de referencia obligatoria:**
+{{codes}}`;
+
+const imageBody = `Un dibujo técnico profesional y detallado, estilo diagrama de un manual de construcción. La ilustración debe ilustrar claramente el proceso de: "{{query}}". {{style}} Usar una paleta de colores limpia que diferencie materiales y etapas constructivas. Todas las etiquetas y anotaciones deben estar en ESPAÑOL. La imagen debe ser clara, precisa y de alta calidad.{{detail}}`;
+
+// Versions continue the numbering of the prompts from before templates existed.
+export const defaultPromptTemplates: Record<PromptTemplateId, PromptTemplate> = {
+    guide: { id: 'guide', name: 'Guía de proceso constructivo', version: 3, body: guideBody, extraSections: [], updatedAt: null },
+    image: { id: 'image', name: 'Ilustración', version: 2, body: imageBody, extraSections: [], updatedAt: null },
+};
@@ -0,0 +1,427 @@
+import type { Messages } from './es';
+
+export const en: Messages = {
+    // Header and navigation
+    'app.title': 'CONSTRUCTION PROCESS GUIDE',
+    'app.subtitle': 'Look up a construction process and get a technical summary based on the construction codes of {country}.',
+    'app.jurisdiction': 'Code profile',
+    'app.jurisdictionHint': 'Country whose codes new searches follow',
+    'app.language': 'Language',
+    'app.guideInUiLanguage': 'Write guides in this language',
+    'app.guideInUiLanguageHint': 'Code names and citations are kept in their original form.',
+    'app.tab.search': 'Look up a process',
+    'app.tab.compare': 'Compare two processes',
+    'app.tab.projects': 'Projects',
+    'app.tab.usage': 'Usage',
+    'app.tab.templates': 'Templates',
+    'app.footer': 'Built with AI. The information must be checked by a qualified professional.',
+
+    // Search page
+    'history.recent': 'Recent searches:',
+    'history.showAll': 'Show history',
+    'history.open': 'History',
+    'search.placeholder': 'E.g. Reinforced concrete retaining wall...',
+    'search.submit': 'Search',
+    'search.searching': 'Searching...',
+    'search.cancel': 'Cancel',
+    'search.cancelHint': 'Stop the search in progress',
+    'search.emptyTitle': 'Enter a construction activity to get started.',
+    'search.emptyExample': 'E.g. "Instalación de una viga de cimentación" (installing a grade beam)',
+    'search.cancelled': 'Search cancelled: the result is incomplete and was not cached.',
+    'search.discard': 'Discard',
+    'search.retry': 'Retry',
+    'search.fromCache': 'Cached result',
+    'search.regenerate': 'Regenerate',
+    'search.regenerateHint': 'Discard the cached result and ask again',
+    'search.otherProfile': 'This guide follows the codes of {country}; new searches will use those of {selected}.',
+    'search.searchWithProfile': 'Search with this profile',
+    'search.searchWithProfileHint': 'Search the same process with the selected profile; it may call the AI',
+    'search.print': 'Print Summary (PDF)',
+    'search.errorTitle': 'Could not get the information',
+    'shared.banner': 'Guide shared on {date}. It is shown as it was shared, read-only and without calling the AI.',
+    'shared.close': 'Close',
+    'shared.openAsSearch': 'Open as a search',
+    'shared.openAsSearchHint': 'Search the same process in this app; it may call the AI',
+    'loader.title': 'Processing your request...',
+    'loader.detail': 'Checking the codes and generating the illustration. This may take a moment.',
+
+    // Result
+    'result.title': 'Construction Process:',
+    'result.incomplete': 'Incomplete',
+    'result.exportTxtHint': 'Download the summary as a text file (.txt)',
+    'result.exportDocxHint': 'Download the summary as a Word document (.docx)',
+    'result.addenda': 'Addenda',
+    'result.removeAddendum': 'Remove',
+    'result.removeAddendumHint': 'Remove the addendum from the guide',
+    'result.illustration': 'Illustration',
+    'result.illustrationAlt': 'Illustration of {query}',
+    'result.generatingIllustration': 'Generating illustration...',
+    'result.downloadIllustration': 'Download Illustration (PDF)',
+    'result.sources': 'Sources',
+
+    // Quality gate
+    'quality.title': 'Quality check',
+    'quality.score': '{score}/100',
+    'quality.passed': 'Passed',
+    'quality.failed': 'Failed',
+    'quality.citedSteps': 'Steps citing a norm: {cited} of {total}',
+    'quality.repairedFrom': 'Repaired; was {score}/100',
+    'quality.issue.missing-section': 'The "{section}" section is missing.',
+    'quality.issue.deep-heading': '"{section}" uses {count} level 3 or deeper headings.',
+    'quality.issue.uncited-steps': 'Only {count} of {total} steps cite a norm (at least {min}% required).',
+    'quality.issue.not-applicable-norms': 'The "{section}" section says nothing applies instead of being left out.',
+    'quality.issue.truncated': 'The "{section}" section looks cut short.',
+    'quality.outsideSections': 'the text before the sections',
+    'quality.repair': 'Repair',
+    'quality.repairHint': 'Ask the model to fix only the sections with problems',
+    'quality.repairing': 'Repairing the sections with problems...',
+    'quality.autoRepair': 'Repair automatically',
+    'quality.autoRepairHint': 'When a search fails the check, a fix of the sections with problems is requested as soon as it finishes.',
+    'quality.noImprovement': 'The repair did not improve the guide; the original is kept.',
+    'quality.repairFailed': 'The guide could not be repaired: {message}',
+
+    // Citations
+    'citations.title': 'Cited standards',
+    'citations.summary': '{verified} verified, {unknown} unverified and {hallucinated} probably nonexistent.',
+    'citations.hallucinatedWarning': 'Some citations do not match any existing title, chapter or article. Review the guide before approving it.',
+    'citations.status.verified': 'Verified',
+    'citations.status.unknown': 'Unverified',
+    'citations.status.hallucinated': 'Probably nonexistent',
+    'citations.seeWhere': 'See where {id} is cited.',
+    'citations.location': '{section}, step {step}',
+    'citations.heading': 'Heading',
+    'citations.catalogVersion': 'Checked against the standards catalog v{version}.',
+    'citations.notInCatalog': 'These standards are not in the verification catalog: check them against the official text.',
+
+    // Quantities
+    'quantities.title': 'Quantity Take-off',
+    'quantities.intro': 'Local calculation for one kind of repeated element. The data were taken from the materials section when available; check them against the drawings and the lab mix design.',
+    'quantities.length': 'Length',
+    'quantities.width': 'Width',
+    'quantities.thickness': 'Thickness / height',
+    'quantities.unitOf': 'Unit of {label}',
+    'quantities.barSize': 'Bar',
+    'quantities.mats': 'Reinforcement mats',
+    'quantities.barSpacing': 'Bar spacing',
+    'quantities.cover': 'Cover',
+    'quantities.formworkBottom': 'Soffit formwork (suspended beams and slabs)',
+    'quantities.concreteWaste': 'Concrete waste',
+    'quantities.steelWaste': 'Steel waste',
+    'quantities.formworkWaste': 'Formwork waste',
+    'quantities.exportsNote': 'The quantities are included in the .txt, .docx and PDF exports.',
+    'quantities.reset': 'Reset',
+    'quantities.remove': 'Remove from exports',
+    'quantities.leanConcrete': 'lean concrete / blinding',
+    'quantities.row.dimensions': 'Dimensions (length × width × thickness)',
+    'quantities.row.count': 'Number of elements',
+    'quantities.row.mixDesign': 'Mix design',
+    'quantities.row.reinforcement': 'Reinforcement',
+    'quantities.row.waste': 'Waste',
+    'quantities.row.concrete': 'Concrete volume',
+    'quantities.row.cement': 'Cement',
+    'quantities.row.bars': 'Reinforcing bars',
+    'quantities.row.steel': 'Steel weight',
+    'quantities.row.formwork': 'Formwork area',
+    'quantities.value.reinforcement': 'Bar {size} ({inches}, {kgPerM} kg/m) every {spacing}, {mats} mats, cover {cover}',
+    'quantities.value.reinforcementOne': 'Bar {size} ({inches}, {kgPerM} kg/m) every {spacing}, 1 mat, cover {cover}',
+    'quantities.value.waste': 'Concrete {concrete} %, steel {steel} %, formwork {formwork} %',
+    'quantities.value.withWaste': '{value} ({withWaste} with waste)',
+    'quantities.value.cement': '{bags} bags of {bagKg} kg ({kg} kg)',
+    'quantities.value.bars': '{lengthwise} lengthwise and {crosswise} crosswise, {length} m',
+
+    // Inspection checklist
+    'checklist.title': 'Inspection Checklist',
+    'checklist.inspector': 'Inspector',
+    'checklist.inspectorPlaceholder': 'Name of the inspector',
+    'checklist.newInspection': 'New inspection',
+    'checklist.newInspectionConfirm': 'Start a new inspection? The current one stays saved.',
+    'checklist.saveFailed': 'The checklist could not be saved in this browser.',
+    'checklist.summary': 'Started on {date} · {passed} pass · {failed} fail · {na} N/A · {pending} pending',
+    'checklist.empty': 'The guide has no steps or parameters that can be inspected.',
+    'checklist.kind.step': 'Step',
+    'checklist.kind.parameter': 'Parameter',
+    'checklist.acceptanceCriteria': 'Acceptance criterion',
+    'checklist.defaultCriterion': 'Carried out as described.',
+    'checklist.observations': 'Observations',
+    'checklist.checkedAt': 'Checked on {date}',
+    'checklist.status.cumple': 'Pass',
+    'checklist.status.no-cumple': 'Fail',
+    'checklist.status.na': 'N/A',
+    'checklist.pending': 'Pending',
+    'checklist.pendingPlural': 'Pending',
+    'checklist.column.kind': 'Type',
+    'checklist.column.item': 'Item',
+    'checklist.column.citations': 'Cited standard',
+    'checklist.column.status': 'Status',
+    'checklist.column.date': 'Date',
+    'checklist.column.dateTime': 'Date and time',
+    'checklist.pdfTitle': 'Checklist: {title}',
+    'checklist.pdfHeader': 'Quality inspection — {title} — {date}',
+    'checklist.startedAtLabel': 'Inspection started',
+    'checklist.inspectorSignature': 'Inspector signature',
+    'checklist.residentSignature': 'Site resident signature',
+
+    // Follow-up questions
+    'followUp.title': 'Follow-up Questions',
+    'followUp.intro': 'Ask about this guide without losing the context, for example: "what if the soil is expansive clay?"',
+    'followUp.placeholder': 'E.g. Detail curing in cold weather',
+    'followUp.ask': 'Ask',
+    'followUp.asking': 'Asking...',
+    'followUp.cancel': 'Cancel',
+    'followUp.append': 'Add to the guide as an addendum',
+    'followUp.appended': 'Added as an addendum',
+    'followUp.failed': 'The answer could not be retrieved.',
+
+    // Illustration options
+    'illustration.options': 'Illustration options',
+    'illustration.style': 'Style',
+    'illustration.style.corte': 'Technical section',
+    'illustration.style.isometrico': 'Isometric',
+    'illustration.style.paso-a-paso': 'Step by step',
+    'illustration.style.planta': 'Plan view',
+    'illustration.aspectRatio': 'Aspect ratio',
+    'illustration.ratio.landscape': 'landscape',
+    'illustration.ratio.wide': 'widescreen',
+    'illustration.ratio.square': 'square',
+    'illustration.ratio.portrait': 'portrait',
+    'illustration.ratio.tall': 'tall portrait',
+    'illustration.variants': 'Variants',
+    'illustration.detail': 'Additional detail',
+    'illustration.detailPlaceholder': 'E.g. show the blinding and the stirrups',
+    'illustration.generating': 'Generating...',
+    'illustration.generateVariants': 'Generate {count} variants',
+    'illustration.regenerate': 'Regenerate illustration',
+    'illustration.cancel': 'Cancel',
+    'illustration.variant': 'Variant {index}',
+    'illustration.variantAlt': 'Variant {index} of {query}',
+    'illustration.preferred': 'Preferred',
+    'illustration.use': 'Use this one',
+
+    // Sharing
+    'share.share': 'Share',
+    'share.hint': 'Share the guide in a link that opens without querying the AI again',
+    'share.includeImage': 'Include the illustration (compressed)',
+    'share.copy': 'Copy link',
+    'share.download': 'Download file (.html)',
+    'share.copied': 'Link copied',
+    'share.copiedLong': 'Link copied. It is long: if the recipient gets it truncated, send the file.',
+    'share.downloaded': 'File downloaded',
+    'share.failed': 'The share link could not be created.',
+
+    // Exports
+    'exports.guideTitle': 'Construction Process Guide',
+    'exports.generatedOn': 'Generated on {date}',
+    'exports.basedOn': 'Based on the {regulation}.',
+    'exports.disclaimer': 'Developed with AI. The information must be verified by a professional.',
+    'exports.page': 'Page',
+    'exports.contents': 'Contents',
+    'exports.illustrationCaption': 'Diagram of {query}. AI-generated illustration.',
+    'exports.sources': 'Sources',
+    'exports.norm': 'Standard',
+    'exports.status': 'Status',
+    'exports.catalogReference': 'Catalog reference',
+    'exports.citedIn': 'Cited in',
+    'exports.input': 'Input',
+    'exports.value': 'Value',
+    'exports.quantity': 'Quantity',
+    'exports.result': 'Result',
+    'addenda.title': 'Addendum {number}: {question}',
+
+    // Prompt templates
+    'templates.title': 'Prompt templates',
+    'templates.name.guide': 'Construction process guide',
+    'templates.name.image': 'Illustration',
+    'templates.versionBuiltIn': 'Version {version} (built-in).',
+    'templates.versionModified': 'Version {version} (modified on {date}).',
+    'templates.versionNote': 'Saving creates a new version: cached results from earlier versions are no longer served and each result records the version that produced it.',
+    'templates.optionalSections': 'Optional sections',
+    'templates.optionalSectionsNote': 'They are requested after the core sections and before "{norms}".',
+    'templates.body': 'Text',
+    'templates.unknownVariables': 'Unknown variables, they will be sent as is: {names}',
+    'templates.variables': 'Available variables:',
+    'templates.variable.query': 'The activity searched for',
+    'templates.variable.country': 'Country of the regulatory profile',
+    'templates.variable.regulation': 'Name of the regulations, e.g. "normativa colombiana de construcción"',
+    'templates.variable.codes': 'List of the reference codes of the profile',
+    'templates.variable.citationFormat': 'How a citation is written in the profile',
+    'templates.variable.citationExample': 'Sample citation, e.g. "(NSR-10, Título C.5.2)"',
+    'templates.variable.units': 'Units used by the profile',
+    'templates.variable.language': 'Language of the guide ("español", "inglés")',
+    'templates.variable.languageNote': 'Instruction about the language and the citations',
+    'templates.variable.sections': 'Numbered list of the sections, including the active optional ones',
+    'templates.variable.normsTitle': 'Title of the regulations section in the language of the guide',
+    'templates.variable.style': 'Instruction for the chosen style (section, isometric...)',
+    'templates.variable.detail': 'Additional details written by the user, if any',
+    'templates.preview': 'Preview',
+    'templates.sampleQueryLabel': 'Sample activity',
+    'templates.sampleQuery': 'Isolated footings',
+    'templates.save': 'Save as version {version}',
+    'templates.discard': 'Discard changes',
+    'templates.discardConfirm': 'The template has unsaved changes. Discard them?',
+    'templates.restore': 'Restore built-in',
+    'templates.restoreConfirm': 'Restore the built-in template? It will be saved as a new version.',
+    'templates.saveFailed': 'The template could not be saved in this browser.',
+    'templates.restoreFailed': 'The template could not be restored.',
+
+    // Comparison
+    'comparison.leftPlaceholder': 'E.g. Reinforced concrete retaining wall',
+    'comparison.rightPlaceholder': 'E.g. Gabion wall',
+    'comparison.compare': 'Compare',
+    'comparison.cancel': 'Cancel',
+    'comparison.errorTitle': 'Comparison error',
+    'comparison.failed': 'An error occurred while comparing the processes.',
+    'comparison.exportPdf': 'Export Comparison (PDF)',
+    'comparison.description': 'Description',
+    'comparison.steps': 'Steps',
+    'comparison.stepsOf': 'Steps: {query}',
+    'comparison.materials': 'Parameters and Materials',
+    'comparison.time': 'Time',
+    'comparison.unique': 'Only here',
+    'comparison.yes': 'Yes',
+    'comparison.pdfTitle': 'Construction Process Comparison',
+    'comparison.pdfHighlightNote': 'Highlighted cells mark what appears in only one of the two alternatives.',
+    'comparison.pdfHeader': 'Comparison: {left} vs. {right}',
+
+    // History drawer
+    'history.dialogLabel': 'Search history',
+    'history.searchPlaceholder': 'Search the queries and their results...',
+    'history.favorites': 'Favorites',
+    'history.favorite': 'Mark as favorite',
+    'history.unfavorite': 'Remove from favorites',
+    'history.addTag': '+ tag',
+    'history.removeTag': 'Remove the tag "{tag}"',
+    'history.export': 'Export JSON ({count})',
+    'history.exportHint': 'Exports the searches shown, with their results, tags and favorites',
+    'history.import': 'Import JSON',
+    'history.empty': 'There are no searches in the history yet.',
+    'history.noMatches': 'No search matches the filters.',
+    'history.delete': 'Delete from history',
+    'history.deleteConfirm': 'Delete "{label}" from the history?',
+    'history.cached': 'Cached',
+    'history.notCached': 'Not cached (the saved result opens)',
+    'history.saveFailed': 'The change could not be saved in the history.',
+    'history.deleteFailed': 'The search could not be deleted from the history.',
+    'history.invalidFile': 'The file is not a history exported by this application.',
+    'history.importFailed': 'The history could not be imported. Check the storage available in the browser.',
+
+    // Projects
+    'projects.add': 'Add to project',
+    'projects.addHint': 'Add this process to a project (site)',
+    'projects.added': 'Added to "{name}"',
+    'projects.addFailed': 'The guide could not be added to the project.',
+    'projects.loadFailed': 'The projects could not be loaded.',
+    'projects.newProject': 'New project',
+    'projects.newProjectPrompt': 'Name of the new project:',
+
+    // Sharing file
+    'share.openShared': 'Open the shared guide: {query}',
+
+    // Projects view
+    'projects.field.name': 'Project name',
+    'projects.field.namePlaceholder': 'E.g. Los Cedros Building',
+    'projects.field.client': 'Client',
+    'projects.field.clientPlaceholder': 'E.g. ABC Builders Ltd.',
+    'projects.field.location': 'Location',
+    'projects.field.locationPlaceholder': 'E.g. Medellín, Antioquia',
+    'projects.field.engineer': 'Engineer in charge',
+    'projects.field.engineerPlaceholder': 'E.g. Eng. María Gómez',
+    'projects.create': 'Create project',
+    'projects.saveMetadata': 'Save details',
+    'projects.processCount': '{count} processes',
+    'projects.processCountOne': '{count} process',
+    'projects.empty': 'There are no projects yet.',
+    'projects.select': 'Select a project or create a new one to chain processes into a method statement.',
+    'projects.export': 'Method Statement (PDF)',
+    'projects.exportHint': 'Export a single document with cover, contents, every process and the standards and sources annexes',
+    'projects.processes': 'Processes in order of execution',
+    'projects.noProcesses': 'Search for a process and use "{add}" to include it here.',
+    'projects.moveUp': 'Move up',
+    'projects.moveDown': 'Move down',
+    'projects.removeGuide': 'Remove from project',
+    'projects.delete': 'Delete project',
+    'projects.deleteConfirm': 'Delete the project "{name}" and its {count} processes?',
+    'projects.deleteFailed': 'The project could not be deleted.',
+    'projects.loadSavedFailed': 'The projects saved in this browser could not be loaded.',
+    'projects.saveFailed': 'The project could not be saved. Check the storage available in the browser.',
+
+    // Method statement
+    'methodStatement.title': 'Method Statement',
+    'methodStatement.basedOn': '{count} processes, based on the {regulation}.',
+    'methodStatement.basedOnOne': '{count} process, based on the {regulation}.',
+    'methodStatement.regulationsJoin': ' and the ',
+    'methodStatement.illustration': 'Diagram: {query}',
+    'methodStatement.illustrationCaption': 'AI-generated illustration.',
+    'methodStatement.annex': 'Annex {letter}. {title}',
+    'methodStatement.sources': 'Sources consulted',
+    'methodStatement.chapter': 'chapter {chapters}',
+    'methodStatement.chapters': 'chapters {chapters}',
+
+    // Usage
+    'usage.export': 'Export CSV',
+    'usage.exportHint': 'One row per day and query, to charge the cost to each project',
+    'usage.clear': 'Clear log',
+    'usage.clearConfirm': 'Clear all recorded usage? Export the CSV first if you need it for billing.',
+    'usage.clearFailed': 'The recorded usage could not be cleared.',
+    'usage.loadFailed': 'The usage recorded in this browser could not be loaded.',
+    'usage.savePricesFailed': 'The prices could not be saved.',
+    'usage.cost': 'Estimated cost',
+    'usage.costShort': 'Cost',
+    'usage.calls': '{count} model calls',
+    'usage.callsOne': '{count} model call',
+    'usage.tokens': 'Tokens',
+    'usage.tokensSplit': '{input} input, {output} output',
+    'usage.images': 'Images',
+    'usage.savings': 'Cache savings',
+    'usage.savingsShort': 'Savings',
+    'usage.cacheHits': '{count} cache hits',
+    'usage.cacheHitsOne': '{count} cache hit',
+    'usage.topQueries': 'Most expensive queries',
+    'usage.empty': 'No usage recorded yet. Every search, illustration and follow-up question is recorded here.',
+    'usage.queryCalls': '{calls} calls · {cacheHits} from cache',
+    'usage.byDay': 'By day',
+    'usage.prices': 'Unit prices',
+    'usage.currency': 'Currency',
+    'usage.price.input': 'Input (per million tokens)',
+    'usage.price.output': 'Output (per million tokens)',
+    'usage.price.image': 'Per image',
+    'usage.pricesNote': 'Costs are recalculated with these prices, including those of earlier days.',
+    'usage.restorePrices': 'Restore list prices',
+    'usage.column.date': 'Date',
+    'usage.column.query': 'Query',
+    'usage.column.calls': 'Calls',
+    'usage.column.inputTokens': 'Input tokens',
+    'usage.column.outputTokens': 'Output tokens',
+    'usage.column.images': 'Images',
+    'usage.column.cost': 'Cost ({currency})',
+    'usage.column.cacheHits': 'Cache hits',
+    'usage.column.savings': 'Estimated savings ({currency})',
+
+    // Recovery hints
+    'recovery.rephrase': 'Rephrase the search and try again.',
+    'recovery.contactAdmin': 'Contact the administrator of the app to solve it.',
+    'recovery.retry': 'Retry',
+    'recovery.retryIn': 'Retry in {seconds} s',
+
+    // Errors
+    'errors.network': 'Network error. Please check your internet connection and try again.',
+    'errors.invalidQuery': 'The query is invalid or could not be processed. Try a different search.',
+    'errors.invalidQueryModel': 'The query is invalid or the model could not process it. Please rephrase your search.',
+    'errors.serviceUnavailable': 'The service is not available right now. Please try again later.',
+    'errors.noApiKey': 'The API key is not configured. Contact the administrator of the app.',
+    'errors.cancelled': 'The search was cancelled.',
+    'errors.rateLimit': 'The request limit or the quota of the AI service was reached.',
+    'errors.safetyBlocked': 'The AI service blocked the request with its safety filters.',
+    'errors.imageSafetyBlocked': 'The illustration was blocked by the safety filters of the image service.',
+    'errors.unsupportedRegion': 'Image generation is not available in the region the app is used from.',
+    'errors.emptyResponse': 'The AI service returned no content.',
+    'errors.emptyImage': 'Image generation returned no valid data.',
+    'errors.truncatedResponse': 'The answer of the AI service was cut off before it finished.',
+    'errors.unexpected': 'An unexpected error occurred while talking to the AI service.',
+    'errors.illustration': 'The illustration for this process could not be generated.',
+    'errors.processDetails': 'An error occurred while getting the details of the process.',
+    'errors.request': 'An error occurred while processing the request.',
+    'errors.sharedLink': 'The shared link is damaged or incomplete. Ask for it to be sent again.',
+    'errors.pdf': 'An error occurred while creating the PDF file. Please try again.',
+    'errors.docx': 'An error occurred while creating the Word document. Please try again.',
+    'errors.illustrationPdf': 'The image could not be loaded to create the PDF. The image file may be corrupt.',
+};
@@ -0,0 +1,429 @@
+// Spanish UI messages, the reference catalog: every other locale must define the same keys.
+// "{name}" placeholders are filled in by `t`.
+export const es = {
+    // Header and navigation
+    'app.title': 'GUIA PROCESOS CONSTRUCTIVOS',
+    'app.subtitle': 'Busque un proceso constructivo y obtenga un resumen técnico basado en la {regulation}.',
+    'app.jurisdiction': 'Perfil normativo',
+    'app.jurisdictionHint': 'País cuya normativa siguen las nuevas búsquedas',
+    'app.language': 'Idioma',
+    'app.guideInUiLanguage': 'Redactar las guías en este idioma',
+    'app.guideInUiLanguageHint': 'Los nombres de las normas y las citas se conservan en su forma original.',
+    'app.tab.search': 'Buscar un proceso',
+    'app.tab.compare': 'Comparar dos procesos',
+    'app.tab.projects': 'Proyectos',
+    'app.tab.usage': 'Consumo',
+    'app.tab.templates': 'Plantillas',
+    'app.footer': 'Desarrollado con IA. La información debe ser verificada por un profesional.',
+
+    // Search page
+    'history.recent': 'Búsquedas recientes:',
+    'history.showAll': 'Ver historial',
+    'history.open': 'Historial',
+    'search.placeholder': 'Ej: Muro de contención en concreto reforzado...',
+    'search.submit': 'Buscar',
+    'search.searching': 'Buscando...',
+    'search.cancel': 'Cancelar',
+    'search.cancelHint': 'Detener la búsqueda en curso',
+    'search.emptyTitle': 'Ingrese una actividad de construcción para comenzar.',
+    'search.emptyExample': 'Ej: "Instalación de una viga de cimentación"',
+    'search.cancelled': 'Búsqueda cancelada: el resultado está incompleto y no se guardó en caché.',
+    'search.discard': 'Descartar',
+    'search.retry': 'Reintentar',
+    'search.fromCache': 'Resultado guardado en caché',
+    'search.regenerate': 'Regenerar',
+    'search.regenerateHint': 'Descartar el resultado guardado y consultar de nuevo',
+    'search.otherProfile': 'Esta guía sigue la normativa de {country}; las nuevas búsquedas usarán la de {selected}.',
+    'search.searchWithProfile': 'Buscar con este perfil',
+    'search.searchWithProfileHint': 'Buscar el mismo proceso con el perfil seleccionado; puede consultar la IA',
+    'search.print': 'Imprimir Resumen (PDF)',
+    'search.errorTitle': 'Error al obtener la información',
+    'shared.banner': 'Guía compartida el {date}. Se muestra tal como se compartió, en solo lectura y sin consultar la IA.',
+    'shared.close': 'Cerrar',
+    'shared.openAsSearch': 'Abrir como búsqueda',
+    'shared.openAsSearchHint': 'Buscar el mismo proceso en esta aplicación; puede consultar la IA',
+    'loader.title': 'Procesando su solicitud...',
+    'loader.detail': 'Consultando normativas y generando el esquema. Esto puede tardar un momento.',
+
+    // Result
+    'result.title': 'Proceso Constructivo:',
+    'result.incomplete': 'Incompleto',
+    'result.exportTxtHint': 'Descargar resumen como archivo de texto (.txt)',
+    'result.exportDocxHint': 'Descargar resumen como documento de Word (.docx)',
+    'result.addenda': 'Adendas',
+    'result.removeAddendum': 'Quitar',
+    'result.removeAddendumHint': 'Quitar la adenda de la guía',
+    'result.illustration': 'Esquema Ilustrativo',
+    'result.illustrationAlt': 'Esquema de {query}',
+    'result.generatingIllustration': 'Generando ilustración...',
+    'result.downloadIllustration': 'Descargar Esquema (PDF)',
+    'result.sources': 'Fuentes Consultadas',
+
+    // Quality gate
+    'quality.title': 'Control de calidad',
+    'quality.score': '{score}/100',
+    'quality.passed': 'Cumple',
+    'quality.failed': 'No cumple',
+    'quality.citedSteps': 'Pasos con cita normativa: {cited} de {total}',
+    'quality.repairedFrom': 'Reparada; antes {score}/100',
+    'quality.issue.missing-section': 'Falta la sección "{section}".',
+    'quality.issue.deep-heading': '"{section}" usa {count} encabezados de nivel 3 o inferior.',
+    'quality.issue.uncited-steps': 'Solo {count} de {total} pasos citan una norma (mínimo {min} %).',
+    'quality.issue.not-applicable-norms': 'La sección "{section}" dice que no aplica en lugar de omitirse.',
+    'quality.issue.truncated': 'La sección "{section}" parece cortada.',
+    'quality.outsideSections': 'el texto antes de las secciones',
+    'quality.repair': 'Reparar',
+    'quality.repairHint': 'Pedir al modelo que corrija solo las secciones con problemas',
+    'quality.repairing': 'Reparando las secciones con problemas...',
+    'quality.autoRepair': 'Reparar automáticamente',
+    'quality.autoRepairHint': 'Cuando una búsqueda no pasa el control, se pide al terminar una corrección de las secciones con problemas.',
+    'quality.noImprovement': 'La reparación no mejoró la guía; se conserva la original.',
+    'quality.repairFailed': 'No se pudo reparar la guía: {message}',
+
+    // Citations
+    'citations.title': 'Normas citadas',
+    'citations.summary': '{verified} verificadas, {unknown} sin verificar y {hallucinated} probablemente inexistentes.',
+    'citations.hallucinatedWarning': 'Algunas citas no corresponden a ningún título, capítulo o artículo existente. Revise la guía antes de aprobarla.',
+    'citations.status.verified': 'Verificada',
+    'citations.status.unknown': 'Sin verificar',
+    'citations.status.hallucinated': 'Probablemente inexistente',
+    'citations.seeWhere': 'Ver dónde se cita {id}.',
+    'citations.location': '{section}, paso {step}',
+    'citations.heading': 'Encabezado',
+    'citations.catalogVersion': 'Verificación contra el catálogo de normas v{version}.',
+    'citations.notInCatalog': 'Estas normas no están en el catálogo de verificación: revíselas contra el texto oficial.',
+
+    // Quantities
+    'quantities.title': 'Cantidades de Obra',
+    'quantities.intro': 'Cálculo local para un tipo de elemento repetido. Los datos se tomaron de la sección de materiales cuando estaban disponibles; verifíquelos contra los planos y el diseño de mezcla del laboratorio.',
+    'quantities.length': 'Largo',
+    'quantities.width': 'Ancho',
+    'quantities.thickness': 'Espesor / altura',
+    'quantities.unitOf': 'Unidad de {label}',
+    'quantities.barSize': 'Barra',
+    'quantities.mats': 'Mallas de refuerzo',
+    'quantities.barSpacing': 'Separación de barras',
+    'quantities.cover': 'Recubrimiento',
+    'quantities.formworkBottom': 'Formaleta de fondo (vigas y losas aéreas)',
+    'quantities.concreteWaste': 'Desperdicio de concreto',
+    'quantities.steelWaste': 'Desperdicio de acero',
+    'quantities.formworkWaste': 'Desperdicio de formaleta',
+    'quantities.exportsNote': 'Las cantidades se incluyen en las exportaciones .txt, .docx y PDF.',
+    'quantities.reset': 'Restablecer',
+    'quantities.remove': 'Quitar de las exportaciones',
+    'quantities.leanConcrete': 'concreto pobre / solado',
+    'quantities.row.dimensions': 'Dimensiones (largo × ancho × espesor)',
+    'quantities.row.count': 'Número de elementos',
+    'quantities.row.mixDesign': 'Diseño de mezcla',
+    'quantities.row.reinforcement': 'Refuerzo',
+    'quantities.row.waste': 'Desperdicios',
+    'quantities.row.concrete': 'Volumen de concreto',
+    'quantities.row.cement': 'Cemento',
+    'quantities.row.bars': 'Barras de refuerzo',
+    'quantities.row.steel': 'Peso del acero',
+    'quantities.row.formwork': 'Área de formaleta',
+    'quantities.value.reinforcement': 'Barra {size} ({inches}, {kgPerM} kg/m) cada {spacing}, {mats} mallas, recubrimiento {cover}',
+    'quantities.value.reinforcementOne': 'Barra {size} ({inches}, {kgPerM} kg/m) cada {spacing}, 1 malla, recubrimiento {cover}',
+    'quantities.value.waste': 'Concreto {concrete} %, acero {steel} %, formaleta {formwork} %',
+    'quantities.value.withWaste': '{value} ({withWaste} con desperdicio)',
+    'quantities.value.cement': '{bags} bultos de {bagKg} kg ({kg} kg)',
+    'quantities.value.bars': '{lengthwise} longitudinales y {crosswise} transversales, {length} m',
+
+    // Inspection checklist
+    'checklist.title': 'Lista de Chequeo de Inspección',
+    'checklist.inspector': 'Inspector',
+    'checklist.inspectorPlaceholder': 'Nombre de quien inspecciona',
+    'checklist.newInspection': 'Nueva inspección',
+    'checklist.newInspectionConfirm': '¿Iniciar una nueva inspección? La actual queda guardada.',
+    'checklist.saveFailed': 'No se pudo guardar la lista de chequeo en este navegador.',
+    'checklist.summary': 'Iniciada el {date} · {passed} cumple · {failed} no cumple · {na} N/A · {pending} pendientes',
+    'checklist.empty': 'La guía no tiene pasos ni parámetros que se puedan inspeccionar.',
+    'checklist.kind.step': 'Paso',
+    'checklist.kind.parameter': 'Parámetro',
+    'checklist.acceptanceCriteria': 'Criterio de aceptación',
+    'checklist.defaultCriterion': 'Ejecutado según lo descrito.',
+    'checklist.observations': 'Observaciones',
+    'checklist.checkedAt': 'Revisado el {date}',
+    'checklist.status.cumple': 'Cumple',
+    'checklist.status.no-cumple': 'No cumple',
+    'checklist.status.na': 'N/A',
+    'checklist.pending': 'Pendiente',
+    'checklist.pendingPlural': 'Pendientes',
+    'checklist.column.kind': 'Tipo',
+    'checklist.column.item': 'Ítem',
+    'checklist.column.citations': 'Norma citada',
+    'checklist.column.status': 'Estado',
+    'checklist.column.date': 'Fecha',
+    'checklist.column.dateTime': 'Fecha y hora',
+    'checklist.pdfTitle': 'Lista de chequeo: {title}',
+    'checklist.pdfHeader': 'Inspección de calidad — {title} — {date}',
+    'checklist.startedAtLabel': 'Inspección iniciada',
+    'checklist.inspectorSignature': 'Firma del inspector',
+    'checklist.residentSignature': 'Firma del residente',
+
+    // Follow-up questions
+    'followUp.title': 'Preguntas de Seguimiento',
+    'followUp.intro': 'Pregunte sobre esta guía sin perder el contexto, por ejemplo: "¿y si el suelo es arcilla expansiva?"',
+    'followUp.placeholder': 'Ej: Detalla el curado en clima frío',
+    'followUp.ask': 'Preguntar',
+    'followUp.asking': 'Consultando...',
+    'followUp.cancel': 'Cancelar',
+    'followUp.append': 'Agregar a la guía como adenda',
+    'followUp.appended': 'Agregada como adenda',
+    'followUp.failed': 'No se pudo obtener la respuesta.',
+
+    // Illustration options
+    'illustration.options': 'Opciones de ilustración',
+    'illustration.style': 'Estilo',
+    'illustration.style.corte': 'Corte técnico',
+    'illustration.style.isometrico': 'Isométrico',
+    'illustration.style.paso-a-paso': 'Paso a paso',
+    'illustration.style.planta': 'Vista en planta',
+    'illustration.aspectRatio': 'Proporción',
+    'illustration.ratio.landscape': 'horizontal',
+    'illustration.ratio.wide': 'panorámica',
+    'illustration.ratio.square': 'cuadrada',
+    'illustration.ratio.portrait': 'vertical',
+    'illustration.ratio.tall': 'vertical alta',
+    'illustration.variants': 'Variantes',
+    'illustration.detail': 'Detalle adicional',
+    'illustration.detailPlaceholder': 'Ej: mostrar el solado y los estribos',
+    'illustration.generating': 'Generando...',
+    'illustration.generateVariants': 'Generar {count} variantes',
+    'illustration.regenerate': 'Regenerar ilustración',
+    'illustration.cancel': 'Cancelar',
+    'illustration.variant': 'Variante {index}',
+    'illustration.variantAlt': 'Variante {index} de {query}',
+    'illustration.preferred': 'Preferida',
+    'illustration.use': 'Usar esta',
+
+    // Sharing
+    'share.share': 'Compartir',
+    'share.hint': 'Compartir la guía en un enlace que se abre sin consultar de nuevo la IA',
+    'share.includeImage': 'Incluir la ilustración (comprimida)',
+    'share.copy': 'Copiar enlace',
+    'share.download': 'Descargar archivo (.html)',
+    'share.copied': 'Enlace copiado',
+    'share.copiedLong': 'Enlace copiado. Es largo: si el destinatario lo recibe cortado, envíe el archivo.',
+    'share.downloaded': 'Archivo descargado',
+    'share.failed': 'No se pudo crear el enlace para compartir.',
+
+    // Exports
+    'exports.guideTitle': 'Guía de Proceso Constructivo',
+    'exports.generatedOn': 'Generado el {date}',
+    'exports.basedOn': 'Basado en la {regulation}.',
+    'exports.disclaimer': 'Desarrollado con IA. La información debe ser verificada por un profesional.',
+    'exports.page': 'Página',
+    'exports.contents': 'Contenido',
+    'exports.illustrationCaption': 'Esquema de {query}. Ilustración generada con IA.',
+    'exports.sources': 'Fuentes',
+    'exports.norm': 'Norma',
+    'exports.status': 'Estado',
+    'exports.catalogReference': 'Referencia del catálogo',
+    'exports.citedIn': 'Citada en',
+    'exports.input': 'Dato de entrada',
+    'exports.value': 'Valor',
+    'exports.quantity': 'Cantidad',
+    'exports.result': 'Resultado',
+    'addenda.title': 'Adenda {number}: {question}',
+
+    // Prompt templates
+    'templates.title': 'Plantillas de instrucciones',
+    'templates.name.guide': 'Guía de proceso constructivo',
+    'templates.name.image': 'Ilustración',
+    'templates.versionBuiltIn': 'Versión {version} (predeterminada).',
+    'templates.versionModified': 'Versión {version} (modificada el {date}).',
+    'templates.versionNote': 'Guardar crea una versión nueva: los resultados guardados en caché con versiones anteriores dejan de servirse y cada resultado registra la versión que lo produjo.',
+    'templates.optionalSections': 'Secciones opcionales',
+    'templates.optionalSectionsNote': 'Se piden después de las secciones básicas y antes de "{norms}".',
+    'templates.body': 'Texto',
+    'templates.unknownVariables': 'Variables desconocidas, se enviarán tal cual: {names}',
+    'templates.variables': 'Variables disponibles:',
+    'templates.variable.query': 'La actividad consultada',
+    'templates.variable.country': 'País del perfil normativo',
+    'templates.variable.regulation': 'Nombre de la normativa, p. ej. "normativa colombiana de construcción"',
+    'templates.variable.codes': 'Lista de las normas de referencia del perfil',
+    'templates.variable.citationFormat': 'Cómo se escribe una cita en el perfil',
+    'templates.variable.citationExample': 'Ejemplo de cita, p. ej. "(NSR-10, Título C.5.2)"',
+    'templates.variable.units': 'Unidades que usa el perfil',
+    'templates.variable.language': 'Idioma de la guía ("español", "inglés")',
+    'templates.variable.languageNote': 'Instrucción sobre el idioma y las citas',
+    'templates.variable.sections': 'Lista numerada de las secciones, incluidas las opcionales activas',
+    'templates.variable.normsTitle': 'Título de la sección de normatividad en el idioma de la guía',
+    'templates.variable.style': 'Instrucción del estilo elegido (corte, isométrico...)',
+    'templates.variable.detail': 'Detalles adicionales escritos por el usuario, si los hay',
+    'templates.preview': 'Vista previa',
+    'templates.sampleQueryLabel': 'Actividad de ejemplo',
+    'templates.sampleQuery': 'Zapatas aisladas',
+    'templates.save': 'Guardar como versión {version}',
+    'templates.discard': 'Descartar cambios',
+    'templates.discardConfirm': 'Hay cambios sin guardar en la plantilla. ¿Descartarlos?',
+    'templates.restore': 'Restaurar predeterminada',
+    'templates.restoreConfirm': '¿Restaurar la plantilla predeterminada? Se guardará como una versión nueva.',
+    'templates.saveFailed': 'No se pudo guardar la plantilla en este navegador.',
+    'templates.restoreFailed': 'No se pudo restaurar la plantilla.',
+
+    // Comparison
+    'comparison.leftPlaceholder': 'Ej: Muro de contención en concreto',
+    'comparison.rightPlaceholder': 'Ej: Muro en gaviones',
+    'comparison.compare': 'Comparar',
+    'comparison.cancel': 'Cancelar',
+    'comparison.errorTitle': 'Error al comparar',
+    'comparison.failed': 'Ocurrió un error al comparar los procesos.',
+    'comparison.exportPdf': 'Exportar Comparación (PDF)',
+    'comparison.description': 'Descripción',
+    'comparison.steps': 'Pasos',
+    'comparison.stepsOf': 'Pasos: {query}',
+    'comparison.materials': 'Parámetros y Materiales',
+    'comparison.time': 'Tiempo',
+    'comparison.unique': 'Exclusivo',
+    'comparison.yes': 'Sí',
+    'comparison.pdfTitle': 'Comparación de Procesos Constructivos',
+    'comparison.pdfHighlightNote': 'Las celdas resaltadas señalan lo que solo aparece en una de las dos alternativas.',
+    'comparison.pdfHeader': 'Comparación: {left} vs. {right}',
+
+    // History drawer
+    'history.dialogLabel': 'Historial de búsquedas',
+    'history.searchPlaceholder': 'Buscar en las consultas y sus resultados...',
+    'history.favorites': 'Favoritos',
+    'history.favorite': 'Marcar como favorito',
+    'history.unfavorite': 'Quitar de favoritos',
+    'history.addTag': '+ etiqueta',
+    'history.removeTag': 'Quitar la etiqueta "{tag}"',
+    'history.export': 'Exportar JSON ({count})',
+    'history.exportHint': 'Exporta las búsquedas mostradas, con sus resultados, etiquetas y favoritos',
+    'history.import': 'Importar JSON',
+    'history.empty': 'Aún no hay búsquedas en el historial.',
+    'history.noMatches': 'Ninguna búsqueda coincide con los filtros.',
+    'history.delete': 'Eliminar del historial',
+    'history.deleteConfirm': '¿Eliminar "{label}" del historial?',
+    'history.cached': 'En caché',
+    'history.notCached': 'Sin caché (se abre el resultado guardado)',
+    'history.saveFailed': 'No se pudo guardar el cambio en el historial.',
+    'history.deleteFailed': 'No se pudo eliminar la búsqueda del historial.',
+    'history.invalidFile': 'El archivo no es un historial exportado por esta aplicación.',
+    'history.importFailed': 'No se pudo importar el historial. Revise el espacio disponible en el navegador.',
+
+    // Projects
+    'projects.add': 'Agregar a proyecto',
+    'projects.addHint': 'Agregar este proceso a un proyecto (obra)',
+    'projects.added': 'Agregado a "{name}"',
+    'projects.addFailed': 'No se pudo agregar al proyecto.',
+    'projects.loadFailed': 'No se pudieron cargar los proyectos.',
+    'projects.newProject': 'Nuevo proyecto',
+    'projects.newProjectPrompt': 'Nombre del nuevo proyecto:',
+
+    // Sharing file
+    'share.openShared': 'Abrir la guía compartida: {query}',
+
+    // Projects view
+    'projects.field.name': 'Nombre del proyecto',
+    'projects.field.namePlaceholder': 'Ej: Edificio Los Cedros',
+    'projects.field.client': 'Cliente',
+    'projects.field.clientPlaceholder': 'Ej: Constructora ABC S.A.S.',
+    'projects.field.location': 'Ubicación',
+    'projects.field.locationPlaceholder': 'Ej: Medellín, Antioquia',
+    'projects.field.engineer': 'Ingeniero responsable',
+    'projects.field.engineerPlaceholder': 'Ej: Ing. María Gómez',
+    'projects.create': 'Crear proyecto',
+    'projects.saveMetadata': 'Guardar datos',
+    'projects.processCount': '{count} procesos',
+    'projects.processCountOne': '{count} proceso',
+    'projects.empty': 'Aún no hay proyectos.',
+    'projects.select': 'Seleccione un proyecto o cree uno nuevo para encadenar procesos en un procedimiento constructivo.',
+    'projects.export': 'Procedimiento Constructivo (PDF)',
+    'projects.exportHint': 'Exportar un solo documento con portada, contenido, todos los procesos y los anexos de normas y fuentes',
+    'projects.processes': 'Procesos en orden de ejecución',
+    'projects.noProcesses': 'Busque un proceso y use "{add}" para incluirlo aquí.',
+    'projects.moveUp': 'Subir',
+    'projects.moveDown': 'Bajar',
+    'projects.removeGuide': 'Quitar del proyecto',
+    'projects.delete': 'Eliminar proyecto',
+    'projects.deleteConfirm': '¿Eliminar el proyecto "{name}" y sus {count} procesos?',
+    'projects.deleteFailed': 'No se pudo eliminar el proyecto.',
+    'projects.loadSavedFailed': 'No se pudieron cargar los proyectos guardados en este navegador.',
+    'projects.saveFailed': 'No se pudo guardar el proyecto. Revise el espacio disponible en el navegador.',
+
+    // Method statement
+    'methodStatement.title': 'Procedimiento Constructivo',
+    'methodStatement.basedOn': '{count} procesos, basados en la {regulation}.',
+    'methodStatement.basedOnOne': '{count} proceso, basado en la {regulation}.',
+    'methodStatement.regulationsJoin': ' y la ',
+    'methodStatement.illustration': 'Esquema: {query}',
+    'methodStatement.illustrationCaption': 'Ilustración generada con IA.',
+    'methodStatement.annex': 'Anexo {letter}. {title}',
+    'methodStatement.sources': 'Fuentes consultadas',
+    'methodStatement.chapter': 'capítulo {chapters}',
+    'methodStatement.chapters': 'capítulos {chapters}',
+
+    // Usage
+    'usage.export': 'Exportar CSV',
+    'usage.exportHint': 'Una fila por día y consulta, para cargar el costo a cada proyecto',
+    'usage.clear': 'Borrar registro',
+    'usage.clearConfirm': '¿Borrar todo el consumo registrado? Exporte el CSV antes si lo necesita para facturar.',
+    'usage.clearFailed': 'No se pudo borrar el consumo registrado.',
+    'usage.loadFailed': 'No se pudo cargar el consumo registrado en este navegador.',
+    'usage.savePricesFailed': 'No se pudieron guardar los precios.',
+    'usage.cost': 'Costo estimado',
+    'usage.costShort': 'Costo',
+    'usage.calls': '{count} llamadas al modelo',
+    'usage.callsOne': '{count} llamada al modelo',
+    'usage.tokens': 'Tokens',
+    'usage.tokensSplit': '{input} de entrada, {output} de salida',
+    'usage.images': 'Imágenes',
+    'usage.savings': 'Ahorro por caché',
+    'usage.savingsShort': 'Ahorro',
+    'usage.cacheHits': '{count} aciertos de caché',
+    'usage.cacheHitsOne': '{count} acierto de caché',
+    'usage.topQueries': 'Consultas más costosas',
+    'usage.empty': 'Aún no hay consumo registrado. Cada búsqueda, ilustración y pregunta de seguimiento se registra aquí.',
+    'usage.queryCalls': '{calls} llamadas · {cacheHits} de caché',
+    'usage.byDay': 'Por día',
+    'usage.prices': 'Precios unitarios',
+    'usage.currency': 'Moneda',
+    'usage.price.input': 'Entrada (por millón de tokens)',
+    'usage.price.output': 'Salida (por millón de tokens)',
+    'usage.price.image': 'Por imagen',
+    'usage.pricesNote': 'Los costos se recalculan con estos precios, también los de días anteriores.',
+    'usage.restorePrices': 'Restaurar precios de lista',
+    'usage.column.date': 'Fecha',
+    'usage.column.query': 'Consulta',
+    'usage.column.calls': 'Llamadas',
+    'usage.column.inputTokens': 'Tokens de entrada',
+    'usage.column.outputTokens': 'Tokens de salida',
+    'usage.column.images': 'Imágenes',
+    'usage.column.cost': 'Costo ({currency})',
+    'usage.column.cacheHits': 'Aciertos de caché',
+    'usage.column.savings': 'Ahorro estimado ({currency})',
+
+    // Recovery hints
+    'recovery.rephrase': 'Reformule la búsqueda con otras palabras e inténtelo de nuevo.',
+    'recovery.contactAdmin': 'Contacte al administrador de la aplicación para resolverlo.',
+    'recovery.retry': 'Reintentar',
+    'recovery.retryIn': 'Reintentar en {seconds} s',
+
+    // Errors
+    'errors.network': 'Error de red. Por favor, revise su conexión a internet e inténtelo de nuevo.',
+    'errors.invalidQuery': 'La consulta es inválida o no se pudo procesar. Pruebe con una búsqueda diferente.',
+    'errors.invalidQueryModel': 'La consulta es inválida o el modelo no pudo procesarla. Por favor, reformule su búsqueda.',
+    'errors.serviceUnavailable': 'El servicio no está disponible en este momento. Por favor, intente más tarde.',
+    'errors.noApiKey': 'La clave de API no está configurada. Contacte al administrador de la aplicación.',
+    'errors.cancelled': 'La búsqueda fue cancelada.',
+    'errors.rateLimit': 'Se alcanzó el límite de solicitudes o la cuota del servicio de IA.',
+    'errors.safetyBlocked': 'El servicio de IA bloqueó la solicitud por sus filtros de seguridad.',
+    'errors.imageSafetyBlocked': 'La ilustración fue bloqueada por los filtros de seguridad del servicio de imágenes.',
+    'errors.unsupportedRegion': 'La generación de imágenes no está disponible en la región desde la que se usa la aplicación.',
+    'errors.emptyResponse': 'El servicio de IA no devolvió contenido.',
+    'errors.emptyImage': 'La generación de imagen no devolvió datos válidos.',
+    'errors.truncatedResponse': 'La respuesta del servicio de IA se interrumpió antes de terminar.',
+    'errors.unexpected': 'Ocurrió un error inesperado al comunicarse con el servicio de IA.',
+    'errors.illustration': 'No se pudo generar la ilustración para este proceso.',
+    'errors.processDetails': 'Ocurrió un error al obtener los detalles del proceso.',
+    'errors.request': 'Ocurrió un error al procesar la solicitud.',
+    'errors.sharedLink': 'El enlace compartido está dañado o incompleto. Pida que se lo envíen de nuevo.',
+    'errors.pdf': 'Ocurrió un error al crear el archivo PDF. Por favor, inténtelo de nuevo.',
+    'errors.docx': 'Ocurrió un error al crear el documento de Word. Por favor, inténtelo de nuevo.',
+    'errors.illustrationPdf': 'No se pudo cargar la imagen para generar el PDF. El archivo de imagen puede estar corrupto.',
+};
+
+export type Messages = typeof es;
@@ -0,0 +1,43 @@
+import { es, type Messages } from './es';
+import { en } from './en';
+
+// UI language. The active locale is module state, like the AI provider, so that services (error
+// messages) and components translate alike; App re-renders the tree when it changes.
+
+export type Locale = 'es' | 'en';
+export type MessageKey = keyof Messages;
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+export const locales: Record<Locale, { label: string; tag: string; messages: Messages }> = {
+    es: { label: 'Español', tag: 'es-CO', messages: es },
+    en: { label: 'English', tag: 'en-US', messages: en },
+};
+
+let activeLocale: Locale = DEFAULT_LOCALE;
+
+export const isLocale = (value: unknown): value is Locale =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(locales, value);
+
+export const getLocale = (): Locale => activeLocale;
+
+export const setLocale = (locale: Locale): void => {
+    activeLocale = locale;
+};
+
+// BCP 47 tag for Intl formatting, e.g. "es-CO".
+export const localeTag = (): string => locales[activeLocale].tag;
+
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string =>
+    locales[activeLocale].messages[key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in params ? String(params[name]) : placeholder);
+
+export const formatDate = (timestamp: number, options: Intl.DateTimeFormatOptions = { dateStyle: 'long' }): string =>
+    new Date(timestamp).toLocaleDateString(localeTag(), options);
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+    value.toLocaleString(localeTag(), options);
+
+// Language a stored guide was written in; guides from before the option existed are Spanish.
+export const languageOf = (result: { language?: Locale }): Locale =>
+    isLocale(result.language) ? result.language : DEFAULT_LOCALE;
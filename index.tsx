@@ -2,12 +2,17 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { setLocale } from './i18n';
+import { loadLocale } from './services/localeStore';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Before the first render, so every message starts out in the saved language.
+setLocale(loadLocale());
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,245 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { ApiError } from '../services/errors';
+import type { ChatTurn, ImageAspectRatio } from '../services/providers';
+import type { ProxyBackendInfo, ProxyErrorPayload } from '../services/providers/proxyProvider';
+import { isObject } from '../utils/validate';
+import type { ServerConfig } from './config';
+import { createRateLimiter } from './rateLimit';
+import { createUpstreamFactory, type UpstreamFactory } from './upstream';
+
+// Connect-style handler, so the same code runs inside Vite (dev and preview) and in server/index.ts.
+export type ApiHandler = (req: IncomingMessage, res: ServerResponse, next?: () => void) => void;
+
+interface ApiHandlerOptions {
+    config: ServerConfig;
+    // Replaces the configured provider, e.g. with a stub in tests.
+    upstream?: UpstreamFactory;
+    log?: (line: string) => void;
+}
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string, readonly retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+type RequestBody = Record<string, unknown>;
+
+interface RequestContext {
+    signal: AbortSignal;
+    // For the request log, once the requested model has been checked.
+    model: string;
+}
+
+const aspectRatios: ImageAspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+// A body over the limit is rejected at once, so the 413 is answered, and the rest is read and
+// dropped: destroying the socket would leave the client with a reset connection instead.
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        if (size > maxBytes) return;
+        size += chunk.length;
+        if (size > maxBytes) {
+            chunks.length = 0;
+            reject(new HttpError(413, 'La solicitud es demasiado grande.'));
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        if (size > maxBytes) return;
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+        } catch {
+            reject(new HttpError(400, 'El cuerpo de la solicitud no es JSON válido.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+// Keeps the upstream status, so the client maps the failure as if it had called the provider itself.
+const toPayload = (error: unknown): ProxyErrorPayload => {
+    if (error instanceof HttpError) {
+        return { status: error.status, message: error.message, retryAfterSeconds: error.retryAfterSeconds };
+    }
+    const details = isObject(error) ? error : {};
+    const status = [details.status, details.httpStatus, isObject(details.e) ? details.e.code : undefined]
+        .find((code): code is number => typeof code === 'number' && code >= 400);
+    return {
+        status: status ?? 502,
+        message: String(details.message || 'Error del proveedor de IA.'),
+        name: error instanceof ApiError ? error.name : undefined,
+        retryAfterSeconds: typeof details.retryAfterSeconds === 'number' ? details.retryAfterSeconds : undefined,
+    };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, payload: ProxyErrorPayload) => {
+    sendJson(res, payload.status, payload, payload.retryAfterSeconds ? { 'Retry-After': String(payload.retryAfterSeconds) } : {});
+};
+
+const isChatTurn = (turn: unknown): turn is ChatTurn =>
+    isObject(turn) && (turn.role === 'user' || turn.role === 'model') && typeof turn.text === 'string';
+
+// Both fields are optional in the request.
+const isChatHistory = (value: unknown): value is ChatTurn[] | undefined =>
+    value === undefined || (Array.isArray(value) && value.every(isChatTurn));
+
+const isAspectRatio = (value: unknown): value is ImageAspectRatio | undefined =>
+    value === undefined || aspectRatios.includes(value as ImageAspectRatio);
+
+export const createApiHandler = ({ config, upstream = createUpstreamFactory(config), log = console.log }: ApiHandlerOptions): ApiHandler => {
+    const limiter = createRateLimiter(config.rateLimit);
+
+    const clientId = (req: IncomingMessage): string => {
+        const forwarded = req.headers['x-forwarded-for'];
+        if (config.trustProxy && typeof forwarded === 'string') {
+            return forwarded.split(',')[0].trim();
+        }
+        return req.socket.remoteAddress || 'unknown';
+    };
+
+    const checkModel = (requested: unknown, allowed: string[], fallback: string): string => {
+        if (requested === undefined || requested === null || requested === '') return fallback;
+        if (typeof requested !== 'string' || !allowed.includes(requested)) {
+            throw new HttpError(403, `El modelo "${String(requested)}" no está permitido en este servidor.`);
+        }
+        return requested;
+    };
+
+    const requirePrompt = (body: RequestBody): string => {
+        const { prompt } = body;
+        if (typeof prompt !== 'string' || !prompt.trim()) {
+            throw new HttpError(400, 'Falta el texto de la solicitud.');
+        }
+        return prompt;
+    };
+
+    // Streams the answer as Server-Sent Events. Headers go out with the first chunk, so a failure
+    // before it is still a plain HTTP error with its status.
+    const handleProcess = async (body: RequestBody, res: ServerResponse, context: RequestContext): Promise<void> => {
+        const prompt = requirePrompt(body);
+        const { history, responseSchema } = body;
+        if (!isChatHistory(history)) {
+            throw new HttpError(400, 'El historial de la conversación no es válido.');
+        }
+        const textModel = checkModel(body.model, config.allowedTextModels, config.textModel);
+        context.model = textModel;
+        const { signal } = context;
+        const provider = upstream({ textModel, imageModel: config.imageModel });
+
+        const send = (event: string | null, data: unknown) => {
+            if (!res.headersSent) {
+                res.writeHead(200, {
+                    'Content-Type': 'text/event-stream; charset=utf-8',
+                    'Cache-Control': 'no-cache, no-transform',
+                    'Connection': 'keep-alive',
+                    'X-Accel-Buffering': 'no',
+                });
+            }
+            res.write(`${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`);
+        };
+
+        try {
+            for await (const chunk of provider.streamText({
+                prompt,
+                history,
+                useSearch: !!body.useSearch,
+                responseSchema: isObject(responseSchema) ? responseSchema : undefined,
+                signal,
+            })) {
+                send(null, chunk);
+            }
+        } catch (error) {
+            if (!res.headersSent || signal.aborted) throw error;
+            send('error', toPayload(error));
+            res.end();
+            return;
+        }
+        send('done', {});
+        res.end();
+    };
+
+    // The provider and default models behind the proxy, so the client names them in cache keys and usage.
+    const handleConfig = async (_body: RequestBody, res: ServerResponse): Promise<void> => {
+        const info: ProxyBackendInfo = { provider: config.upstream, textModel: config.textModel, imageModel: config.imageModel };
+        sendJson(res, 200, info);
+    };
+
+    const handleImage = async (body: RequestBody, res: ServerResponse, context: RequestContext): Promise<void> => {
+        const prompt = requirePrompt(body);
+        const { aspectRatio } = body;
+        const numberOfImages = body.numberOfImages === undefined ? 1 : Number(body.numberOfImages);
+        if (!Number.isInteger(numberOfImages) || numberOfImages < 1 || numberOfImages > 4) {
+            throw new HttpError(400, 'Se pueden pedir entre 1 y 4 imágenes.');
+        }
+        if (!isAspectRatio(aspectRatio)) {
+            throw new HttpError(400, 'La proporción de imagen no es válida.');
+        }
+        const imageModel = checkModel(body.model, config.allowedImageModels, config.imageModel);
+        context.model = imageModel;
+        const provider = upstream({ textModel: config.textModel, imageModel });
+
+        const images = await provider.generateImages({ prompt, numberOfImages, aspectRatio, signal: context.signal });
+        sendJson(res, 200, { images });
+    };
+
+    const routes: Record<string, { method: 'GET' | 'POST'; handle: typeof handleProcess }> = {
+        '/api/config': { method: 'GET', handle: handleConfig },
+        '/api/process': { method: 'POST', handle: handleProcess },
+        '/api/image': { method: 'POST', handle: handleImage },
+    };
+
+    return (req, res, next) => {
+        const path = (req.url || '').split('?')[0];
+        const route = routes[path];
+        if (!route) {
+            if (next) return next();
+            return sendError(res, { status: 404, message: 'Ruta no encontrada.' });
+        }
+
+        const startedAt = Date.now();
+        const client = clientId(req);
+        const controller = new AbortController();
+        const context: RequestContext = { signal: controller.signal, model: '-' };
+        let failure = '';
+
+        // The client went away (cancelled search, closed tab): stop paying for the upstream call.
+        res.on('close', () => {
+            if (!res.writableFinished) controller.abort();
+            // Prompts are not logged: they may contain project details.
+            log(`[api] ${new Date(startedAt).toISOString()} ${client} ${req.method} ${path} ${res.statusCode} ${Date.now() - startedAt}ms model=${context.model}${controller.signal.aborted ? ' aborted' : ''}${failure ? ` error=${failure}` : ''}`);
+        });
+
+        (async () => {
+            if (req.method !== route.method) {
+                throw new HttpError(405, 'Método no permitido.');
+            }
+            const decision = limiter.take(client);
+            if (!decision.allowed) {
+                throw new HttpError(429, 'Se alcanzó el límite de solicitudes. Espere un momento e inténtelo de nuevo.', decision.retryAfterSeconds);
+            }
+            const body = route.method === 'POST' ? await readJsonBody(req, config.maxBodyBytes) : {};
+            if (!isObject(body)) {
+                throw new HttpError(400, 'El cuerpo de la solicitud debe ser un objeto JSON.');
+            }
+            await route.handle(body, res, context);
+        })().catch(error => {
+            const payload = toPayload(error);
+            failure = payload.name || String(payload.status);
+            if (controller.signal.aborted || res.headersSent) {
+                res.end();
+                return;
+            }
+            if (!(error instanceof HttpError)) console.error('Upstream error:', error);
+            sendError(res, payload);
+        });
+    };
+};
@@ -0,0 +1,182 @@
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createApiHandler } from './api';
+import { loadServerConfig } from './config';
+import { createRateLimiter } from './rateLimit';
+import type { UpstreamFactory } from './upstream';
+import type { AIProvider } from '../services/providers';
+import { createMockProvider } from '../services/providers/mockProvider';
+
+// Script-driven checks of the backend against the `mock` upstream: `npm run check:server`.
+// Each check starts its own server on a free port; the first failed assertion stops the run.
+
+const SECRET_PROMPT = 'Proyecto confidencial: zapatas aisladas en la calle 93';
+
+interface Running {
+    url: string;
+    logs: string[];
+    close: () => Promise<void>;
+}
+
+const start = async (env: Record<string, string>, upstream?: UpstreamFactory): Promise<Running> => {
+    const logs: string[] = [];
+    const handler = createApiHandler({ config: loadServerConfig({ AI_PROVIDER: 'mock', ...env }), upstream, log: line => logs.push(line) });
+    const server: Server = createServer((req, res) => handler(req, res));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return {
+        url: `http://127.0.0.1:${port}`,
+        logs,
+        close: () => new Promise(resolve => server.close(() => resolve())),
+    };
+};
+
+const post = (url: string, body: unknown) =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+// "event: x\ndata: {...}" blocks, in order.
+const readEvents = (text: string): { event: string | null; data: any }[] =>
+    text.split('\n\n').filter(Boolean).map(block => {
+        const event = block.match(/^event: (.*)$/m)?.[1] ?? null;
+        const data = block.match(/^data: (.*)$/m)?.[1];
+        assert.ok(data !== undefined, `SSE block without data: ${block}`);
+        return { event, data: JSON.parse(data) };
+    });
+
+// The log line is written when the response closes, shortly after the client has read it.
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+const checks: Record<string, () => Promise<void>> = {
+    'rate limiter: fixed window per client': async () => {
+        let time = 0;
+        const limiter = createRateLimiter({ windowMs: 10_000, maxRequests: 2 }, () => time);
+        assert.equal(limiter.take('a').allowed, true);
+        assert.equal(limiter.take('a').allowed, true);
+        time = 4_000;
+        assert.deepEqual(limiter.take('a'), { allowed: false, retryAfterSeconds: 6 });
+        assert.equal(limiter.take('b').allowed, true);
+        time = 10_000;
+        assert.equal(limiter.take('a').allowed, true);
+    },
+
+    'SSE framing: chunks, then done': async () => {
+        const server = await start({});
+        try {
+            const response = await post(`${server.url}/api/process`, { prompt: SECRET_PROMPT, useSearch: true });
+            assert.equal(response.status, 200);
+            assert.match(response.headers.get('content-type') || '', /^text\/event-stream/);
+            const events = readEvents(await response.text());
+            const chunks = events.filter(event => event.event === null);
+            assert.ok(chunks.length > 1, 'expected several data events');
+            assert.ok(chunks.map(event => event.data.text || '').join('').length > 0, 'expected streamed text');
+            assert.equal(chunks[chunks.length - 1].data.finishReason, 'stop');
+            assert.deepEqual(events[events.length - 1], { event: 'done', data: {} });
+        } finally {
+            await server.close();
+        }
+    },
+
+    'SSE framing: a mid-stream failure ends with an error event': async () => {
+        const failing: AIProvider = {
+            ...createMockProvider({ latencyMs: 0 }),
+            async *streamText() {
+                yield { text: 'Primer fragmento' };
+                throw Object.assign(new Error('Upstream se cayó'), { status: 503 });
+            },
+        };
+        const server = await start({}, () => failing);
+        try {
+            const response = await post(`${server.url}/api/process`, { prompt: 'x' });
+            assert.equal(response.status, 200);
+            const events = readEvents(await response.text());
+            assert.deepEqual(events[0], { event: null, data: { text: 'Primer fragmento' } });
+            assert.equal(events[events.length - 1].event, 'error');
+            assert.equal(events[events.length - 1].data.status, 503);
+        } finally {
+            await server.close();
+        }
+    },
+
+    'config: names the upstream and its default models': async () => {
+        const server = await start({ TEXT_MODEL: 'mock-text-large' });
+        try {
+            const response = await fetch(`${server.url}/api/config`);
+            assert.equal(response.status, 200);
+            assert.deepEqual(await response.json(), { provider: 'mock', textModel: 'mock-text-large', imageModel: 'mock-image' });
+            assert.equal((await post(`${server.url}/api/config`, {})).status, 405);
+        } finally {
+            await server.close();
+        }
+    },
+
+    'model allow-list: other models get 403': async () => {
+        const server = await start({ ALLOWED_TEXT_MODELS: 'mock-text-large' });
+        try {
+            assert.equal((await post(`${server.url}/api/process`, { prompt: 'x', model: 'mock-text-large' })).status, 200);
+            const rejected = await post(`${server.url}/api/process`, { prompt: 'x', model: 'gpt-pago' });
+            assert.equal(rejected.status, 403);
+            assert.match((await rejected.json()).message, /gpt-pago/);
+            assert.equal((await post(`${server.url}/api/image`, { prompt: 'x', model: 'otro-modelo' })).status, 403);
+        } finally {
+            await server.close();
+        }
+    },
+
+    'request body: oversized gets 413, not a reset connection': async () => {
+        const server = await start({});
+        try {
+            const response = await post(`${server.url}/api/process`, { prompt: 'x'.repeat(2 * 1024 * 1024) });
+            assert.equal(response.status, 413);
+            assert.match((await response.json()).message, /demasiado grande/);
+            assert.equal((await post(`${server.url}/api/process`, ['x'])).status, 400);
+        } finally {
+            await server.close();
+        }
+    },
+
+    'rate limit: 429 with Retry-After': async () => {
+        const server = await start({ RATE_LIMIT_MAX_REQUESTS: '2', RATE_LIMIT_WINDOW_SECONDS: '60' });
+        try {
+            for (let i = 0; i < 2; i++) {
+                const response = await post(`${server.url}/api/image`, { prompt: 'x' });
+                assert.equal(response.status, 200);
+                await response.arrayBuffer();
+            }
+            const limited = await post(`${server.url}/api/image`, { prompt: 'x' });
+            assert.equal(limited.status, 429);
+            assert.ok(Number(limited.headers.get('retry-after')) > 0, 'expected a Retry-After header');
+        } finally {
+            await server.close();
+        }
+    },
+
+    'request log: one line per request, never the prompt': async () => {
+        const server = await start({});
+        try {
+            await (await post(`${server.url}/api/process`, { prompt: SECRET_PROMPT })).text();
+            await (await post(`${server.url}/api/process`, { prompt: SECRET_PROMPT, model: 'no-permitido' })).text();
+            await settle();
+            assert.equal(server.logs.length, 2);
+            assert.match(server.logs[0], /POST \/api\/process 200 .*model=mock-text/);
+            assert.match(server.logs[1], /POST \/api\/process 403 /);
+            for (const line of server.logs) {
+                assert.ok(!line.includes('confidencial') && !line.includes('calle 93'), `prompt leaked into the log: ${line}`);
+            }
+        } finally {
+            await server.close();
+        }
+    },
+};
+
+let failed = 0;
+for (const [name, check] of Object.entries(checks)) {
+    try {
+        await check();
+        console.log(`ok   ${name}`);
+    } catch (error) {
+        failed++;
+        console.error(`FAIL ${name}\n${error instanceof Error ? error.stack : error}`);
+    }
+}
+process.exitCode = failed > 0 ? 1 : 0;
@@ -0,0 +1,63 @@
+export type UpstreamName = 'gemini' | 'mock' | 'openai';
+
+export interface ServerConfig {
+    port: number;
+    upstream: UpstreamName;
+    geminiApiKey?: string;
+    openAIBaseUrl: string;
+    openAIApiKey?: string;
+    // Used when the client does not ask for a model.
+    textModel: string;
+    imageModel: string;
+    // Models a client may ask for. The defaults are always allowed.
+    allowedTextModels: string[];
+    allowedImageModels: string[];
+    rateLimit: {
+        windowMs: number;
+        maxRequests: number;
+    };
+    // Take the client address from X-Forwarded-For, when the server runs behind a reverse proxy.
+    trustProxy: boolean;
+    // Request bodies larger than this are rejected; a follow-up seeded with a long guide is well below.
+    maxBodyBytes: number;
+}
+
+const defaultModels: Record<UpstreamName, { text: string; image: string }> = {
+    gemini: { text: 'gemini-2.5-flash', image: 'imagen-4.0-generate-001' },
+    openai: { text: 'llama3.1', image: 'dall-e-3' },
+    mock: { text: 'mock-text', image: 'mock-image' },
+};
+
+const list = (value: string | undefined): string[] =>
+    (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+const positiveNumber = (value: string | undefined, fallback: number): number => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Reads the same variables as `.env.local`; the keys are only ever read here, never by the client.
+export const loadServerConfig = (env: Record<string, string | undefined> = process.env): ServerConfig => {
+    const requested = (env.AI_PROVIDER || 'gemini').toLowerCase();
+    const upstream: UpstreamName = requested === 'mock' || requested === 'openai' ? requested : 'gemini';
+    const textModel = env.TEXT_MODEL || defaultModels[upstream].text;
+    const imageModel = env.IMAGE_MODEL || defaultModels[upstream].image;
+
+    return {
+        port: positiveNumber(env.PORT, 8787),
+        upstream,
+        geminiApiKey: env.GEMINI_API_KEY || env.API_KEY,
+        openAIBaseUrl: env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        openAIApiKey: env.OPENAI_API_KEY,
+        textModel,
+        imageModel,
+        allowedTextModels: [...new Set([textModel, ...list(env.ALLOWED_TEXT_MODELS)])],
+        allowedImageModels: [...new Set([imageModel, ...list(env.ALLOWED_IMAGE_MODELS)])],
+        rateLimit: {
+            windowMs: positiveNumber(env.RATE_LIMIT_WINDOW_SECONDS, 60) * 1000,
+            maxRequests: positiveNumber(env.RATE_LIMIT_MAX_REQUESTS, 30),
+        },
+        trustProxy: env.TRUST_PROXY === 'true',
+        maxBodyBytes: 1024 * 1024,
+    };
+};
@@ -0,0 +1,17 @@
+import { existsSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { createApiHandler } from './api';
+import { loadServerConfig } from './config';
+
+// Standalone backend, for deployments where the built app is served by another web server that
+// forwards /api here. In development the same handler runs inside Vite (see server/vitePlugin.ts).
+if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local');
+}
+
+const config = loadServerConfig();
+const handler = createApiHandler({ config });
+
+createServer((req, res) => handler(req, res)).listen(config.port, () => {
+    console.log(`[api] Listening on http://localhost:${config.port} (upstream: ${config.upstream}, models: ${config.textModel}, ${config.imageModel})`);
+});
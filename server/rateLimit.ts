@@ -0,0 +1,39 @@
+export interface RateLimitDecision {
+    allowed: boolean;
+    // Seconds until the client may try again, when it is not allowed.
+    retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+    take(clientId: string): RateLimitDecision;
+}
+
+// Fixed window per client: at most `maxRequests` in each `windowMs`. Kept in memory, which is
+// enough for a single instance; expired windows are dropped as new requests come in.
+export const createRateLimiter = ({ windowMs, maxRequests }: { windowMs: number; maxRequests: number }, now: () => number = Date.now): RateLimiter => {
+    const windows = new Map<string, { startedAt: number; count: number }>();
+
+    const prune = (time: number) => {
+        for (const [clientId, window] of windows) {
+            if (time - window.startedAt >= windowMs) windows.delete(clientId);
+        }
+    };
+
+    const take = (clientId: string): RateLimitDecision => {
+        const time = now();
+        if (windows.size > 1000) prune(time);
+
+        let window = windows.get(clientId);
+        if (!window || time - window.startedAt >= windowMs) {
+            window = { startedAt: time, count: 0 };
+            windows.set(clientId, window);
+        }
+        if (window.count >= maxRequests) {
+            return { allowed: false, retryAfterSeconds: Math.ceil((window.startedAt + windowMs - time) / 1000) };
+        }
+        window.count++;
+        return { allowed: true, retryAfterSeconds: 0 };
+    };
+
+    return { take };
+};
@@ -0,0 +1,33 @@
+import type { AIProvider } from '../services/providers';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { createOpenAICompatibleProvider } from '../services/providers/openAICompatibleProvider';
+import type { ServerConfig } from './config';
+
+export type UpstreamFactory = (models: { textModel: string; imageModel: string }) => AIProvider;
+
+// The provider the backend forwards to. `mock` is the local stub upstream: recorded answers
+// without key or network, for development and tests.
+export const createUpstreamFactory = (config: ServerConfig): UpstreamFactory => {
+    const providers = new Map<string, AIProvider>();
+
+    return ({ textModel, imageModel }) => {
+        const key = `${textModel}|${imageModel}`;
+        let provider = providers.get(key);
+        if (!provider) {
+            switch (config.upstream) {
+                case 'mock':
+                    provider = createMockProvider({ latencyMs: 20 });
+                    break;
+                case 'openai':
+                    provider = createOpenAICompatibleProvider({ baseUrl: config.openAIBaseUrl, apiKey: config.openAIApiKey, textModel, imageModel });
+                    break;
+                case 'gemini':
+                    provider = createGeminiProvider({ apiKey: config.geminiApiKey, textModel, imageModel });
+                    break;
+            }
+            providers.set(key, provider);
+        }
+        return provider;
+    };
+};
@@ -0,0 +1,17 @@
+import type { Plugin } from 'vite';
+import { createApiHandler } from './api';
+import type { ServerConfig } from './config';
+
+// Mounts the backend on the Vite dev and preview servers, so `npm run dev` needs no second process.
+export const apiPlugin = (config: ServerConfig): Plugin => {
+    const handler = createApiHandler({ config });
+    return {
+        name: 'guia-api',
+        configureServer(server) {
+            server.middlewares.use(handler);
+        },
+        configurePreviewServer(server) {
+            server.middlewares.use(handler);
+        },
+    };
+};
@@ -0,0 +1,110 @@
+import type { SearchResult } from '../types';
+import type { PromptTemplateRef } from '../data/promptTemplates';
+import { requestToPromise, withStore } from './db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const cacheConfig = {
+    textTtlMs: 14 * DAY_MS,
+    imageTtlMs: 30 * DAY_MS,
+    // Total size of the stored images (base64 data URLs). The least recently used ones are evicted first.
+    maxImageBytes: 40 * 1024 * 1024,
+};
+
+interface CachedText {
+    key: string;
+    query: string;
+    result: SearchResult;
+    createdAt: number;
+    lastAccess: number;
+}
+
+interface CachedImage {
+    key: string;
+    query: string;
+    imageUrl: string;
+    // Template version of the prompt that produced the illustration.
+    template: PromptTemplateRef;
+    size: number;
+    createdAt: number;
+    lastAccess: number;
+}
+
+export const normalizeQuery = (query: string): string => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const isExpired = (createdAt: number, ttlMs: number) => Date.now() - createdAt > ttlMs;
+
+// The cache is an optimisation: storage failures (private browsing, quota) are logged and ignored.
+const safely = async <T>(operation: () => Promise<T>, fallback: T): Promise<T> => {
+    try {
+        return await operation();
+    } catch (error) {
+        console.warn("Cache operation failed:", error);
+        return fallback;
+    }
+};
+
+export const getCachedText = (key: string): Promise<SearchResult | null> => safely(() =>
+    withStore('texts', 'readwrite', async (store) => {
+        const entry = await requestToPromise<CachedText | undefined>(store.get(key));
+        if (!entry) return null;
+        if (isExpired(entry.createdAt, cacheConfig.textTtlMs)) {
+            store.delete(key);
+            return null;
+        }
+        store.put({ ...entry, lastAccess: Date.now() });
+        return entry.result;
+    }), null);
+
+export const putCachedText = (key: string, query: string, result: SearchResult): Promise<void> => safely(() =>
+    withStore('texts', 'readwrite', async (store) => {
+        const now = Date.now();
+        const entry: CachedText = { key, query, result, createdAt: now, lastAccess: now };
+        await requestToPromise(store.put(entry));
+    }), undefined);
+
+export const getCachedImage = (key: string): Promise<string | null> => safely(() =>
+    withStore('images', 'readwrite', async (store) => {
+        const entry = await requestToPromise<CachedImage | undefined>(store.get(key));
+        if (!entry) return null;
+        if (isExpired(entry.createdAt, cacheConfig.imageTtlMs)) {
+            store.delete(key);
+            return null;
+        }
+        store.put({ ...entry, lastAccess: Date.now() });
+        return entry.imageUrl;
+    }), null);
+
+export const putCachedImage = (key: string, query: string, imageUrl: string, template: PromptTemplateRef): Promise<void> => safely(() =>
+    withStore('images', 'readwrite', async (store) => {
+        const now = Date.now();
+        const entry: CachedImage = { key, query, imageUrl, template, size: imageUrl.length, createdAt: now, lastAccess: now };
+        await requestToPromise(store.put(entry));
+
+        // Oldest access first, thanks to the index order.
+        const entries = await requestToPromise<CachedImage[]>(store.index('lastAccess').getAll());
+        let total = entries.reduce((sum, image) => sum + image.size, 0);
+        for (const image of entries) {
+            if (total <= cacheConfig.maxImageBytes) break;
+            if (image.key === key) continue;
+            store.delete(image.key);
+            total -= image.size;
+        }
+    }), undefined);
+
+// Manual invalidation ("Regenerar"): drops both entries so the next search calls the model again.
+export const invalidateCached = (keys: { text: string; image: string }): Promise<void> => safely(async () => {
+    await withStore('texts', 'readwrite', async (store) => { store.delete(keys.text); });
+    await withStore('images', 'readwrite', async (store) => { store.delete(keys.image); });
+}, undefined);
+
+// Which of the given text keys still have a fresh entry, without touching their last access.
+export const findCachedTexts = (keys: string[]): Promise<Set<string>> => safely(() =>
+    withStore('texts', 'readonly', async (store) => {
+        const found = new Set<string>();
+        await Promise.all(keys.map(async key => {
+            const entry = await requestToPromise<CachedText | undefined>(store.get(key));
+            if (entry && !isExpired(entry.createdAt, cacheConfig.textTtlMs)) found.add(key);
+        }));
+        return found;
+    }), new Set<string>());
@@ -0,0 +1,23 @@
+import type { InspectionChecklist } from '../types';
+import { requestToPromise, withStore } from './db';
+
+// Inspection records are the user's own work, so storage failures propagate to the caller.
+
+// Latest inspection first.
+export const listChecklists = (normalizedQuery: string): Promise<InspectionChecklist[]> =>
+    withStore('checklists', 'readonly', async (store) => {
+        const checklists = await requestToPromise<InspectionChecklist[]>(store.index('query').getAll(normalizedQuery));
+        return checklists.sort((a, b) => b.createdAt - a.createdAt);
+    });
+
+export const saveChecklist = (checklist: InspectionChecklist): Promise<InspectionChecklist> =>
+    withStore('checklists', 'readwrite', async (store) => {
+        const saved: InspectionChecklist = { ...checklist, updatedAt: Date.now() };
+        await requestToPromise(store.put(saved));
+        return saved;
+    });
+
+export const deleteChecklist = (id: string): Promise<void> =>
+    withStore('checklists', 'readwrite', async (store) => {
+        await requestToPromise(store.delete(id));
+    });
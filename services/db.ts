@@ -0,0 +1,71 @@
+const DB_NAME = 'guia-procesos-constructivos';
+const DB_VERSION = 5;
+
+export type StoreName = 'texts' | 'images' | 'projects' | 'checklists' | 'usage' | 'history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Each schema version only adds what it introduces, so older databases are upgraded step by step.
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+    if (oldVersion < 1) {
+        db.createObjectStore('texts', { keyPath: 'key' });
+        const images = db.createObjectStore('images', { keyPath: 'key' });
+        images.createIndex('lastAccess', 'lastAccess');
+    }
+    if (oldVersion < 2) {
+        db.createObjectStore('projects', { keyPath: 'id' });
+    }
+    if (oldVersion < 3) {
+        const checklists = db.createObjectStore('checklists', { keyPath: 'id' });
+        checklists.createIndex('query', 'query');
+    }
+    if (oldVersion < 4) {
+        const usage = db.createObjectStore('usage', { keyPath: 'id' });
+        usage.createIndex('day', 'day');
+    }
+    if (oldVersion < 5) {
+        db.createObjectStore('history', { keyPath: 'query' });
+    }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this environment.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry instead of caching the failure forever.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Runs `work` inside a transaction and resolves with its result once the transaction commits.
+export const withStore = async <T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => Promise<T>,
+): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await work(transaction.objectStore(storeName));
+    await done;
+    return result;
+};
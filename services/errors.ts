@@ -1,39 +1,108 @@
+import { t } from '../i18n';
+
+// What the user can do about an error. The UI turns it into a hint and, for `retry`, a button.
+// `automatic` is false when another identical attempt is unlikely to help on its own, so only the user retries.
+export type RecoveryAction =
+    | { kind: 'retry'; retryAfterSeconds: number | null; automatic: boolean }
+    | { kind: 'rephrase' }
+    | { kind: 'contact-admin' };
+
+export const retryRecovery = (retryAfterSeconds: number | null = null, automatic = true): RecoveryAction => ({ kind: 'retry', retryAfterSeconds, automatic });
+
+// Default messages are read from the active UI language when the error is created. Only errors
+// that opt in with `retryRecovery` (network, 5xx, rate limits) are retried automatically; empty
+// and truncated responses offer the user a retry button instead.
 export class ApiError extends Error {
-    constructor(message: string) {
+    readonly recovery: RecoveryAction | null;
+
+    constructor(message: string, recovery: RecoveryAction | null = null) {
         super(message);
         Object.setPrototypeOf(this, new.target.prototype);
         this.name = 'ApiError';
+        this.recovery = recovery;
     }
 }
 
 export class NetworkError extends ApiError {
-    constructor(message: string = "Error de red. Por favor, revise su conexión a internet e inténtelo de nuevo.") {
-        super(message);
+    constructor(message: string = t('errors.network')) {
+        super(message, retryRecovery());
         Object.setPrototypeOf(this, new.target.prototype);
         this.name = 'NetworkError';
     }
 }
 
 export class InvalidQueryError extends ApiError {
-    constructor(message: string = "La consulta es inválida o no se pudo procesar. Pruebe con una búsqueda diferente.") {
-        super(message);
+    constructor(message: string = t('errors.invalidQuery')) {
+        super(message, { kind: 'rephrase' });
         Object.setPrototypeOf(this, new.target.prototype);
         this.name = 'InvalidQueryError';
     }
 }
 
 export class ServiceUnavailableError extends ApiError {
-    constructor(message: string = "El servicio no está disponible en este momento. Por favor, intente más tarde.") {
-        super(message);
+    constructor(message: string = t('errors.serviceUnavailable')) {
+        super(message, retryRecovery());
         Object.setPrototypeOf(this, new.target.prototype);
         this.name = 'ServiceUnavailableError';
     }
 }
 
 export class NoApiKeyError extends ApiError {
-    constructor(message: string = "La clave de API no está configurada. Contacte al administrador de la aplicación.") {
-        super(message);
+    constructor(message: string = t('errors.noApiKey')) {
+        super(message, { kind: 'contact-admin' });
         Object.setPrototypeOf(this, new.target.prototype);
         this.name = 'NoApiKeyError';
     }
 }
+
+export class SearchCancelledError extends ApiError {
+    constructor(message: string = t('errors.cancelled')) {
+        super(message, null);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'SearchCancelledError';
+    }
+}
+
+// HTTP 429 / RESOURCE_EXHAUSTED: too many requests per minute, or the project quota is spent.
+export class RateLimitError extends ApiError {
+    readonly retryAfterSeconds: number | null;
+
+    constructor(retryAfterSeconds: number | null = null, message: string = t('errors.rateLimit')) {
+        super(message, retryRecovery(retryAfterSeconds));
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'RateLimitError';
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+export class SafetyBlockedError extends ApiError {
+    constructor(message: string = t('errors.safetyBlocked')) {
+        super(message, { kind: 'rephrase' });
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+export class UnsupportedRegionError extends ApiError {
+    constructor(message: string = t('errors.unsupportedRegion')) {
+        super(message, { kind: 'contact-admin' });
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'UnsupportedRegionError';
+    }
+}
+
+export class EmptyResponseError extends ApiError {
+    constructor(message: string = t('errors.emptyResponse')) {
+        super(message, retryRecovery(null, false));
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'EmptyResponseError';
+    }
+}
+
+export class TruncatedResponseError extends ApiError {
+    constructor(message: string = t('errors.truncatedResponse')) {
+        super(message, retryRecovery(null, false));
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'TruncatedResponseError';
+    }
+}
@@ -1,38 +1,83 @@
 
-import { GoogleGenAI } from "@google/genai";
-import type { GroundingChunk } from '../types';
-import { NetworkError, InvalidQueryError, ServiceUnavailableError, NoApiKeyError, ApiError } from './errors';
-
-// Using gemini-2.5-flash for faster text responses.
-const textModel = 'gemini-2.5-flash';
-// Using Imagen for higher quality and better control over image generation.
-const imageModel = 'imagen-4.0-generate-001';
-
-const getGenAI = (): GoogleGenAI => {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-        throw new NoApiKeyError();
-    }
-    return new GoogleGenAI({ apiKey });
-}
+import type { GroundingChunk, ProcessGuide, QualityIssue, QualityReport, SearchResult, UsageKind } from '../types';
+import {
+    NetworkError,
+    InvalidQueryError,
+    ServiceUnavailableError,
+    ApiError,
+    SearchCancelledError,
+    RateLimitError,
+    UnsupportedRegionError,
+    SafetyBlockedError,
+    EmptyResponseError,
+    TruncatedResponseError,
+} from './errors';
+import { getAIProvider, type ChatTurn, type FinishReason, type ImageAspectRatio, type TextGenerationRequest, type TokenUsage } from './providers';
+import { withRetry } from './retry';
+import { normalizeQuery } from './cacheStore';
+import { recordUsage } from './usageStore';
+import { buildStructuringPrompt, parseProcessGuideMarkdown, processGuideSchema, validateProcessGuide } from './processGuide';
+import { jurisdictionOf, jurisdictions, type JurisdictionId } from '../data/jurisdictions';
+import { languageOf, t, type Locale, type MessageKey } from '../i18n';
+import { loadPromptTemplate } from './promptTemplateStore';
+import { coreSections, type PromptTemplate, type PromptTemplateRef } from '../data/promptTemplates';
+import { formatSectionList, renderTemplate } from '../utils/promptTemplate';
+import { checkGuideQuality, mergeRepairedSections, sectionTitle } from '../utils/guideQuality';
+
+// Cache keys for the text and the illustration of a query, tied to the provider, model, prompt
+// template version and jurisdiction profile. The text also depends on the language it is written in.
+export const getCacheKeys = (query: string, jurisdiction: JurisdictionId, language: Locale): { text: string; image: string } => {
+    const provider = getAIProvider();
+    const normalizedQuery = normalizeQuery(query);
+    return {
+        text: `${provider.name}:${provider.textModel}|v${loadPromptTemplate('guide').version}|${jurisdiction}|${language}|${normalizedQuery}`,
+        image: `${provider.name}:${provider.imageModel}|v${loadPromptTemplate('image').version}|${jurisdiction}|${normalizedQuery}`,
+    };
+};
 
-const handleApiError = (error: any): never => {
-    console.error("Gemini API Error:", error);
+const isAbortError = (error: any, signal?: AbortSignal): boolean =>
+    !!signal?.aborted || error?.name === 'AbortError';
+
+// Seconds to wait before retrying, from a Retry-After header (OpenAI-compatible servers) or
+// the RetryInfo detail Gemini embeds in the error message ("retryDelay": "31s").
+const retryAfterSeconds = (error: any): number | null => {
+    if (typeof error.retryAfterSeconds === 'number') return error.retryAfterSeconds;
+    const match = String(error.message || '').match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.ceil(Number(match[1])) : null;
+};
+
+const handleApiError = (error: any, signal?: AbortSignal): never => {
+    // A cancelled request is not a failure of the provider, so it is neither logged nor mapped.
+    if (isAbortError(error, signal)) {
+        throw new SearchCancelledError();
+    }
 
     if (error instanceof ApiError) {
         throw error;
     }
-    
+
+    console.error(`AI provider error (${getAIProvider().name}):`, error);
+
+    const message = String(error.message || '').toLowerCase();
+
     // Check for network errors first
-    if (error.message.toLowerCase().includes('network') || error.message.toLowerCase().includes('failed to fetch')) {
+    if (message.includes('network') || message.includes('failed to fetch')) {
         throw new NetworkError();
     }
     
     const status = error.httpStatus || error.status || (error.e && error.e.code);
+
+    if (status === 429 || status === 'RESOURCE_EXHAUSTED' || message.includes('resource_exhausted')) {
+        throw new RateLimitError(retryAfterSeconds(error));
+    }
+    // Imagen answers FAILED_PRECONDITION from countries where it is not offered.
+    if (/location is not supported|not (available|supported) in your (country|region)/.test(message)) {
+        throw new UnsupportedRegionError();
+    }
     
     if (status) {
         if (status === 400 || status === 'INVALID_ARGUMENT') {
-            throw new InvalidQueryError("La consulta es inválida o el modelo no pudo procesarla. Por favor, reformule su búsqueda.");
+            throw new InvalidQueryError(t('errors.invalidQueryModel'));
         }
         if (status >= 500 || status === 'UNAVAILABLE') {
             throw new ServiceUnavailableError();
@@ -40,95 +85,329 @@ const handleApiError = (error: any): never => {
     }
     
     // Fallback for other errors
-    throw new ApiError("Ocurrió un error inesperado al comunicarse con el servicio de IA.");
+    throw new ApiError(t('errors.unexpected'), { kind: 'contact-admin' });
 }
 
 
+// How the prompts name the language a guide is written in.
+const guideLanguageNames: Record<Locale, string> = { es: 'español', en: 'inglés' };
+
+// The guide prompt for a query, from the active template unless one is given (the "Plantillas" preview).
+export const buildGuidePrompt = (query: string, jurisdiction: JurisdictionId, language: Locale, template: PromptTemplate = loadPromptTemplate('guide')): string => {
+    const profile = jurisdictions[jurisdiction];
+    return renderTemplate(template.body, {
+        query,
+        country: profile.country,
+        regulation: profile.regulation,
+        codes: profile.codes.map(code => `*   ${code.name}`).join('\n'),
+        citationFormat: profile.citationFormat,
+        citationExample: profile.citationExample,
+        units: profile.units,
+        language: guideLanguageNames[language],
+        languageNote: language === 'es'
+            ? 'Escribe todo en español.'
+            : `Escribe todo en ${guideLanguageNames[language]}, pero conserva los nombres de las normas y las citas exactamente en su forma original en español, por ejemplo ${profile.citationExample}.`,
+        sections: formatSectionList(template.extraSections, language),
+        normsTitle: coreSections.norms.titles[language],
+    });
+};
+
 export async function fetchConstructionProcess(
     query: string,
-    onStream: (textChunk: string) => void
-): Promise<{ sources: GroundingChunk[] }> {
-    const ai = getGenAI();
+    jurisdiction: JurisdictionId,
+    language: Locale,
+    onStream: (textChunk: string) => void,
+    signal?: AbortSignal
+): Promise<{ sources: GroundingChunk[]; guide: ProcessGuide | null; template: PromptTemplateRef; quality: QualityReport }> {
+    const template = loadPromptTemplate('guide');
+    const prompt = buildGuidePrompt(query, jurisdiction, language, template);
 
-    const prompt = `
-        Eres un asistente experto en ingeniería civil y arquitectura especializado en normatividad de construcción colombiana.
-
-        Para la siguiente actividad de construcción: "${query}"
-
-        Genera una respuesta detallada y técnica en español con la siguiente estructura:
-        
-        1.  **Descripción del Proceso:** Una explicación clara y concisa de la actividad.
-        2.  **Pasos Clave para el Éxito:** Una lista numerada de los pasos más importantes a seguir, en orden cronológico.
-        3.  **Parámetros y Materiales:** Información puntual, exacta y precisa sobre materiales, dosificaciones y control de calidad.
-        4.  **Normatividad Aplicable:** Un apartado específico y claro bajo este título exacto. Aquí debes resumir las normas clave que aplican al proceso descrito, explicando brevemente su incumbencia.
-
-        **REQUISITOS INDISPENSABLES:**
-        *   **Citas Inline:** Toda la información en los puntos 1, 2 y 3 debe estar rigurosamente soportada y citar explícitamente las normas colombianas cuando apliquen. Para cada paso, parámetro, material o dosificación, debes indicar de forma explícita y junto a la descripción, cuál norma específica (y si es posible, qué artículo o sección) lo respalda. Por ejemplo: "El concreto debe tener una resistencia de 21 MPa (NSR-10, Título C.5.2)". La conexión entre la información y la norma debe ser directa e inequívoca.
-        *   **Condicional de Normatividad:** Si después de tu análisis, ninguna de las normativas de la lista aplica directamente al proceso consultado, DEBES OMITIR POR COMPLETO la sección "Normatividad Aplicable". No escribas "No aplica" ni nada similar; simplemente no incluyas el título ni la sección.
-        *   **Formato Markdown:** Utiliza formato Markdown para la respuesta. Usa encabezados de nivel 1 (#) y 2 (##) únicamente. No uses encabezados de nivel 3 (###) o inferiores.
-
-        **Lista de normativas de referencia obligatoria:**
-        *   NSR-10
-        *   Normas Técnicas Colombianas (NTC)
-        *   Normas ICONTEC
-        *   Reglamento Técnico del Sector de Agua Potable y Saneamiento Básico (RAS)
-        *   Reglamento Técnico de Instalaciones Eléctricas (RETIE)
-        *   Reglamento Técnico de Iluminación y Alumbrado Público (RETILAP)
-        *   Reglamento Técnico para Redes Internas de Telecomunicaciones (RITEL)
-    `;
-    
     try {
-        const resultStream = await ai.models.generateContentStream({
-            model: textModel,
-            contents: prompt,
-            config: {
-                tools: [{ googleSearch: {} }],
-            },
-        });
-    
-        let sources: GroundingChunk[] = [];
-        for await (const chunk of resultStream) {
-            onStream(chunk.text);
-            if (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-                sources = chunk.candidates[0].groundingMetadata.groundingChunks as GroundingChunk[];
+        const { text, sources } = await streamCheckedText({ prompt, useSearch: true, signal }, onStream, { query, kind: 'text' });
+        const guide = await structureProcessGuide(text, query, jurisdiction, language, signal);
+        signal?.throwIfAborted();
+        const quality = checkGuideQuality(text, { jurisdiction, extraSections: template.extraSections });
+        return { sources, guide, template: { id: template.id, version: template.version }, quality };
+
+    } catch (error) {
+        handleApiError(error, signal);
+    }
+}
+
+
+interface UsageMeter {
+    query: string;
+    kind: Extract<UsageKind, 'text' | 'structure' | 'follow-up' | 'repair'>;
+}
+
+// Recording is fire-and-forget: it never delays nor fails the answer.
+const meterText = ({ query, kind }: UsageMeter, usage: TokenUsage) => {
+    const provider = getAIProvider();
+    recordUsage({ query: normalizeQuery(query), kind, provider: provider.name, model: provider.textModel, ...usage });
+};
+
+// Streams one answer and rejects it when it was blocked, empty or cut short. Once text has
+// reached the screen a retry would repeat it, so only failures before the first chunk are
+// retried automatically.
+async function streamCheckedText(
+    request: TextGenerationRequest,
+    onStream: (textChunk: string) => void,
+    meter: UsageMeter
+): Promise<{ text: string; sources: GroundingChunk[] }> {
+    const provider = getAIProvider();
+    let hasStreamed = false;
+
+    const streamOnce = async (): Promise<{ text: string; sources: GroundingChunk[] }> => {
+        let usage: TokenUsage | undefined;
+        try {
+            let sources: GroundingChunk[] = [];
+            let text = '';
+            let finishReason: FinishReason | undefined;
+            for await (const chunk of provider.streamText(request)) {
+                if (chunk.usage) {
+                    usage = chunk.usage;
+                }
+                if (chunk.text) {
+                    hasStreamed = true;
+                    onStream(chunk.text);
+                    text += chunk.text;
+                }
+                if (chunk.sources) {
+                    sources = chunk.sources;
+                }
+                if (chunk.finishReason) {
+                    finishReason = chunk.finishReason;
+                }
+            }
+
+            if (finishReason === 'safety') {
+                throw new SafetyBlockedError();
             }
+            if (!text.trim()) {
+                throw new EmptyResponseError();
+            }
+            if (finishReason !== 'stop') {
+                throw new TruncatedResponseError();
+            }
+            return { text, sources };
+
+        } catch (error) {
+            handleApiError(error, request.signal);
+        } finally {
+            // Rejected answers (blocked, truncated) are billed all the same.
+            if (usage) meterText(meter, usage);
         }
-        return { sources };
+    };
+
+    return withRetry(streamOnce, { signal: request.signal, canRetry: () => !hasStreamed });
+}
+
+
+// The guide and its sources open the conversation, so every answer builds on what the engineer
+// has already read instead of starting over.
+const buildFollowUpSeed = (query: string, result: SearchResult): ChatTurn[] => {
+    const { regulation } = jurisdictionOf(result);
+    const sources = result.sources.map((source, index) => `${index + 1}. ${source.web.title || source.web.uri} — ${source.web.uri}`);
+    return [
+        {
+            role: 'user',
+            text: `Generaste la siguiente guía de proceso constructivo para la actividad "${query}", basada en la ${regulation}.\n\n${result.text.trim()}${sources.length ? `\n\nFuentes consultadas:\n${sources.join('\n')}` : ''}`,
+        },
+        { role: 'model', text: 'Entendido. Responderé las preguntas de seguimiento sobre esta guía.' },
+    ];
+};
+
+export interface FollowUpTurn {
+    question: string;
+    answer: string;
+}
+
+// Answers a question about a generated guide, in the context of the guide and of the earlier
+// questions of the same conversation.
+export async function askFollowUp(
+    { query, result }: { query: string; result: SearchResult },
+    previousTurns: FollowUpTurn[],
+    question: string,
+    onStream: (textChunk: string) => void,
+    signal?: AbortSignal
+): Promise<{ text: string; sources: GroundingChunk[] }> {
+    const profile = jurisdictionOf(result);
+    const history: ChatTurn[] = [
+        ...buildFollowUpSeed(query, result),
+        ...previousTurns.flatMap((turn): ChatTurn[] => [
+            { role: 'user', text: turn.question },
+            { role: 'model', text: turn.answer },
+        ]),
+    ];
 
+    const prompt = `
+        PREGUNTA DE SEGUIMIENTO sobre la guía anterior: "${question}"
+
+        Responde en ${guideLanguageNames[languageOf(result)]}, de forma técnica y concisa, sin repetir la guía. Cita la norma de ${profile.country} que respalda cada recomendación, por ejemplo "${profile.citationExample}". Usa párrafos y listas en Markdown, sin encabezados, porque la respuesta puede añadirse a la guía como adenda.
+    `;
+
+    try {
+        return await streamCheckedText({ prompt, history, useSearch: true, signal }, onStream, { query, kind: 'follow-up' });
     } catch (error) {
-        handleApiError(error);
+        handleApiError(error, signal);
     }
 }
 
 
-export async function generateProcessImage(query: string): Promise<string> {
-    const ai = getGenAI();
-    
-    const prompt = `Un dibujo técnico profesional y detallado, estilo diagrama de un manual de construcción. La ilustración debe ilustrar claramente el proceso de: "${query}". Usar una paleta de colores limpia que diferencie materiales y etapas constructivas. Todas las etiquetas y anotaciones deben estar en ESPAÑOL. La imagen debe ser clara, precisa y de alta calidad.`;
-    
+// What to fix, in the words of the repair prompt.
+const describeIssue = (issue: QualityIssue, language: Locale): string => {
+    const section = issue.section ? `"${sectionTitle(issue.section, language)}"` : null;
+    switch (issue.kind) {
+        case 'missing-section':
+            return `Falta la sección ${section}: escríbela completa.`;
+        case 'deep-heading':
+            return `${section ? `La sección ${section}` : 'El texto antes de las secciones'} usa encabezados de nivel 3 o inferior: reescríbela con listas y negritas en su lugar.`;
+        case 'uncited-steps':
+            return `Solo ${issue.count} de ${issue.total} pasos de ${section} citan una norma: reescribe la sección añadiendo a cada paso la cita que lo respalda, sin cambiar lo demás.`;
+        case 'not-applicable-norms':
+            return `La sección ${section} dice que ninguna norma aplica: si es así, devuelve solo su encabezado, sin contenido, para eliminarla; si alguna aplica, reescríbela.`;
+        case 'truncated':
+            return section ? `La sección ${section} quedó cortada: reescríbela completa.` : 'La guía quedó cortada al final.';
+    }
+};
+
+// Asks the model to rewrite only the sections the quality gate rejected and puts them into the
+// guide. Returns null when the merged guide does not score higher than the original.
+export async function repairConstructionProcess(
+    { query, result }: { query: string; result: SearchResult },
+    signal?: AbortSignal
+): Promise<Pick<SearchResult, 'text' | 'guide' | 'quality'> | null> {
+    const { quality } = result;
+    if (!quality || quality.passed) return null;
+    const profile = jurisdictionOf(result);
+    const language = languageOf(result);
+
+    const prompt = `
+        REVISIÓN DE CALIDAD de la guía anterior. Corrige únicamente estos problemas:
+        ${quality.issues.map(issue => `*   ${describeIssue(issue, language)}`).join('\n        ')}
+
+        Devuelve solo las secciones indicadas, cada una completa y con su encabezado de nivel 2 exacto (por ejemplo "## ${coreSections.steps.titles[language]}"), en ${guideLanguageNames[language]}.
+        No repitas las demás secciones, no añadas texto antes ni después y no uses encabezados de nivel 3 o inferiores.
+        Conserva lo que ya estaba bien y cita las normas de ${profile.country} entre paréntesis, por ejemplo "${profile.citationExample}".
+    `;
+
+    try {
+        const { text: repair } = await streamCheckedText({ prompt, history: buildFollowUpSeed(query, result), signal }, () => {}, { query, kind: 'repair' });
+        const text = mergeRepairedSections(result.text, repair, quality.extraSections);
+        const repaired = checkGuideQuality(text, { jurisdiction: profile.id, extraSections: quality.extraSections });
+        if (repaired.score <= quality.score) return null;
+        const guide = await structureProcessGuide(text, query, profile.id, language, signal);
+        signal?.throwIfAborted();
+        return { text, guide, quality: { ...repaired, repairedFrom: quality.score } };
+    } catch (error) {
+        handleApiError(error, signal);
+    }
+}
+
+
+// Search grounding and response schemas cannot be combined in one request, so the streamed
+// markdown is converted in a second, schema-constrained call. Any failure there falls back
+// to reading the sections straight from the markdown.
+async function structureProcessGuide(markdown: string, query: string, jurisdiction: JurisdictionId, language: Locale, signal?: AbortSignal): Promise<ProcessGuide | null> {
     try {
-        const response = await ai.models.generateImages({
-            model: imageModel,
-            prompt: prompt,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/jpeg',
-                aspectRatio: '4:3',
-            },
-        });
-
-        if (response.generatedImages && response.generatedImages.length > 0) {
-            const image = response.generatedImages[0];
-            if (image.image?.imageBytes) {
-                const base64ImageBytes: string = image.image.imageBytes;
-                return `data:image/jpeg;base64,${base64ImageBytes}`;
+        let json = '';
+        let usage: TokenUsage | undefined;
+        for await (const chunk of getAIProvider().streamText({
+            prompt: buildStructuringPrompt(markdown, jurisdiction, language),
+            responseSchema: processGuideSchema,
+            signal,
+        })) {
+            json += chunk.text;
+            usage = chunk.usage || usage;
+        }
+        if (usage) meterText({ query, kind: 'structure' }, usage);
+        const guide = validateProcessGuide(JSON.parse(json));
+        if (guide) {
+            return guide;
+        }
+        console.warn("Structured guide did not match the schema; using the markdown sections instead.");
+    } catch (error) {
+        if (isAbortError(error, signal)) throw error;
+        console.warn("Could not structure the guide; using the markdown sections instead.", error);
+    }
+    return parseProcessGuideMarkdown(markdown, jurisdiction);
+}
+
+
+export type ImageStyle = 'corte' | 'isometrico' | 'paso-a-paso' | 'planta';
+
+export const imageStyles: Record<ImageStyle, { label: MessageKey; prompt: string }> = {
+    'corte': {
+        label: 'illustration.style.corte',
+        prompt: 'Un corte técnico (sección transversal) que muestre las capas, el refuerzo y las dimensiones relevantes.',
+    },
+    'isometrico': {
+        label: 'illustration.style.isometrico',
+        prompt: 'Una vista isométrica tridimensional que muestre cómo encajan los elementos entre sí.',
+    },
+    'paso-a-paso': {
+        label: 'illustration.style.paso-a-paso',
+        prompt: 'Una secuencia de viñetas numeradas, una por etapa, que muestre el avance del proceso en orden.',
+    },
+    'planta': {
+        label: 'illustration.style.planta',
+        prompt: 'Una vista en planta desde arriba con ejes, cotas y ubicación de los elementos.',
+    },
+};
+
+export interface ImageOptions {
+    style: ImageStyle;
+    aspectRatio: ImageAspectRatio;
+    // 1 to 4 images per request.
+    variants: number;
+    // Free text appended to the prompt, e.g. "con muro de ladrillo a la vista".
+    detail: string;
+}
+
+export const defaultImageOptions: ImageOptions = { style: 'corte', aspectRatio: '4:3', variants: 1, detail: '' };
+
+export const buildImagePrompt = (query: string, { style, detail }: Pick<ImageOptions, 'style' | 'detail'>, template: PromptTemplate = loadPromptTemplate('image')): string =>
+    renderTemplate(template.body, {
+        query,
+        style: imageStyles[style].prompt,
+        detail: detail.trim() ? ` Detalles adicionales solicitados por el usuario: ${detail.trim()}.` : '',
+    });
+
+export async function generateProcessImages(query: string, options: ImageOptions, signal?: AbortSignal): Promise<string[]> {
+    const provider = getAIProvider();
+    const prompt = buildImagePrompt(query, options);
+
+    const generateImages = async (): Promise<string[]> => {
+        try {
+            const images = await provider.generateImages({
+                prompt,
+                numberOfImages: Math.min(4, Math.max(1, Math.round(options.variants))),
+                aspectRatio: options.aspectRatio,
+                signal,
+            });
+
+            if (images.length > 0) {
+                recordUsage({ query: normalizeQuery(query), kind: 'image', provider: provider.name, model: provider.imageModel, images: images.length });
+                return images;
             }
+
+            console.error("Image generation response did not contain valid image data.", provider.name);
+            throw new EmptyResponseError(t('errors.emptyImage'));
+
+        } catch (error) {
+            handleApiError(error, signal);
         }
-        
-        console.error("Imagen generation response did not contain valid image data.", response);
-        throw new ApiError("La generación de imagen no devolvió datos válidos.");
+    };
 
+    try {
+        return await withRetry(generateImages, { signal });
     } catch (error) {
-        handleApiError(error);
+        handleApiError(error, signal);
     }
 }
+
+// The illustration generated alongside every search, with the default options.
+export async function generateProcessImage(query: string, signal?: AbortSignal): Promise<string> {
+    const [image] = await generateProcessImages(query, defaultImageOptions, signal);
+    return image;
+}
@@ -0,0 +1,55 @@
+import type { HistoryEntry, SearchResult } from '../types';
+import { requestToPromise, withStore } from './db';
+import { normalizeQuery } from './cacheStore';
+
+// Favorites and tags are the user's own curation, so storage failures propagate to the caller.
+
+// Most recent search first.
+export const listHistory = (): Promise<HistoryEntry[]> =>
+    withStore('history', 'readonly', async (store) => {
+        const entries = await requestToPromise<HistoryEntry[]>(store.getAll());
+        return entries.sort((a, b) => b.searchedAt - a.searchedAt);
+    });
+
+// A repeated search keeps the favorite mark and the tags of the earlier one.
+export const recordSearch = (label: string, result: SearchResult): Promise<HistoryEntry> =>
+    withStore('history', 'readwrite', async (store) => {
+        const query = normalizeQuery(label);
+        const existing = await requestToPromise<HistoryEntry | undefined>(store.get(query));
+        const entry: HistoryEntry = {
+            favorite: false,
+            tags: [],
+            ...existing,
+            query,
+            label: label.trim(),
+            searchedAt: Date.now(),
+            result,
+        };
+        await requestToPromise(store.put(entry));
+        return entry;
+    });
+
+export const saveHistoryEntry = (entry: HistoryEntry): Promise<HistoryEntry> =>
+    withStore('history', 'readwrite', async (store) => {
+        await requestToPromise(store.put(entry));
+        return entry;
+    });
+
+export const deleteHistoryEntry = (query: string): Promise<void> =>
+    withStore('history', 'readwrite', async (store) => {
+        await requestToPromise(store.delete(query));
+    });
+
+// Imported entries are merged: the newer result wins, favorites and tags are combined.
+export const importHistory = (entries: HistoryEntry[]): Promise<void> =>
+    withStore('history', 'readwrite', async (store) => {
+        await Promise.all(entries.map(async imported => {
+            const existing = await requestToPromise<HistoryEntry | undefined>(store.get(imported.query));
+            const newer = !existing || imported.searchedAt > existing.searchedAt ? imported : existing;
+            await requestToPromise(store.put({
+                ...newer,
+                favorite: imported.favorite || !!existing?.favorite,
+                tags: [...new Set([...(existing?.tags || []), ...imported.tags])],
+            }));
+        }));
+    });
@@ -0,0 +1,17 @@
+import { DEFAULT_JURISDICTION, isJurisdictionId, type JurisdictionId } from '../data/jurisdictions';
+
+// The "perfil normativo" chosen in the header, kept across sessions.
+const JURISDICTION_KEY = 'guia-procesos-constructivos:perfil';
+
+export const loadJurisdiction = (): JurisdictionId => {
+    try {
+        const saved = localStorage.getItem(JURISDICTION_KEY);
+        return isJurisdictionId(saved) ? saved : DEFAULT_JURISDICTION;
+    } catch {
+        return DEFAULT_JURISDICTION;
+    }
+};
+
+export const saveJurisdiction = (jurisdiction: JurisdictionId): void => {
+    localStorage.setItem(JURISDICTION_KEY, jurisdiction);
+};
@@ -0,0 +1,32 @@
+import { DEFAULT_LOCALE, isLocale, type Locale } from '../i18n';
+
+// The UI language and whether guides are written in it, kept across sessions.
+const LOCALE_KEY = 'guia-procesos-constructivos:idioma';
+const TRANSLATE_GUIDES_KEY = 'guia-procesos-constructivos:guias-en-idioma';
+
+// Without a saved choice, English browsers start in English.
+export const loadLocale = (): Locale => {
+    try {
+        const saved = localStorage.getItem(LOCALE_KEY);
+        if (isLocale(saved)) return saved;
+        return navigator.languages?.[0]?.toLowerCase().startsWith('en') ? 'en' : DEFAULT_LOCALE;
+    } catch {
+        return DEFAULT_LOCALE;
+    }
+};
+
+export const saveLocale = (locale: Locale): void => {
+    localStorage.setItem(LOCALE_KEY, locale);
+};
+
+export const loadTranslateGuides = (): boolean => {
+    try {
+        return localStorage.getItem(TRANSLATE_GUIDES_KEY) === 'true';
+    } catch {
+        return false;
+    }
+};
+
+export const saveTranslateGuides = (translate: boolean): void => {
+    localStorage.setItem(TRANSLATE_GUIDES_KEY, String(translate));
+};
@@ -0,0 +1,203 @@
+import type { MaterialParameter, NormReference, ProcessGuide, ProcessStep } from '../types';
+import { extractCitations as findNormCitations } from '../utils/citations';
+import { jurisdictions, type JurisdictionId } from '../data/jurisdictions';
+import type { Locale } from '../i18n';
+import { coreSections } from '../data/promptTemplates';
+
+const citationsSchema = { type: 'array', items: { type: 'string' } };
+
+// JSON Schema sent as the response schema of the structuring request. `origin` is set locally.
+export const processGuideSchema: Record<string, unknown> = {
+    type: 'object',
+    properties: {
+        title: { type: 'string' },
+        description: { type: 'string' },
+        descriptionCitations: citationsSchema,
+        steps: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    detail: { type: 'string' },
+                    citations: citationsSchema,
+                },
+                required: ['title', 'detail', 'citations'],
+            },
+        },
+        materials: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    specification: { type: 'string' },
+                    value: { type: ['number', 'null'] },
+                    unit: { type: 'string' },
+                    citations: citationsSchema,
+                },
+                required: ['name', 'specification', 'value', 'unit', 'citations'],
+            },
+        },
+        norms: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    code: { type: 'string' },
+                    scope: { type: 'string' },
+                    citations: citationsSchema,
+                },
+                required: ['code', 'scope', 'citations'],
+            },
+        },
+    },
+    required: ['title', 'description', 'descriptionCitations', 'steps', 'materials', 'norms'],
+};
+
+export const buildStructuringPrompt = (markdown: string, jurisdiction: JurisdictionId, language: Locale): string => `
+    Convierte la siguiente guía de proceso constructivo en un objeto JSON que cumpla el esquema indicado.
+    No agregues información que no esté en el texto, no cambies su idioma y conserva las citas normativas tal como aparecen, sin paréntesis
+    (por ejemplo "${jurisdictions[jurisdiction].citationExample.replace(/^\(|\)$/g, '')}").
+
+    *   "steps": los pasos de "${coreSections.steps.titles[language]}", en el mismo orden.
+    *   "materials": cada material o parámetro de "${coreSections.materials.titles[language]}". Si tiene un valor numérico, ponlo en "value"
+        y su unidad en "unit" (por ejemplo 21 y "MPa"); si no, usa null y una cadena vacía.
+    *   "norms": las normas de "${coreSections.norms.titles[language]}"; una lista vacía si la sección no existe.
+
+    Guía:
+    ${markdown}
+`;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isStep = (value: unknown): value is ProcessStep =>
+    isObject(value) && isString(value.title) && isString(value.detail) && isStringArray(value.citations);
+
+const isMaterial = (value: unknown): value is MaterialParameter =>
+    isObject(value) && isString(value.name) && isString(value.specification)
+    && (value.value === null || (typeof value.value === 'number' && Number.isFinite(value.value)))
+    && isString(value.unit) && isStringArray(value.citations);
+
+const isNorm = (value: unknown): value is NormReference =>
+    isObject(value) && isString(value.code) && isString(value.scope) && isStringArray(value.citations);
+
+// Models do not always honour the schema, so the parsed JSON is checked before it is trusted.
+export const validateProcessGuide = (value: unknown): ProcessGuide | null => {
+    if (!isObject(value)) return null;
+    if (!isString(value.title) || !isString(value.description) || !isStringArray(value.descriptionCitations)) return null;
+    if (!Array.isArray(value.steps) || !value.steps.every(isStep)) return null;
+    if (!Array.isArray(value.materials) || !value.materials.every(isMaterial)) return null;
+    if (!Array.isArray(value.norms) || !value.norms.every(isNorm)) return null;
+    if (value.steps.length === 0) return null;
+
+    return {
+        title: value.title,
+        description: value.description,
+        descriptionCitations: value.descriptionCitations,
+        steps: value.steps,
+        materials: value.materials,
+        norms: value.norms,
+        origin: 'schema',
+    };
+};
+
+// --- Fallback: recover the guide from the streamed markdown ---
+
+const quantityPattern = /(\d+(?:[.,]\d+)?)\s*(MPa|kg\/m³|kg\/m3|kg\/cm²|kg|psi|mm|cm|m³|m3|m²|m2|m|%|días|horas|"|in)(?![\wáéíóú])/;
+
+const extractCitations = (text: string, jurisdiction: JurisdictionId): string[] =>
+    Array.from(new Set(findNormCitations(stripEmphasis(text), jurisdiction).map(citation => citation.label)));
+
+// Drops the parentheses that hold a citation, "(NSR-10, Título C.5.2)", and keeps any other.
+const stripCitations = (text: string, jurisdiction: JurisdictionId): string =>
+    text.replace(/\(([^()]*)\)/g, (parenthesis, inner: string) => findNormCitations(inner, jurisdiction).length > 0 ? '' : parenthesis)
+        .replace(/\s+([.,;])/g, '$1').replace(/\s{2,}/g, ' ').trim();
+
+const stripEmphasis = (text: string): string => text.replace(/\*\*|__/g, '');
+
+// Splits "**Title:** body" (or "Title: body") into its two parts.
+const splitLabel = (line: string): { label: string; body: string } => {
+    const clean = stripEmphasis(line);
+    const colonIndex = clean.indexOf(':');
+    if (colonIndex > -1 && colonIndex < 80) {
+        return { label: clean.substring(0, colonIndex).trim(), body: clean.substring(colonIndex + 1).trim() };
+    }
+    return { label: '', body: clean.trim() };
+};
+
+const sectionMatchers = {
+    description: /descripcion|description/,
+    steps: /pasos|steps/,
+    materials: /parametros|materiales|parameters|materials/,
+    norms: /normatividad|normativa|normas|regulations|codes|standards/,
+};
+
+const sectionKey = (heading: string): keyof typeof sectionMatchers | null => {
+    const normalized = heading.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    const match = (Object.keys(sectionMatchers) as (keyof typeof sectionMatchers)[])
+        .find(key => sectionMatchers[key].test(normalized));
+    return match || null;
+};
+
+export const parseProcessGuideMarkdown = (markdown: string, jurisdiction: JurisdictionId): ProcessGuide | null => {
+    const sections: Record<keyof typeof sectionMatchers, string[]> = { description: [], steps: [], materials: [], norms: [] };
+    let title = '';
+    let current: keyof typeof sectionMatchers | null = null;
+
+    for (const rawLine of markdown.split('\n')) {
+        const line = rawLine.trim();
+        if (line.startsWith('# ')) {
+            title = stripEmphasis(line.substring(2)).trim();
+            current = null;
+        } else if (/^#{2,}\s/.test(line)) {
+            current = sectionKey(line.replace(/^#+\s*/, ''));
+        } else if (current && line) {
+            sections[current].push(line);
+        }
+    }
+
+    const listItems = (lines: string[], pattern: RegExp) =>
+        lines.filter(line => pattern.test(line)).map(line => line.replace(pattern, ''));
+
+    const steps: ProcessStep[] = listItems(sections.steps, /^\d+[.)]\s+/).map(item => {
+        const { label, body } = splitLabel(item);
+        return { title: label || stripCitations(body, jurisdiction), detail: label ? stripCitations(body, jurisdiction) : '', citations: extractCitations(item, jurisdiction) };
+    });
+
+    const materials: MaterialParameter[] = listItems(sections.materials, /^[*-]\s+/).map(item => {
+        const { label, body } = splitLabel(item);
+        const specification = stripCitations(body, jurisdiction);
+        const quantity = specification.match(quantityPattern);
+        return {
+            name: label || specification,
+            specification,
+            value: quantity ? parseFloat(quantity[1].replace(',', '.')) : null,
+            unit: quantity ? quantity[2] : '',
+            citations: extractCitations(item, jurisdiction),
+        };
+    });
+
+    const norms: NormReference[] = listItems(sections.norms, /^[*-]\s+/).map(item => {
+        const { label, body } = splitLabel(item);
+        return { code: label || body, scope: label ? body : '', citations: extractCitations(item, jurisdiction) };
+    });
+
+    const descriptionText = stripEmphasis(sections.description.join(' '));
+
+    if (steps.length === 0 && materials.length === 0 && !descriptionText) {
+        return null;
+    }
+
+    return {
+        title,
+        description: stripCitations(descriptionText, jurisdiction),
+        descriptionCitations: extractCitations(descriptionText, jurisdiction),
+        steps,
+        materials,
+        norms,
+        origin: 'markdown',
+    };
+};
@@ -0,0 +1,36 @@
+import type { SearchResult } from '../types';
+import { fetchConstructionProcess, getCacheKeys } from './geminiService';
+import { getCachedText, normalizeQuery, putCachedText } from './cacheStore';
+import { recordCacheHit } from './usageStore';
+import { loadAIProvider } from './providers';
+import type { JurisdictionId } from '../data/jurisdictions';
+import { DEFAULT_LOCALE, type Locale } from '../i18n';
+
+interface LoadOptions {
+    signal?: AbortSignal;
+    onStream?: (textChunk: string) => void;
+    language?: Locale;
+}
+
+// The text result of a query, from the cache when possible. Fresh results are cached only once
+// complete, so a cancelled load leaves nothing behind.
+export async function loadProcessResult(query: string, jurisdiction: JurisdictionId, { signal, onStream, language = DEFAULT_LOCALE }: LoadOptions = {}): Promise<{ result: SearchResult; fromCache: boolean }> {
+    await loadAIProvider();
+    const { text: cacheKey } = getCacheKeys(query, jurisdiction, language);
+    const cached = await getCachedText(cacheKey);
+    if (cached) {
+        recordCacheHit(normalizeQuery(query), 'text');
+        return { result: cached, fromCache: true };
+    }
+
+    let text = '';
+    const { sources, guide, template, quality } = await fetchConstructionProcess(query, jurisdiction, language, chunk => {
+        text += chunk;
+        onStream?.(chunk);
+    }, signal);
+    signal?.throwIfAborted();
+
+    const result: SearchResult = { text, sources, guide, jurisdiction, language, template, quality };
+    await putCachedText(cacheKey, normalizeQuery(query), result);
+    return { result, fromCache: false };
+}
@@ -0,0 +1,47 @@
+import type { Project, ProjectGuide, ProjectMetadata, SearchResult } from '../types';
+import { requestToPromise, withStore } from './db';
+
+// Unlike the cache, projects are the user's own work: storage failures are not swallowed here,
+// callers must report them.
+
+export const createProject = (metadata: ProjectMetadata): Project => {
+    const now = Date.now();
+    return { ...metadata, id: crypto.randomUUID(), guides: [], createdAt: now, updatedAt: now };
+};
+
+// Most recently edited first.
+export const listProjects = (): Promise<Project[]> =>
+    withStore('projects', 'readonly', async (store) => {
+        const projects = await requestToPromise<Project[]>(store.getAll());
+        return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+    });
+
+export const saveProject = (project: Project): Promise<Project> =>
+    withStore('projects', 'readwrite', async (store) => {
+        const saved: Project = { ...project, updatedAt: Date.now() };
+        await requestToPromise(store.put(saved));
+        return saved;
+    });
+
+export const deleteProject = (id: string): Promise<void> =>
+    withStore('projects', 'readwrite', async (store) => {
+        await requestToPromise(store.delete(id));
+    });
+
+// The helpers below return an updated copy; persist it with `saveProject`.
+
+export const addGuide = (project: Project, query: string, result: SearchResult, imageUrl: string | null): Project => {
+    const guide: ProjectGuide = { id: crypto.randomUUID(), query, result, imageUrl, addedAt: Date.now() };
+    return { ...project, guides: [...project.guides, guide] };
+};
+
+export const removeGuide = (project: Project, guideId: string): Project =>
+    ({ ...project, guides: project.guides.filter(guide => guide.id !== guideId) });
+
+export const moveGuide = (project: Project, from: number, to: number): Project => {
+    if (to < 0 || to >= project.guides.length || from === to) return project;
+    const guides = [...project.guides];
+    const [moved] = guides.splice(from, 1);
+    guides.splice(to, 0, moved);
+    return { ...project, guides };
+};
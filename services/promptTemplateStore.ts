@@ -0,0 +1,43 @@
+import { defaultPromptTemplates, type PromptTemplate, type PromptTemplateId, type PromptTemplateRef } from '../data/promptTemplates';
+
+// Templates edited in the "Plantillas" tab, kept in this browser. Without an edited copy the
+// built-in template is used.
+const TEMPLATES_KEY = 'guia-procesos-constructivos:plantillas';
+
+type SavedTemplates = Partial<Record<PromptTemplateId, PromptTemplate>>;
+
+const readSaved = (): SavedTemplates => {
+    try {
+        const saved = localStorage.getItem(TEMPLATES_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch {
+        return {};
+    }
+};
+
+export const loadPromptTemplate = (id: PromptTemplateId): PromptTemplate => {
+    const saved = readSaved()[id];
+    return saved && typeof saved.body === 'string' && typeof saved.version === 'number'
+        ? { ...defaultPromptTemplates[id], ...saved, extraSections: Array.isArray(saved.extraSections) ? saved.extraSections : [] }
+        : defaultPromptTemplates[id];
+};
+
+export const promptTemplateRef = (id: PromptTemplateId): PromptTemplateRef => ({ id, version: loadPromptTemplate(id).version });
+
+// Every save is a new version, numbered after both the current and the built-in one, so a
+// version number always identifies one text.
+export const savePromptTemplate = (id: PromptTemplateId, changes: Pick<PromptTemplate, 'body' | 'extraSections'>): PromptTemplate => {
+    const current = loadPromptTemplate(id);
+    const saved: PromptTemplate = {
+        ...current,
+        ...changes,
+        version: Math.max(current.version, defaultPromptTemplates[id].version) + 1,
+        updatedAt: Date.now(),
+    };
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify({ ...readSaved(), [id]: saved }));
+    return saved;
+};
+
+// Going back to the built-in text is one more version: the numbers are never reused.
+export const restoreDefaultPromptTemplate = (id: PromptTemplateId): PromptTemplate =>
+    savePromptTemplate(id, { body: defaultPromptTemplates[id].body, extraSections: defaultPromptTemplates[id].extraSections });
@@ -0,0 +1,89 @@
+import { GoogleGenAI } from "@google/genai";
+import type { GroundingChunk } from '../../types';
+import { NoApiKeyError, SafetyBlockedError } from '../errors';
+import { t } from '../../i18n';
+import type { AIProvider, FinishReason, ImageGenerationRequest, TextGenerationRequest, TextStreamChunk } from './types';
+
+interface GeminiProviderConfig {
+    apiKey?: string;
+    textModel: string;
+    imageModel: string;
+}
+
+const safetyFinishReasons = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'RECITATION'];
+
+const toFinishReason = (reason: string | undefined): FinishReason | undefined => {
+    if (!reason) return undefined;
+    if (reason === 'STOP') return 'stop';
+    if (reason === 'MAX_TOKENS') return 'length';
+    return safetyFinishReasons.includes(reason) ? 'safety' : 'other';
+};
+
+export const createGeminiProvider = ({ apiKey, textModel, imageModel }: GeminiProviderConfig): AIProvider => {
+    const getGenAI = (): GoogleGenAI => {
+        if (!apiKey) {
+            throw new NoApiKeyError();
+        }
+        return new GoogleGenAI({ apiKey });
+    };
+
+    async function* streamText(request: TextGenerationRequest): AsyncIterable<TextStreamChunk> {
+        const ai = getGenAI();
+        const resultStream = await ai.models.generateContentStream({
+            model: textModel,
+            contents: request.history?.length
+                ? [...request.history, { role: 'user', text: request.prompt }].map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }))
+                : request.prompt,
+            config: {
+                tools: request.useSearch ? [{ googleSearch: {} }] : undefined,
+                responseMimeType: request.responseSchema ? 'application/json' : undefined,
+                responseJsonSchema: request.responseSchema,
+                abortSignal: request.signal,
+            },
+        });
+
+        for await (const chunk of resultStream) {
+            const candidate = chunk.candidates?.[0];
+            const groundingChunks = candidate?.groundingMetadata?.groundingChunks;
+            const usage = chunk.usageMetadata;
+            yield {
+                text: chunk.text || '',
+                sources: groundingChunks ? groundingChunks as GroundingChunk[] : undefined,
+                // A blocked prompt comes back without candidates, only with prompt feedback.
+                finishReason: chunk.promptFeedback?.blockReason ? 'safety' : toFinishReason(candidate?.finishReason),
+                // The search tool's prompt and the model's thinking are billed too.
+                usage: usage ? {
+                    inputTokens: (usage.promptTokenCount || 0) + (usage.toolUsePromptTokenCount || 0),
+                    outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+                } : undefined,
+            };
+        }
+    }
+
+    const generateImages = async (request: ImageGenerationRequest): Promise<string[]> => {
+        const ai = getGenAI();
+        const response = await ai.models.generateImages({
+            model: imageModel,
+            prompt: request.prompt,
+            config: {
+                numberOfImages: request.numberOfImages ?? 1,
+                outputMimeType: 'image/jpeg',
+                aspectRatio: request.aspectRatio ?? '4:3',
+                abortSignal: request.signal,
+            },
+        });
+
+        const generatedImages = response.generatedImages || [];
+        // Images removed by the safety filter are reported with a reason instead of bytes.
+        if (generatedImages.length > 0 && generatedImages.every(image => !image.image?.imageBytes && image.raiFilteredReason)) {
+            throw new SafetyBlockedError(t('errors.imageSafetyBlocked'));
+        }
+
+        return generatedImages
+            .map(image => image.image?.imageBytes)
+            .filter((bytes): bytes is string => !!bytes)
+            .map(bytes => `data:image/jpeg;base64,${bytes}`);
+    };
+
+    return { name: 'gemini', textModel, imageModel, streamText, generateImages };
+};
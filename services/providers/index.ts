@@ -0,0 +1,45 @@
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import type { AIProvider } from './types';
+
+export type { AIProvider, ChatTurn, FinishReason, ImageAspectRatio, ImageGenerationRequest, ProviderName, TextGenerationRequest, TextStreamChunk, TokenUsage } from './types';
+
+// The browser never talks to Gemini or an OpenAI-compatible server directly: the keys stay in the
+// backend (server/), reached through the proxy provider. Only the mock provider runs in the
+// browser, for demos without a backend.
+const createProvider = (name: string): AIProvider => {
+    switch (name) {
+        case 'mock':
+            return createMockProvider();
+        case 'proxy':
+        default:
+            return createProxyProvider({
+                baseUrl: process.env.API_BASE_URL || '/api',
+                textModel: process.env.TEXT_MODEL || undefined,
+                imageModel: process.env.IMAGE_MODEL || undefined,
+            });
+    }
+};
+
+let activeProvider: AIProvider | null = null;
+
+// AI_PROVIDER=mock keeps everything in the browser; any other value goes through the backend,
+// which picks the real provider with the same variable.
+export const getAIProvider = (): AIProvider => {
+    if (!activeProvider) {
+        activeProvider = createProvider((process.env.AI_PROVIDER || 'proxy').toLowerCase());
+    }
+    return activeProvider;
+};
+
+// The active provider once it knows which provider and models will answer, for cache keys and usage records.
+export const loadAIProvider = async (): Promise<AIProvider> => {
+    const provider = getAIProvider();
+    await provider.ready?.();
+    return provider;
+};
+
+// Replaces the active backend, e.g. with a mock provider in tests.
+export const setAIProvider = (provider: AIProvider | null): void => {
+    activeProvider = provider;
+};
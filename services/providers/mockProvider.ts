@@ -0,0 +1,67 @@
+import type { AIProvider, ImageGenerationRequest, TextGenerationRequest, TextStreamChunk } from './types';
+import { mockRecordings, placeholderImage, type MockRecording } from './mockRecordings';
+
+interface MockProviderConfig {
+    // Delay between streamed chunks, to make loaders and streaming visible in demos. Use 0 in tests.
+    latencyMs?: number;
+    recordings?: MockRecording[];
+}
+
+const chunkSize = 80;
+
+// Rough count (about four characters per token), so usage metering can be tried out in demos.
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const normalizeForMatch = (value: string): string =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const createMockProvider = ({ latencyMs = 40, recordings = mockRecordings }: MockProviderConfig = {}): AIProvider => {
+    const findRecording = (prompt: string): MockRecording => {
+        const normalizedPrompt = normalizeForMatch(prompt);
+        const recording = recordings.find(r => r.keywords.every(keyword => normalizedPrompt.includes(keyword)));
+        return recording || recordings[recordings.length - 1];
+    };
+
+    async function* streamText(request: TextGenerationRequest): AsyncIterable<TextStreamChunk> {
+        const recording = findRecording(request.prompt);
+        if (request.responseSchema) {
+            await wait(latencyMs, request.signal);
+            const json = JSON.stringify(recording.structured ?? {});
+            yield { text: json, finishReason: 'stop', usage: { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(json) } };
+            return;
+        }
+        for (let i = 0; i < recording.text.length; i += chunkSize) {
+            await wait(latencyMs, request.signal);
+            yield { text: recording.text.slice(i, i + chunkSize) };
+        }
+        const inputTokens = estimateTokens(request.prompt) + (request.history || []).reduce((sum, turn) => sum + estimateTokens(turn.text), 0);
+        yield {
+            text: '',
+            sources: request.useSearch ? recording.sources : [],
+            finishReason: 'stop',
+            usage: { inputTokens, outputTokens: estimateTokens(recording.text) },
+        };
+    }
+
+    const generateImages = async (request: ImageGenerationRequest): Promise<string[]> => {
+        await wait(latencyMs * 10, request.signal);
+        return Array.from({ length: request.numberOfImages ?? 1 }, () => placeholderImage);
+    };
+
+    return { name: 'mock', textModel: 'mock-text', imageModel: 'mock-image', streamText, generateImages };
+};
@@ -0,0 +1,242 @@
+import type { GroundingChunk } from '../../types';
+
+export interface MockRecording {
+    // Accent-free, lower-case words; the first recording whose keywords all appear in the prompt is replayed.
+    keywords: string[];
+    text: string;
+    sources: GroundingChunk[];
+    // Answer replayed for requests that carry a response schema; when missing, an empty object is returned.
+    structured?: unknown;
+}
+
+// A 320x240 blueprint grid, small enough to keep inline and accepted by jsPDF as PNG.
+export const placeholderImage = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAUAAAADwCAIAAAD+Tyo8AAAExUlEQVR42u3csa0qMRCG0a2EgBocUcoklONkanIT9EEN5GSQWJ45ktMrvfN+f+xGe91fb8dxDj2X/wLHEbDjOFsDvj2ev54R84+/2vu3keu4fzMv79cRsAvNK2AD8/IK2MC8vAI2MK+ADczLK2AD8/IK2MC8vAJ2oXkFbGBeXgEbmJdXwAbmFbCAeXkFbGBeXgEbmJdXwAbmFbCBeXmPCnjE7HAiVxMpb+HjCeyJxOsV2sC8vAI2MC+vgA3MK2AD8/IK2MC8vAI2MC+vgF1oXgEbmJdXwAbm5RWwgXkFLGBeXgEbmJdXwAbm5RWwgXkFbGBeXgEbmJdXwAbm5RWwC81bN2DfTOLl9U0sv9C8vF6hDczLK2AXmlfABublFbCBeXkFbGBeXgG70LwCNjAvr4ANzMsrYAPzCtjAvLwCNjAvr4ANzMsrYBeaV8AG5uUVsIF5eQVsYF4BC5iXV8AG5uX1TSzfTOLl9U0sv9C8XqENzMsrYAPz8grYwLy8AnaheQVsYF5eARuYl1fABuYVsIB5eQVsYF5eARuYl1fALjSvgA3MyytgA/PyCtjAvLwCdqF5BWxgXl4BG5iXV8AG5u0ecORyHOeI4wnsicTrFdrAvLwCNjAvr4ANzCtgA/PyCtjAvLwCNjAvr4BdaF4BG5iXV8AG5uUVsIF5BSxgXl4BG5iXV8AG5uUVsIF5BWxgXl4BG5iXV8AG5uUVsAvNWzfgEbPDiVxNpLyFjyewJxKvV2gD8/IK2MC8vAI2MK+ADczLK2AD8/IK2MC8vAJ2oXkFbGBeXgEbmJdXwAbmFbCAeXkFbGBeXgEbmJdXwAbmFbCBeXkFbGBeXgEbmJdXwC40b92AfTOJl9c3sfxC8/J6hTYwL6+AXWheARuYl1fABublFbCBeXkF7ELzCtjAvLwCNjAvr4ANzCtgA/PyCtjAvLwCNjAvr4BdaF4BG5iXV8AG5uUVsIF5BSxgXl4BG5iX1zexfDOJl9c3sfxC83qFNjAvr4ANzMsrYAPz8grYheYVsIF5eQVsYF5eARuYV8AC5uUVsIF5eQVsYF5eAbvQvAI2MC+vgA3MyytgA/PyCtiF5hWwgXl5BWxgXl4BG5i3e8CRy3GcI44nsCcSr1doA/PyCtjAvLwCNjCvgA3MyytgA/PyCtjAvLwCdqF5BWxgXl4BG5iXV8AG5hWwgHl5BWxgXl4BG5iXV8AG5hWwgXl5BWxgXl4BG5iXV8AuNG/dgEfMDidyNZHyFj6ewJ5IvF6hDczLK2AD8/IK2MC8AjYwL6+ADczLK2AD8/IK2IXmFbCBeXkFbGBeXgEbmFfAAublFbCBeXkFbGBeXgEbmFfABublFbCBeXkFbGBeXgG70Lx1A/bNJF5e38TyC83L6xXawLy8AnaheQVsYF5eARuYl1fABublFbALzStgA/PyCtjAvLwCNjCvgA3MyytgA/PyCtjAvLwCdqF5BWxgXl4BG5iXV8AG5hWwgHl5BWxgXl7fxPLNJF5e38TyC83rFdrAvLwCNjAvr4ANzMsrYBeaV8AG5uUVsIF5eQVsYF4BC5iXV8AG5uUVsIF5eQXsQvMK2MC8vAI2MC+vgA3MyytgF5q3YMCO4xx3BOw4AnYcZ8f5ALJ5XZV2xDfXAAAAAElFTkSuQmCC';
+
+const nsrSource: GroundingChunk = {
+    web: { uri: 'https://www.minvivienda.gov.co', title: 'NSR-10 Título C - Concreto estructural' },
+};
+
+export const mockRecordings: MockRecording[] = [
+    {
+        // Follow-up questions asked on a guide; listed first because they quote the guide's query.
+        keywords: ['pregunta de seguimiento'],
+        text: `En un suelo arcilloso expansivo la viga debe aislarse de los cambios de volumen del terreno. Se recomienda reemplazar el material bajo la viga por un relleno granular compactado y dejar una cámara de aire o un material compresible bajo el elemento (NSR-10, Título H.9.2).
+
+* **Estudio de suelos:** confirmar el potencial de expansión con ensayos de límites y expansión libre (NSR-10, Título H.3.2).
+* **Drenaje:** evitar la acumulación de agua junto a la cimentación (NSR-10, Título H.9.2).
+`,
+        sources: [nsrSource],
+    },
+    {
+        keywords: ['viga', 'cimentacion'],
+        text: `# Viga de Cimentación en Concreto Reforzado
+
+## Descripción del Proceso
+
+La viga de cimentación es un elemento de concreto reforzado que amarra las zapatas o dados y distribuye las cargas de los muros sobre el terreno (NSR-10, Título C.15.13). Se construye sobre un solado de limpieza y su refuerzo debe cumplir los recubrimientos mínimos para elementos en contacto con el suelo (NSR-10, Título C.7.7.1).
+
+## Pasos Clave para el Éxito
+
+1. **Localización y replanteo:** Trazar ejes y niveles a partir de los planos estructurales aprobados (NSR-10, Título A.1.5).
+2. **Excavación:** Excavar hasta la cota de diseño verificando la capacidad portante indicada en el estudio de suelos (NSR-10, Título H.4.1).
+3. **Solado de limpieza:** Vaciar un concreto pobre de 5 cm de espesor para aislar el refuerzo del terreno (NSR-10, Título C.7.7.1).
+4. **Armado del refuerzo:** Colocar barras longitudinales y estribos según despiece, con traslapos conforme a la longitud de desarrollo (NSR-10, Título C.12.15).
+5. **Formaleta:** Instalar formaleta estanca, alineada y aplomada (NSR-10, Título C.6.1).
+6. **Vaciado y vibrado:** Vaciar el concreto en capas y vibrar para evitar hormigueros (NTC 3318).
+7. **Curado:** Mantener el concreto húmedo durante al menos 7 días (NSR-10, Título C.5.11).
+
+## Parámetros y Materiales
+
+* **Concreto:** resistencia mínima f'c = 21 MPa (NSR-10, Título C.5.2).
+* **Acero de refuerzo:** barras corrugadas fy = 420 MPa (NTC 2289).
+* **Recubrimiento:** 75 mm para concreto vaciado contra el suelo (NSR-10, Título C.7.7.1).
+* **Asentamiento:** 75 mm a 100 mm medido con el cono de Abrams (NTC 396).
+* **Ensayo de cilindros:** un juego de muestras por cada 40 m³ vaciados (NTC 673).
+
+## Normatividad Aplicable
+
+* **NSR-10, Título C:** requisitos de concreto estructural, recubrimientos, curado y detallado del refuerzo.
+* **NSR-10, Título H:** estudios geotécnicos y capacidad portante del suelo.
+* **NTC 673 y NTC 396:** ensayos de resistencia a la compresión y de asentamiento del concreto.
+`,
+        sources: [
+            nsrSource,
+            { web: { uri: 'https://www.icontec.org', title: 'ICONTEC - Normas Técnicas Colombianas' } },
+        ],
+        structured: {
+            title: "Viga de Cimentación en Concreto Reforzado",
+            description: "La viga de cimentación es un elemento de concreto reforzado que amarra las zapatas o dados y distribuye las cargas de los muros sobre el terreno. Se construye sobre un solado de limpieza y su refuerzo debe cumplir los recubrimientos mínimos para elementos en contacto con el suelo.",
+            descriptionCitations: [
+                "NSR-10, Título C.15.13",
+                "NSR-10, Título C.7.7.1"
+            ],
+            steps: [
+                {
+                    title: "Localización y replanteo",
+                    detail: "Trazar ejes y niveles a partir de los planos estructurales aprobados.",
+                    citations: [
+                        "NSR-10, Título A.1.5"
+                    ]
+                },
+                {
+                    title: "Excavación",
+                    detail: "Excavar hasta la cota de diseño verificando la capacidad portante indicada en el estudio de suelos.",
+                    citations: [
+                        "NSR-10, Título H.4.1"
+                    ]
+                },
+                {
+                    title: "Solado de limpieza",
+                    detail: "Vaciar un concreto pobre de 5 cm de espesor para aislar el refuerzo del terreno.",
+                    citations: [
+                        "NSR-10, Título C.7.7.1"
+                    ]
+                },
+                {
+                    title: "Armado del refuerzo",
+                    detail: "Colocar barras longitudinales y estribos según despiece, con traslapos conforme a la longitud de desarrollo.",
+                    citations: [
+                        "NSR-10, Título C.12.15"
+                    ]
+                },
+                {
+                    title: "Formaleta",
+                    detail: "Instalar formaleta estanca, alineada y aplomada.",
+                    citations: [
+                        "NSR-10, Título C.6.1"
+                    ]
+                },
+                {
+                    title: "Vaciado y vibrado",
+                    detail: "Vaciar el concreto en capas y vibrar para evitar hormigueros.",
+                    citations: [
+                        "NTC 3318"
+                    ]
+                },
+                {
+                    title: "Curado",
+                    detail: "Mantener el concreto húmedo durante al menos 7 días.",
+                    citations: [
+                        "NSR-10, Título C.5.11"
+                    ]
+                }
+            ],
+            materials: [
+                {
+                    name: "Concreto",
+                    specification: "resistencia mínima f'c = 21 MPa.",
+                    value: 21,
+                    unit: "MPa",
+                    citations: [
+                        "NSR-10, Título C.5.2"
+                    ]
+                },
+                {
+                    name: "Acero de refuerzo",
+                    specification: "barras corrugadas fy = 420 MPa.",
+                    value: 420,
+                    unit: "MPa",
+                    citations: [
+                        "NTC 2289"
+                    ]
+                },
+                {
+                    name: "Recubrimiento",
+                    specification: "75 mm para concreto vaciado contra el suelo.",
+                    value: 75,
+                    unit: "mm",
+                    citations: [
+                        "NSR-10, Título C.7.7.1"
+                    ]
+                },
+                {
+                    name: "Asentamiento",
+                    specification: "75 mm a 100 mm medido con el cono de Abrams.",
+                    value: 75,
+                    unit: "mm",
+                    citations: [
+                        "NTC 396"
+                    ]
+                },
+                {
+                    name: "Ensayo de cilindros",
+                    specification: "un juego de muestras por cada 40 m³ vaciados.",
+                    value: 40,
+                    unit: "m³",
+                    citations: [
+                        "NTC 673"
+                    ]
+                }
+            ],
+            norms: [
+                {
+                    code: "NSR-10, Título C",
+                    scope: "requisitos de concreto estructural, recubrimientos, curado y detallado del refuerzo.",
+                    citations: []
+                },
+                {
+                    code: "NSR-10, Título H",
+                    scope: "estudios geotécnicos y capacidad portante del suelo.",
+                    citations: []
+                },
+                {
+                    code: "NTC 673 y NTC 396",
+                    scope: "ensayos de resistencia a la compresión y de asentamiento del concreto.",
+                    citations: []
+                }
+            ]
+        },
+    },
+    {
+        keywords: ['muro', 'contencion'],
+        text: `# Muro de Contención en Concreto Reforzado
+
+## Descripción del Proceso
+
+El muro de contención en voladizo resiste el empuje lateral del terreno mediante una pantalla y una zapata de concreto reforzado (NSR-10, Título H.6.2). Su diseño debe considerar el drenaje del relleno para evitar presiones hidrostáticas (NSR-10, Título H.6.6).
+
+## Pasos Clave para el Éxito
+
+1. **Estudio geotécnico:** Obtener los parámetros de empuje del suelo retenido (NSR-10, Título H.2.2).
+2. **Excavación y solado:** Excavar a la cota de cimentación y vaciar un solado de limpieza (NSR-10, Título C.7.7.1).
+3. **Refuerzo de zapata y pantalla:** Armar el acero y dejar arranques para la pantalla (NSR-10, Título C.12.15).
+4. **Vaciado de la zapata:** Vaciar y vibrar el concreto de la zapata (NTC 3318).
+5. **Vaciado de la pantalla:** Vaciar por etapas con juntas de construcción tratadas (NSR-10, Título C.6.4).
+6. **Sistema de drenaje:** Instalar lloraderos y filtro de grava detrás del muro (NSR-10, Título H.6.6).
+7. **Relleno compactado:** Rellenar en capas de 20 cm compactadas al 95 % del Proctor modificado (NTC 1667).
+
+## Parámetros y Materiales
+
+* **Concreto:** resistencia mínima f'c = 28 MPa para elementos expuestos al suelo (NSR-10, Título C.4.3).
+* **Acero de refuerzo:** fy = 420 MPa (NTC 2289).
+* **Lloraderos:** tubería de 3" cada 2 m en ambas direcciones (NSR-10, Título H.6.6).
+* **Control de calidad:** ensayo de compresión de cilindros (NTC 673).
+
+## Normatividad Aplicable
+
+* **NSR-10, Título H:** diseño geotécnico de estructuras de contención.
+* **NSR-10, Título C:** diseño y construcción en concreto reforzado.
+`,
+        sources: [nsrSource],
+    },
+    {
+        keywords: [],
+        text: `# Proceso Constructivo (respuesta de demostración)
+
+## Descripción del Proceso
+
+Esta es una respuesta grabada del modo de demostración. Describe de forma genérica la ejecución de una actividad de obra conforme a los planos y especificaciones aprobadas (NSR-10, Título A.1.5).
+
+## Pasos Clave para el Éxito
+
+1. **Planeación:** Revisar planos, especificaciones y permisos antes de iniciar (NSR-10, Título A.1.5).
+2. **Ejecución:** Construir según los procedimientos del fabricante y la norma aplicable (NTC 3318).
+3. **Control de calidad:** Verificar tolerancias y ensayar los materiales (NTC 673).
+
+## Parámetros y Materiales
+
+* **Materiales:** certificados conforme a las Normas Técnicas Colombianas (NTC 2289).
+`,
+        sources: [nsrSource],
+    },
+];
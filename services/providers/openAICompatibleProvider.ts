@@ -0,0 +1,117 @@
+import type { AIProvider, FinishReason, ImageAspectRatio, ImageGenerationRequest, TextGenerationRequest, TextStreamChunk } from './types';
+
+interface OpenAICompatibleProviderConfig {
+    baseUrl: string;
+    apiKey?: string;
+    textModel: string;
+    imageModel: string;
+}
+
+// Most local servers (Ollama, LM Studio, LocalAI, vLLM) only accept these sizes.
+const imageSizes: Record<ImageAspectRatio, string> = {
+    '1:1': '1024x1024',
+    '3:4': '768x1024',
+    '4:3': '1024x768',
+    '9:16': '576x1024',
+    '16:9': '1024x576',
+};
+
+const finishReasons: Record<string, FinishReason> = {
+    stop: 'stop',
+    length: 'length',
+    content_filter: 'safety',
+};
+
+const httpError = async (response: Response): Promise<Error> => {
+    const body = await response.text().catch(() => '');
+    const retryAfter = Number(response.headers.get('retry-after'));
+    return Object.assign(new Error(`HTTP ${response.status}: ${body || response.statusText}`), {
+        status: response.status,
+        retryAfterSeconds: retryAfter > 0 ? retryAfter : undefined,
+    });
+};
+
+export const createOpenAICompatibleProvider = ({ baseUrl, apiKey, textModel, imageModel }: OpenAICompatibleProviderConfig): AIProvider => {
+    const endpoint = (path: string) => `${baseUrl.replace(/\/+$/, '')}${path}`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    // These servers have no web grounding, so `useSearch` is ignored and no sources are reported.
+    async function* streamText(request: TextGenerationRequest): AsyncIterable<TextStreamChunk> {
+        const response = await fetch(endpoint('/chat/completions'), {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: textModel,
+                stream: true,
+                stream_options: { include_usage: true },
+                messages: [
+                    ...(request.history || []).map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+                    { role: 'user', content: request.prompt },
+                ],
+                response_format: request.responseSchema
+                    ? { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } }
+                    : undefined,
+            }),
+            signal: request.signal,
+        });
+        if (!response.ok || !response.body) {
+            throw await httpError(response);
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += value;
+
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                const data = line.trim();
+                if (!data.startsWith('data:')) continue;
+                const payload = data.slice(5).trim();
+                if (payload === '[DONE]') return;
+
+                const json = JSON.parse(payload);
+                const choice = json.choices?.[0];
+                const delta = choice?.delta?.content;
+                const finishReason = choice?.finish_reason ? finishReasons[choice.finish_reason] ?? 'other' : undefined;
+                // With `include_usage`, the last chunk has no choices and carries the totals.
+                const usage = json.usage ? { inputTokens: json.usage.prompt_tokens || 0, outputTokens: json.usage.completion_tokens || 0 } : undefined;
+                if (delta || finishReason || usage) {
+                    yield { text: delta || '', finishReason, usage };
+                }
+            }
+        }
+    }
+
+    const generateImages = async (request: ImageGenerationRequest): Promise<string[]> => {
+        const response = await fetch(endpoint('/images/generations'), {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: imageModel,
+                prompt: request.prompt,
+                n: request.numberOfImages ?? 1,
+                size: imageSizes[request.aspectRatio ?? '4:3'],
+                response_format: 'b64_json',
+            }),
+            signal: request.signal,
+        });
+        if (!response.ok) {
+            throw await httpError(response);
+        }
+
+        const json = await response.json();
+        return (json.data || [])
+            .map((image: { b64_json?: string }) => image.b64_json)
+            .filter((bytes: string | undefined): bytes is string => !!bytes)
+            .map((bytes: string) => `data:image/png;base64,${bytes}`);
+    };
+
+    return { name: 'openai', textModel, imageModel, streamText, generateImages };
+};
@@ -0,0 +1,149 @@
+import { ApiError, NoApiKeyError, SafetyBlockedError, UnsupportedRegionError } from '../errors';
+import type { AIProvider, ImageGenerationRequest, ProviderName, TextGenerationRequest, TextStreamChunk } from './types';
+
+interface ProxyProviderConfig {
+    // Where the backend is mounted, `/api` when it is served by Vite or next to the app.
+    baseUrl: string;
+    // Models to request; when unset the backend uses its own defaults.
+    textModel?: string;
+    imageModel?: string;
+}
+
+// Body of `GET /config`: the provider the backend forwards to and the models it uses by default.
+export interface ProxyBackendInfo {
+    provider: ProviderName;
+    textModel: string;
+    imageModel: string;
+}
+
+// Body of an error answer, and of the `error` event of a stream that fails after it started.
+export interface ProxyErrorPayload {
+    status: number;
+    message: string;
+    // Name of the provider's ApiError, when it raised one.
+    name?: string;
+    retryAfterSeconds?: number;
+}
+
+// Errors the upstream providers raise themselves are rebuilt as such; the rest keep the upstream
+// status and message so `handleApiError` maps them as if the provider had been called directly.
+const toError = ({ status, message, name, retryAfterSeconds }: ProxyErrorPayload): Error => {
+    switch (name) {
+        case 'NoApiKeyError':
+            return new NoApiKeyError();
+        case 'SafetyBlockedError':
+            return new SafetyBlockedError(message);
+        case 'UnsupportedRegionError':
+            return new UnsupportedRegionError();
+    }
+    // A model outside the backend's allow-list is a deployment problem, not something to retry.
+    if (status === 403) {
+        return new ApiError(message, { kind: 'contact-admin' });
+    }
+    return Object.assign(new Error(message), { status, retryAfterSeconds });
+};
+
+const responseError = async (response: Response): Promise<Error> => {
+    const payload = await response.json().catch(() => null) as Partial<ProxyErrorPayload> | null;
+    const retryAfter = Number(response.headers.get('retry-after'));
+    return toError({
+        status: response.status,
+        message: payload?.message || `HTTP ${response.status}: ${response.statusText}`,
+        name: payload?.name,
+        retryAfterSeconds: payload?.retryAfterSeconds ?? (retryAfter > 0 ? retryAfter : undefined),
+    });
+};
+
+// Calls the app's own backend, which holds the API key and forwards to the real provider.
+export const createProxyProvider = ({ baseUrl, textModel, imageModel }: ProxyProviderConfig): AIProvider => {
+    const endpoint = (path: string) => `${baseUrl.replace(/\/+$/, '')}${path}`;
+    const headers = { 'Content-Type': 'application/json' };
+    let backend: ProxyBackendInfo | null = null;
+    let loading: Promise<void> | null = null;
+
+    // Until the backend answers (or when it cannot), the provider is named `proxy` and the models
+    // `server-default`. A failure is not cached, so the next call asks again.
+    const ready = (): Promise<void> => {
+        if (backend) return Promise.resolve();
+        loading ??= fetch(endpoint('/config'))
+            .then(async response => {
+                if (!response.ok) throw await responseError(response);
+                backend = await response.json() as ProxyBackendInfo;
+            })
+            .catch(error => console.warn("Could not read the backend configuration:", error))
+            .finally(() => { loading = null; });
+        return loading;
+    };
+
+    // Server-Sent Events: `data:` lines carry the chunks, an `error` event a failure mid-stream.
+    async function* streamText(request: TextGenerationRequest): AsyncIterable<TextStreamChunk> {
+        await ready();
+        const response = await fetch(endpoint('/process'), {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                prompt: request.prompt,
+                history: request.history,
+                useSearch: request.useSearch,
+                responseSchema: request.responseSchema,
+                model: textModel,
+            }),
+            signal: request.signal,
+        });
+        if (!response.ok || !response.body) {
+            throw await responseError(response);
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += value;
+
+            const events = buffer.split('\n\n');
+            buffer = events.pop() || '';
+            for (const event of events) {
+                let name = 'message';
+                let data = '';
+                for (const line of event.split('\n')) {
+                    if (line.startsWith('event:')) name = line.slice(6).trim();
+                    else if (line.startsWith('data:')) data += line.slice(5).trim();
+                }
+                if (name === 'done') return;
+                if (name === 'error') throw toError(JSON.parse(data));
+                if (data) yield JSON.parse(data) as TextStreamChunk;
+            }
+        }
+    }
+
+    const generateImages = async (request: ImageGenerationRequest): Promise<string[]> => {
+        await ready();
+        const response = await fetch(endpoint('/image'), {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                prompt: request.prompt,
+                numberOfImages: request.numberOfImages,
+                aspectRatio: request.aspectRatio,
+                model: imageModel,
+            }),
+            signal: request.signal,
+        });
+        if (!response.ok) {
+            throw await responseError(response);
+        }
+        const json = await response.json();
+        return json.images || [];
+    };
+
+    // The backend answers with the requested models when they are set, which it checks against its allow-list.
+    return {
+        get name() { return backend?.provider ?? 'proxy'; },
+        get textModel() { return textModel || backend?.textModel || 'server-default'; },
+        get imageModel() { return imageModel || backend?.imageModel || 'server-default'; },
+        ready,
+        streamText,
+        generateImages,
+    };
+};
@@ -0,0 +1,58 @@
+import type { GroundingChunk } from '../../types';
+
+export type ProviderName = 'gemini' | 'mock' | 'openai' | 'proxy';
+
+// A previous message of a conversation.
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface TextGenerationRequest {
+    prompt: string;
+    // Earlier turns, oldest first, for multi-turn conversations; `prompt` is then the new user message.
+    history?: ChatTurn[];
+    // Lets the provider ground the answer on a web search and report its sources.
+    useSearch?: boolean;
+    // JSON Schema the answer must conform to. Providers then return a single JSON document as text.
+    responseSchema?: Record<string, unknown>;
+    // Aborts the request; the stream then rejects with an `AbortError`.
+    signal?: AbortSignal;
+}
+
+// Why the model stopped: `length` means the answer was cut at the token limit, `safety` that it was blocked.
+export type FinishReason = 'stop' | 'length' | 'safety' | 'other';
+
+// Tokens billed for one request so far. Providers report running totals, so the last value wins.
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface TextStreamChunk {
+    text: string;
+    sources?: GroundingChunk[];
+    finishReason?: FinishReason;
+    usage?: TokenUsage;
+}
+
+export type ImageAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export interface ImageGenerationRequest {
+    prompt: string;
+    numberOfImages?: number;
+    aspectRatio?: ImageAspectRatio;
+    signal?: AbortSignal;
+}
+
+export interface AIProvider {
+    readonly name: ProviderName;
+    readonly textModel: string;
+    readonly imageModel: string;
+    // Resolves once `name` and the models are the ones that will actually answer; the proxy asks its backend.
+    ready?(): Promise<void>;
+    // Yields the answer as it is produced. Sources, when present, replace any previously reported ones.
+    streamText(request: TextGenerationRequest): AsyncIterable<TextStreamChunk>;
+    // Resolves to data URLs (`data:image/...;base64,...`).
+    generateImages(request: ImageGenerationRequest): Promise<string[]>;
+}
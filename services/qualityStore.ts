@@ -0,0 +1,14 @@
+// Whether guides that fail the quality gate are repaired as soon as the search finishes.
+const AUTO_REPAIR_KEY = 'guia-procesos-constructivos:reparacion-automatica';
+
+export const loadAutoRepair = (): boolean => {
+    try {
+        return localStorage.getItem(AUTO_REPAIR_KEY) === 'true';
+    } catch {
+        return false;
+    }
+};
+
+export const saveAutoRepair = (autoRepair: boolean): void => {
+    localStorage.setItem(AUTO_REPAIR_KEY, String(autoRepair));
+};
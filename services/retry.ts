@@ -0,0 +1,68 @@
+import { ApiError, RateLimitError } from './errors';
+
+export interface RetryPolicy {
+    // Total attempts, including the first one. 1 disables retries.
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // Share of each delay that is randomized (0 to 1), so clients that failed together do not retry together.
+    jitter: number;
+}
+
+// Mutable so deployments (or tests) can tune it without touching call sites.
+export const retryPolicy: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 20 * 1000,
+    jitter: 0.5,
+};
+
+// Only errors whose recovery is an automatic "try again" are worth retrying without the user.
+export const isTransientError = (error: unknown): boolean =>
+    error instanceof ApiError && error.recovery?.kind === 'retry' && error.recovery.automatic;
+
+export const backoffDelay = (attempt: number, policy: RetryPolicy = retryPolicy): number => {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(exponential * (1 - policy.jitter * Math.random()));
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+interface RetryOptions {
+    signal?: AbortSignal;
+    policy?: RetryPolicy;
+    // Extra condition on top of `isTransientError`, e.g. "nothing was streamed yet".
+    canRetry?: (error: unknown) => boolean;
+}
+
+// Runs `operation` until it succeeds, fails with a non-transient error, or runs out of attempts.
+// A rate limit whose advertised wait exceeds `maxDelayMs` is surfaced instead of waited out.
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, { signal, policy = retryPolicy, canRetry = () => true }: RetryOptions = {}): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (error) {
+            if (attempt >= policy.maxAttempts || signal?.aborted || !isTransientError(error) || !canRetry(error)) {
+                throw error;
+            }
+            let delay = backoffDelay(attempt, policy);
+            if (error instanceof RateLimitError && error.retryAfterSeconds !== null) {
+                if (error.retryAfterSeconds * 1000 > policy.maxDelayMs) throw error;
+                delay = Math.max(delay, error.retryAfterSeconds * 1000);
+            }
+            console.warn(`Attempt ${attempt} failed, retrying in ${delay} ms.`, error);
+            await sleep(delay, signal);
+        }
+    }
+}
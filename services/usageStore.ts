@@ -0,0 +1,67 @@
+import type { UnitPrices, UsageKind, UsageRecord } from '../types';
+import { requestToPromise, withStore } from './db';
+import { getAIProvider } from './providers';
+
+// Metering must never break a search, so recording failures are only logged. Reading the
+// records is done on request from the "Consumo" panel, which reports its own errors.
+
+const PRICES_KEY = 'guia-procesos-constructivos:precios';
+
+// Published list prices of gemini-2.5-flash and imagen-4.0-generate-001, in USD.
+export const defaultUnitPrices: UnitPrices = {
+    currency: 'USD',
+    inputPerMillionTokens: 0.30,
+    outputPerMillionTokens: 2.50,
+    perImage: 0.04,
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const localDay = (date: Date = new Date()): string =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export type NewUsage = Pick<UsageRecord, 'query' | 'kind' | 'provider' | 'model'> & Partial<Pick<UsageRecord, 'inputTokens' | 'outputTokens' | 'images' | 'cached'>>;
+
+export const recordUsage = async (usage: NewUsage): Promise<void> => {
+    const now = new Date();
+    const record: UsageRecord = {
+        inputTokens: 0,
+        outputTokens: 0,
+        images: 0,
+        cached: false,
+        ...usage,
+        id: crypto.randomUUID(),
+        day: localDay(now),
+        at: now.getTime(),
+    };
+    try {
+        await withStore('usage', 'readwrite', async (store) => { await requestToPromise(store.put(record)); });
+    } catch (error) {
+        console.warn("Could not record usage:", error);
+    }
+};
+
+// A cache hit costs nothing; it is recorded so the panel can show what the cache saved.
+export const recordCacheHit = (query: string, kind: Extract<UsageKind, 'text' | 'image'>): Promise<void> => {
+    const provider = getAIProvider();
+    return recordUsage({ query, kind, provider: provider.name, model: kind === 'image' ? provider.imageModel : provider.textModel, cached: true });
+};
+
+export const listUsage = (): Promise<UsageRecord[]> =>
+    withStore('usage', 'readonly', (store) => requestToPromise<UsageRecord[]>(store.getAll()));
+
+export const clearUsage = (): Promise<void> =>
+    withStore('usage', 'readwrite', async (store) => { await requestToPromise(store.clear()); });
+
+export const loadUnitPrices = (): UnitPrices => {
+    try {
+        const saved = localStorage.getItem(PRICES_KEY);
+        return saved ? { ...defaultUnitPrices, ...JSON.parse(saved) } : defaultUnitPrices;
+    } catch {
+        return defaultUnitPrices;
+    }
+};
+
+export const saveUnitPrices = (prices: UnitPrices): void => {
+    localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+};
@@ -1,3 +1,7 @@
+import type { JurisdictionId } from './data/jurisdictions';
+import type { Locale } from './i18n';
+import type { ExtraSectionId, GuideSectionId, PromptTemplateRef } from './data/promptTemplates';
+
 export interface GroundingChunk {
     web: {
         uri: string;
@@ -8,4 +12,170 @@ export interface GroundingChunk {
 export interface SearchResult {
     text: string;
     sources: GroundingChunk[];
+    guide?: ProcessGuide | null;
+    // Set when the search was cancelled mid-stream. Incomplete results are never cached.
+    incomplete?: boolean;
+    // Follow-up answers the user chose to append to the guide.
+    addenda?: Addendum[];
+    // "Perfil normativo" the guide was written against; results cached before profiles existed are Colombian.
+    jurisdiction?: JurisdictionId;
+    // Language the guide is written in; guides from before the option was added are Spanish.
+    language?: Locale;
+    // Prompt template version that produced the text; absent for results from before templates.
+    template?: PromptTemplateRef;
+    // Quality gate verdict on the finished text; absent for results from before the gate.
+    quality?: QualityReport;
+}
+
+// A way the guide departs from what the prompt asked for. `section` is the section concerned, or
+// null for text outside the known sections.
+export interface QualityIssue {
+    kind: 'missing-section' | 'deep-heading' | 'uncited-steps' | 'not-applicable-norms' | 'truncated';
+    section: GuideSectionId | null;
+    // deep-heading: headings found; uncited-steps: steps with a citation, out of `total`.
+    count?: number;
+    total?: number;
+}
+
+export interface QualityReport {
+    // 0 to 100, weighted by check (see utils/guideQuality.ts).
+    score: number;
+    passed: boolean;
+    issues: QualityIssue[];
+    citedSteps: number;
+    totalSteps: number;
+    // Optional sections the guide was asked for, so a repaired text is checked against the same list.
+    extraSections: ExtraSectionId[];
+    // Score of the original text, once a repair has replaced it.
+    repairedFrom?: number;
+}
+
+// A follow-up question answered in the context of a guide.
+export interface Addendum {
+    id: string;
+    question: string;
+    answer: string;
+    sources: GroundingChunk[];
+    askedAt: number;
+}
+
+export interface ProcessStep {
+    title: string;
+    detail: string;
+    citations: string[];
+}
+
+export interface MaterialParameter {
+    name: string;
+    specification: string;
+    value: number | null;
+    unit: string;
+    citations: string[];
+}
+
+export interface NormReference {
+    code: string;
+    scope: string;
+    citations: string[];
+}
+
+export interface ProcessGuide {
+    title: string;
+    description: string;
+    descriptionCitations: string[];
+    steps: ProcessStep[];
+    materials: MaterialParameter[];
+    norms: NormReference[];
+    // 'schema' when the model filled the response schema, 'markdown' when it was recovered from the streamed text.
+    origin: 'schema' | 'markdown';
+}
+
+// A guide saved into a project. It is a snapshot, so it outlives the cache entry it came from.
+export interface ProjectGuide {
+    id: string;
+    query: string;
+    result: SearchResult;
+    imageUrl: string | null;
+    addedAt: number;
+}
+
+export interface ProjectMetadata {
+    name: string;
+    client: string;
+    location: string;
+    engineer: string;
+}
+
+// A "proyecto (obra)": the ordered processes that together make up its method statement.
+export interface Project extends ProjectMetadata {
+    id: string;
+    guides: ProjectGuide[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type ChecklistStatus = 'cumple' | 'no-cumple' | 'na';
+
+export interface ChecklistItem {
+    id: string;
+    // 'step' comes from "Pasos Clave", 'parameter' from the quality-control parameters and materials.
+    kind: 'step' | 'parameter';
+    title: string;
+    acceptanceCriteria: string;
+    citations: string[];
+    status: ChecklistStatus | null;
+    observations: string;
+    inspector: string;
+    // When the status was last set.
+    checkedAt: number | null;
+}
+
+// One site inspection of a process, e.g. a pour of a foundation beam.
+export interface InspectionChecklist {
+    id: string;
+    // Normalized query of the guide the checklist was built from.
+    query: string;
+    title: string;
+    items: ChecklistItem[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type UsageKind = 'text' | 'structure' | 'follow-up' | 'repair' | 'image';
+
+// One billed call to the AI provider, or, with `cached`, one answer served from the cache instead.
+export interface UsageRecord {
+    id: string;
+    // Normalized query.
+    query: string;
+    // Local date, YYYY-MM-DD.
+    day: string;
+    at: number;
+    kind: UsageKind;
+    provider: string;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    cached: boolean;
+}
+
+export interface UnitPrices {
+    currency: string;
+    inputPerMillionTokens: number;
+    outputPerMillionTokens: number;
+    perImage: number;
+}
+
+// One past search, kept after its cache entry expires so the user's library can be searched,
+// curated and shared.
+export interface HistoryEntry {
+    // Normalized query; searching the same process again updates the entry.
+    query: string;
+    // The query as last typed.
+    label: string;
+    searchedAt: number;
+    favorite: boolean;
+    tags: string[];
+    result: SearchResult;
 }
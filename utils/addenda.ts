@@ -0,0 +1,13 @@
+import type { Addendum } from '../types';
+import { t } from '../i18n';
+
+export const addendumTitle = (addendum: Addendum, index: number): string => t('addenda.title', { number: index + 1, question: addendum.question });
+
+export const formatAddendaText = (addenda: Addendum[]): string => {
+    if (addenda.length === 0) return '';
+    const sections = addenda.map((addendum, index) => {
+        const sources = addendum.sources.map(source => `- ${source.web.title || source.web.uri}: ${source.web.uri}`);
+        return [addendumTitle(addendum, index), '', addendum.answer.trim(), ...(sources.length ? ['', `${t('exports.sources')}:`, ...sources] : [])].join('\n');
+    });
+    return [t('result.addenda').toUpperCase(), '', sections.join('\n\n')].join('\n');
+};
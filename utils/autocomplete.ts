@@ -0,0 +1,114 @@
+import type { HistoryEntry } from '../types';
+import { activityChapters, activityTaxonomy, type TaxonomyActivity } from '../data/activityTaxonomy';
+import { normalizeQuery } from '../services/cacheStore';
+
+export type SuggestionSource = 'favorite' | 'history' | 'taxonomy';
+
+export interface Suggestion {
+    label: string;
+    source: SuggestionSource;
+    // Chapter name, for taxonomy activities.
+    chapter?: string;
+}
+
+const fold = (text: string): string => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Words too common to say anything about the activity.
+const stopWords = new Set(['de', 'del', 'la', 'las', 'el', 'los', 'en', 'y', 'a', 'para', 'con', 'un', 'una']);
+
+const words = (text: string): string[] => fold(text).split(/[^a-z0-9]+/).filter(word => word && !stopWords.has(word));
+
+// Optimal string alignment distance: insertions, deletions, substitutions and swapped neighbours.
+const editDistance = (a: string, b: string): number => {
+    const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) d[0][j] = j;
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+};
+
+// Short words allow no typo, longer ones one or two.
+const allowedTypos = (word: string): number => word.length < 4 ? 0 : word.length < 8 ? 1 : 2;
+
+// How well one typed word matches one candidate word, 0 when it does not. The last typed word may
+// be unfinished, so it is compared with the start of the candidate too.
+const wordScore = (typed: string, candidate: string, isLast: boolean): number => {
+    if (typed === candidate) return 1;
+    if (isLast && candidate.startsWith(typed)) return 0.9;
+    const typos = allowedTypos(typed);
+    if (typos === 0) return 0;
+    if (editDistance(typed, candidate) <= typos) return 0.7;
+    if (isLast && typed.length < candidate.length && editDistance(typed, candidate.slice(0, typed.length)) <= typos) return 0.6;
+    return 0;
+};
+
+// Average over the typed words of their best match; 0 unless every typed word matches.
+const matchScore = (typedWords: string[], text: string): number => {
+    const candidates = words(text);
+    let total = 0;
+    for (const [index, typed] of typedWords.entries()) {
+        const best = Math.max(0, ...candidates.map(candidate => wordScore(typed, candidate, index === typedWords.length - 1)));
+        if (best === 0) return 0;
+        total += best;
+    }
+    return total / typedWords.length;
+};
+
+const activityScore = (typedWords: string[], activity: TaxonomyActivity): number =>
+    Math.max(matchScore(typedWords, activity.name), ...(activity.synonyms || []).map(synonym => 0.95 * matchScore(typedWords, synonym)));
+
+// Past searches rank above taxonomy activities that match as well, and favorites above both.
+const sourceBoost: Record<SuggestionSource, number> = { favorite: 0.3, history: 0.15, taxonomy: 0 };
+
+export const suggestActivities = (input: string, history: HistoryEntry[] = [], limit = 8): Suggestion[] => {
+    const typedWords = words(input);
+    const candidates: (Suggestion & { score: number })[] = [];
+
+    if (typedWords.length === 0) {
+        // Nothing typed yet: favorites, then the latest searches.
+        return [...history]
+            .sort((a, b) => Number(b.favorite) - Number(a.favorite))
+            .slice(0, limit)
+            .map(entry => ({ label: entry.label, source: entry.favorite ? 'favorite' : 'history' }));
+    }
+
+    history.forEach(entry => {
+        const source: SuggestionSource = entry.favorite ? 'favorite' : 'history';
+        const score = matchScore(typedWords, `${entry.label} ${entry.tags.join(' ')}`);
+        if (score > 0) candidates.push({ label: entry.label, source, score: score + sourceBoost[source] });
+    });
+    activityTaxonomy.forEach(activity => {
+        const score = activityScore(typedWords, activity);
+        if (score > 0) candidates.push({ label: activity.name, source: 'taxonomy', chapter: activityChapters[activity.chapter], score });
+    });
+
+    // A past search of a taxonomy activity is listed once, as the past search.
+    const seen = new Set<string>();
+    return candidates
+        .sort((a, b) => b.score - a.score)
+        .filter(candidate => {
+            const key = normalizeQuery(candidate.label);
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, limit)
+        .map(({ score, ...suggestion }) => suggestion);
+};
+
+// The taxonomy name of a query that spells an activity with other accents, capitals or
+// connecting words, so that "excavacion manual cimentaciones" shares the cache of the picked item.
+// Synonyms are left alone: they may mean something narrower than the activity.
+export const canonicalActivity = (query: string): string | null => {
+    const typed = words(query).join(' ');
+    if (!typed) return null;
+    const activity = activityTaxonomy.find(item => words(item.name).join(' ') === typed);
+    return activity ? activity.name : null;
+};
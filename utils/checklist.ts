@@ -0,0 +1,72 @@
+import type { ChecklistItem, ChecklistStatus, InspectionChecklist, ProcessGuide } from '../types';
+import { localeTag, t } from '../i18n';
+import { toCsv } from './csv';
+
+export const checklistStatuses: ChecklistStatus[] = ['cumple', 'no-cumple', 'na'];
+
+export const checklistStatusLabel = (status: ChecklistStatus | null): string =>
+    status ? t(`checklist.status.${status}`) : t('checklist.pending');
+
+export const checklistKindLabel = (kind: ChecklistItem['kind']): string => t(`checklist.kind.${kind}`);
+
+const newItem = (kind: ChecklistItem['kind'], title: string, acceptanceCriteria: string, citations: string[]): ChecklistItem => ({
+    id: crypto.randomUUID(),
+    kind,
+    title,
+    acceptanceCriteria,
+    citations,
+    status: null,
+    observations: '',
+    inspector: '',
+    checkedAt: null,
+});
+
+// One item per key step and one per parameter. A parameter with a value is checked against it
+// ("21 MPa"); otherwise its written specification is the criterion.
+export const buildChecklistItems = (guide: ProcessGuide): ChecklistItem[] => [
+    ...guide.steps.map(step => newItem('step', step.title, step.detail || t('checklist.defaultCriterion'), step.citations)),
+    ...guide.materials.map(material => newItem(
+        'parameter',
+        material.name,
+        material.value !== null ? `${material.specification} (${material.value}${material.unit ? ` ${material.unit}` : ''})` : material.specification,
+        material.citations,
+    )),
+];
+
+export const createChecklist = (normalizedQuery: string, guide: ProcessGuide): InspectionChecklist => {
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        query: normalizedQuery,
+        title: guide.title || normalizedQuery,
+        items: buildChecklistItems(guide),
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+export const formatCheckedAt = (timestamp: number | null): string =>
+    timestamp ? new Date(timestamp).toLocaleString(localeTag(), { dateStyle: 'short', timeStyle: 'short' }) : '';
+
+export const checklistSummary = (checklist: InspectionChecklist): Record<ChecklistStatus | 'pending', number> => {
+    const summary = { 'cumple': 0, 'no-cumple': 0, 'na': 0, 'pending': 0 };
+    checklist.items.forEach(item => { summary[item.status ?? 'pending']++; });
+    return summary;
+};
+
+export const formatChecklistCsv = (checklist: InspectionChecklist): string => {
+    const header = ['#', t('checklist.column.kind'), t('checklist.column.item'), t('checklist.acceptanceCriteria'), t('checklist.column.citations'),
+        t('checklist.column.status'), t('checklist.observations'), t('checklist.inspector'), t('checklist.column.dateTime')];
+    const rows = checklist.items.map((item, index) => [
+        String(index + 1),
+        checklistKindLabel(item.kind),
+        item.title,
+        item.acceptanceCriteria,
+        item.citations.join(' | '),
+        checklistStatusLabel(item.status),
+        item.observations,
+        item.inspector,
+        formatCheckedAt(item.checkedAt),
+    ]);
+    return toCsv([header, ...rows]);
+};
@@ -0,0 +1,48 @@
+import type { jsPDF } from 'jspdf';
+import type { InspectionChecklist } from '../types';
+import { createPdfWriter } from './pdfWriter';
+import { t } from '../i18n';
+import { checklistKindLabel, checklistStatusLabel, checklistSummary, formatCheckedAt } from './checklist';
+import { formatReportDate, pdfDisclaimer } from './guidePdf';
+
+// Landscape, so the eight columns of the inspection record stay readable.
+export const buildChecklistPdf = (checklist: InspectionChecklist): jsPDF => {
+    const writer = createPdfWriter({ orientation: 'l' });
+    const summary = checklistSummary(checklist);
+
+    writer.heading(t('checklist.pdfTitle', { title: checklist.title }), 1, { inToc: false });
+    writer.paragraph([
+        { text: `${t('checklist.startedAtLabel')}: `, bold: true },
+        { text: formatCheckedAt(checklist.createdAt) },
+        { text: `    ${checklistStatusLabel('cumple')}: `, bold: true },
+        { text: String(summary['cumple']) },
+        { text: `    ${checklistStatusLabel('no-cumple')}: `, bold: true },
+        { text: String(summary['no-cumple']) },
+        { text: `    ${checklistStatusLabel('na')}: `, bold: true },
+        { text: String(summary['na']) },
+        { text: `    ${t('checklist.pendingPlural')}: `, bold: true },
+        { text: String(summary['pending']) },
+    ]);
+    writer.space(6);
+
+    writer.table(
+        ['#', t('checklist.column.item'), t('checklist.acceptanceCriteria'), t('checklist.column.citations'), t('checklist.column.status'),
+            t('checklist.observations'), t('checklist.inspector'), t('checklist.column.date')],
+        checklist.items.map((item, index) => [
+            String(index + 1),
+            `${checklistKindLabel(item.kind)}: ${item.title}`,
+            item.acceptanceCriteria,
+            item.citations.join('\n'),
+            checklistStatusLabel(item.status),
+            item.observations,
+            item.inspector,
+            formatCheckedAt(item.checkedAt),
+        ]),
+        { size: 8, highlight: (row, column) => column === 4 && checklist.items[row].status === 'no-cumple' },
+    );
+
+    writer.space(24);
+    writer.paragraph(`${t('checklist.inspectorSignature')}: ______________________________        ${t('checklist.residentSignature')}: ______________________________`);
+
+    return writer.finalize({ header: t('checklist.pdfHeader', { title: checklist.title, date: formatReportDate() }), footer: pdfDisclaimer() });
+};
@@ -0,0 +1,235 @@
+import { verificationLabel, verifyCitation, type CitationVerification } from './verifyCitation';
+import { jurisdictions, type JurisdictionId } from '../data/jurisdictions';
+import { t } from '../i18n';
+
+// Finds references to construction norms in the model output, e.g. "NSR-10, Título C.5.2",
+// "NTC 673", "RNE, Norma E.060, Artículo 5.3" or "NEC-SE-HM, 3.3.1". Only the codes of the guide's
+// jurisdiction profile are looked for. Works on partial text while it streams.
+
+// A family of `citationPatterns`, e.g. "NSR-10" or "RNE".
+export type NormFamily = string;
+
+export interface Citation {
+    // Canonical key shared by every mention of the same article, e.g. "NSR-10 C.5.2" or "NTC 673".
+    id: string;
+    family: NormFamily;
+    // Title, chapter, section or article within the norm ("C.5.2", "20.2"); for NTC, the norm number,
+    // or the adopted standard for ISO adoptions ("ISO 9001", "ISO/IEC 17025").
+    section: string | null;
+    label: string;
+    start: number;
+    end: number;
+}
+
+interface CitationPattern {
+    pattern: RegExp;
+    section: (match: RegExpExecArray) => string | null;
+}
+
+const nsrSection = String.raw`[A-Z](?:\.\d+)*`;
+const articleWords = String.raw`(?:T[íi]tulo|Tít\.|Art[íi]culo|Art\.|Secci[óo]n|Cap[íi]tulo|Cap\.|Numeral|Num\.|§)`;
+// Technical norms of the Peruvian RNE: "E.060", "IS.010", "EM.010", "A.130"...
+const rneNorm = String.raw`(?:E|IS|EM|EC|A|G|GH|OS|TH|CE)\.\d{3}`;
+
+// Matching is case-sensitive on the acronyms so Spanish words such as "a ras de" are not mistaken for norms.
+const citationPatterns: Record<NormFamily, CitationPattern[]> = {
+    // Colombia
+    'NSR-10': [{
+        pattern: new RegExp(String.raw`\bNSR[-\s]?10\b(?:\s*[,:]?\s*(?:${articleWords}\s*)?(${nsrSection})\b)?`, 'g'),
+        section: match => match[1] || null,
+    }],
+    // "NTC-ISO 9001" adopts ISO 9001 under its own number, so it is keyed by the ISO standard.
+    NTC: [{
+        pattern: /\b(?:NTC|ICONTEC)(?:[\s-]+(ISO(?:\/IEC)?))?[\s-]*(\d{1,5}(?:-\d{1,3})?)\b/g,
+        section: match => match[1] ? `${match[1]} ${match[2]}` : match[2],
+    }],
+    RAS: [{
+        pattern: new RegExp(String.raw`\bRAS\b(?:[\s-]*(?:2000|2017))?(?:\s*[,:]?\s*(?:${articleWords}\s*)([A-Z](?:\.\d+)*|\d+(?:\.\d+)*)\b)?`, 'g'),
+        section: match => match[1] || null,
+    }],
+    RETIE: [{
+        pattern: new RegExp(String.raw`\bRETIE\b(?:\s*[,:]?\s*${articleWords}\s*(\d+(?:\.\d+)*))?`, 'g'),
+        section: match => match[1] || null,
+    }],
+    RETILAP: [{
+        pattern: new RegExp(String.raw`\bRETILAP\b(?:\s*[,:]?\s*${articleWords}\s*(\d+(?:\.\d+)*))?`, 'g'),
+        section: match => match[1] || null,
+    }],
+    RITEL: [{
+        pattern: new RegExp(String.raw`\bRITEL\b(?:\s*[,:]?\s*${articleWords}\s*(\d+(?:\.\d+)*))?`, 'g'),
+        section: match => match[1] || null,
+    }],
+
+    // Perú. RNE norms are cited by their number ("E.060"), with or without "RNE" in front.
+    RNE: [
+        {
+            pattern: new RegExp(String.raw`(?:\bRNE\b\s*[,:]?\s*)?(?:Norma\s+(?:T[ée]cnica\s+)?)?\b(${rneNorm})\b(?:\s*[,:]?\s*(?:${articleWords}\s*)?(\d+(?:\.\d+)*))?`, 'g'),
+            section: match => match[2] ? `${match[1]}, ${match[2]}` : match[1],
+        },
+        {
+            pattern: /\bRNE\b/g,
+            section: () => null,
+        },
+    ],
+    NTP: [{
+        pattern: /\bNTP\b(?:[\s-]+ISO)?[\s-]*(\d{3}\.\d{3}(?:[:-]\d{4})?)?/g,
+        section: match => match[1] || null,
+    }],
+    CNE: [{
+        pattern: new RegExp(String.raw`\bCNE\b(?:[\s-]*Utilizaci[óo]n)?(?:\s*[,:]?\s*(?:${articleWords}\s*)?(\d{3}-\d{3}|\d+(?:\.\d+)*))?`, 'g'),
+        section: match => match[1] || null,
+    }],
+
+    // Ecuador. NEC chapters carry their own code ("NEC-SE-HM").
+    NEC: [{
+        pattern: new RegExp(String.raw`\bNEC(?:[\s-]?(?:15|2015))?(?:[\s-]+((?:SE|HS|DR|SB)-[A-Z]{2,4}))?\b(?:\s*[,:]?\s*(?:${articleWords}\s*)?(\d+(?:\.\d+)*))?`, 'g'),
+        section: match => [match[1], match[2]].filter(Boolean).join(', ') || null,
+    }],
+    INEN: [{
+        pattern: /\b(?:NTE\s+)?INEN\b(?:[\s-]+ISO)?[\s-]*(\d{1,5}(?:-\d{1,3})?)?/g,
+        section: match => match[1] || null,
+    }],
+
+    // Panamá
+    'REP-2014': [{
+        pattern: new RegExp(String.raw`\bREP[-\s]?(?:2014|14)\b(?:\s*[,:]?\s*(?:${articleWords}\s*)?(\d+(?:\.\d+)*))?`, 'g'),
+        section: match => match[1] || null,
+    }],
+    'ACI 318': [{
+        pattern: new RegExp(String.raw`\bACI[\s-]*318(?:[-\s]?\d{2}\b)?(?:\s*[,:]?\s*(?:${articleWords}\s*)?(\d+(?:\.\d+)*))?`, 'g'),
+        section: match => match[1] || null,
+    }],
+    RIE: [{
+        pattern: new RegExp(String.raw`\bRIE\b(?:\s*[,:]?\s*${articleWords}\s*(\d+(?:\.\d+)*))?`, 'g'),
+        section: match => match[1] || null,
+    }],
+    COPANIT: [{
+        pattern: /\b(?:DGNTI[-\s]?)?COPANIT\b[\s-]*(\d{1,4}(?:-\d{1,4})*)?/g,
+        section: match => match[1] || null,
+    }],
+};
+
+export const citationId = (family: NormFamily, section: string | null): string =>
+    section ? `${family} ${section}` : family;
+
+export const extractCitations = (text: string, jurisdiction: JurisdictionId): Citation[] => {
+    const citations: Citation[] = [];
+    const patterns = jurisdictions[jurisdiction].codes.flatMap(({ family }) => citationPatterns[family].map(pattern => ({ family, ...pattern })));
+    for (const { family, pattern, section } of patterns) {
+        pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text)) !== null) {
+            const citationSection = section(match);
+            citations.push({
+                id: citationId(family, citationSection),
+                family,
+                section: citationSection,
+                label: match[0].trim(),
+                start: match.index,
+                end: match.index + match[0].trimEnd().length,
+            });
+        }
+    }
+    // Overlaps (e.g. "NTC" inside a longer match) keep the earliest, longest match.
+    citations.sort((a, b) => a.start - b.start || b.end - a.end);
+    return citations.filter((citation, index) => index === 0 || citation.start >= citations[index - 1].end);
+};
+
+export type TextSegment = string | Citation;
+
+// Splits text into plain runs and citations, for rendering each citation as a chip.
+export const splitCitations = (text: string, jurisdiction: JurisdictionId): TextSegment[] => {
+    const segments: TextSegment[] = [];
+    let cursor = 0;
+    for (const citation of extractCitations(text, jurisdiction)) {
+        if (citation.start > cursor) segments.push(text.slice(cursor, citation.start));
+        segments.push(citation);
+        cursor = citation.end;
+    }
+    if (cursor < text.length) segments.push(text.slice(cursor));
+    return segments;
+};
+
+// --- "Normas citadas" index ---
+
+export interface CitationLocation {
+    // Heading of the section the mention appears in, e.g. "Pasos Clave para el Éxito".
+    section: string;
+    // 1-based number of the top-level numbered step, when the mention is inside one.
+    step: number | null;
+}
+
+export interface CitationIndexEntry {
+    id: string;
+    family: NormFamily;
+    section: string | null;
+    // First form in which the model wrote it, used as display label.
+    label: string;
+    locations: CitationLocation[];
+    verification: CitationVerification;
+}
+
+const stripMarkdown = (text: string): string => text.replace(/\*\*|__|`/g, '').replace(/^#+\s*/, '').trim();
+
+export const buildCitationIndex = (markdown: string, jurisdiction: JurisdictionId): CitationIndexEntry[] => {
+    const entries = new Map<string, CitationIndexEntry>();
+    let currentSection = '';
+    let currentStep: number | null = null;
+
+    for (const line of markdown.split('\n')) {
+        if (/^#{1,6}\s/.test(line)) {
+            currentSection = stripMarkdown(line);
+            currentStep = null;
+        }
+        const stepMatch = line.match(/^(\d+)[.)]\s/);
+        if (stepMatch) {
+            currentStep = parseInt(stepMatch[1], 10);
+        } else if (line.trim() && !/^\s/.test(line) && !/^#/.test(line)) {
+            // A non-indented line that is not a numbered item ends the current step.
+            currentStep = null;
+        }
+
+        for (const citation of extractCitations(line, jurisdiction)) {
+            const entry = entries.get(citation.id) || {
+                id: citation.id,
+                family: citation.family,
+                section: citation.section,
+                label: stripMarkdown(citation.label),
+                locations: [],
+                verification: verifyCitation(citation.family, citation.section),
+            };
+            const alreadyListed = entry.locations.some(l => l.section === currentSection && l.step === currentStep);
+            if (!alreadyListed) {
+                entry.locations.push({ section: currentSection, step: currentStep });
+            }
+            entries.set(citation.id, entry);
+        }
+    }
+
+    const familyOrder = jurisdictions[jurisdiction].codes.map(code => code.family);
+    return Array.from(entries.values()).sort((a, b) =>
+        familyOrder.indexOf(a.family) - familyOrder.indexOf(b.family)
+        || a.id.localeCompare(b.id, 'es', { numeric: true }));
+};
+
+export const formatCitationLocation = (location: CitationLocation): string =>
+    location.step !== null ? t('citations.location', { section: location.section, step: location.step }) : location.section || t('citations.heading');
+
+// Plain-text version of the index, appended to the exports.
+export const formatCitationIndexText = (index: CitationIndexEntry[]): string => {
+    if (index.length === 0) return '';
+    const lines = index.map(entry =>
+        `- ${entry.id} [${verificationLabel(entry.verification.status)}]: ${entry.locations.map(formatCitationLocation).join('; ')}`);
+    return [t('citations.title'), '', ...lines, '', catalogNote(index)].join('\n');
+};
+
+// The catalog only covers the Colombian codes; citations of other profiles stay "Sin verificar".
+export const catalogNote = (index: CitationIndexEntry[]): string => {
+    const catalogVersion = index.find(entry => entry.verification.catalogVersion)?.verification.catalogVersion;
+    return catalogVersion
+        ? t('citations.catalogVersion', { version: catalogVersion })
+        : t('citations.notInCatalog');
+};
+
+export const citationAnchor = (id: string): string =>
+    `norma-${id.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
@@ -0,0 +1,158 @@
+import type { MaterialParameter, ProcessGuide, ProcessStep, SearchResult } from '../types';
+import { parseProcessGuideMarkdown } from '../services/processGuide';
+import { buildCitationIndex, type CitationIndexEntry } from './citations';
+import { jurisdictionOf } from '../data/jurisdictions';
+
+// Lines up two process guides so alternatives can be read side by side. Steps keep their
+// order (an alignment, like a diff); materials are paired by name; norms by citation id.
+
+export interface AlignedRow<T> {
+    left: T | null;
+    right: T | null;
+}
+
+export interface ComparedStep extends ProcessStep {
+    number: number;
+    // Durations mentioned in the step ("7 días", "24 horas"), as written.
+    durations: string[];
+}
+
+export interface NormComparison {
+    id: string;
+    label: string;
+    inLeft: boolean;
+    inRight: boolean;
+}
+
+export interface ProcessComparison {
+    left: { query: string; guide: ProcessGuide };
+    right: { query: string; guide: ProcessGuide };
+    steps: AlignedRow<ComparedStep>[];
+    materials: AlignedRow<MaterialParameter>[];
+    norms: NormComparison[];
+}
+
+const stopWords = new Set([
+    'a', 'al', 'con', 'de', 'del', 'e', 'el', 'en', 'la', 'las', 'lo', 'los', 'o', 'para', 'por', 'se', 'segun', 'sin', 'su', 'sus', 'u', 'un', 'una', 'y',
+]);
+
+// Accent-free words of at least three letters, cut to a crude stem so "vaciado" and "vaciar" meet.
+const keywords = (text: string): Set<string> => new Set(
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(word => word.length >= 3 && !stopWords.has(word))
+        .map(word => word.slice(0, 5)),
+);
+
+const similarity = (a: Set<string>, b: Set<string>): number => {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(word => { if (b.has(word)) shared++; });
+    return shared / (a.size + b.size - shared);
+};
+
+const matchThreshold = 0.25;
+
+const durationPattern = /\d+(?:[.,]\d+)?(?:\s*(?:a|-|–)\s*\d+(?:[.,]\d+)?)?\s*(?:minutos?|min\b|horas?|h\b|d[ií]as?|semanas?|meses?)/gi;
+
+export const extractDurations = (text: string): string[] => Array.from(new Set(text.match(durationPattern) || []));
+
+// Longest-common-subsequence style alignment on step similarity: matched steps share a row,
+// unmatched ones get a row of their own, and both sides keep their original order.
+const alignSteps = (left: ComparedStep[], right: ComparedStep[]): AlignedRow<ComparedStep>[] => {
+    const leftWords = left.map(step => keywords(step.title));
+    const rightWords = right.map(step => keywords(step.title));
+    const score = left.map((_, i) => right.map((_, j) => {
+        const titleScore = similarity(leftWords[i], rightWords[j]);
+        return titleScore >= matchThreshold ? titleScore : 0;
+    }));
+
+    const best: number[][] = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0));
+    for (let i = left.length - 1; i >= 0; i--) {
+        for (let j = right.length - 1; j >= 0; j--) {
+            best[i][j] = Math.max(best[i + 1][j], best[i][j + 1], score[i][j] > 0 ? best[i + 1][j + 1] + score[i][j] : 0);
+        }
+    }
+
+    const rows: AlignedRow<ComparedStep>[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < left.length && j < right.length) {
+        if (score[i][j] > 0 && best[i][j] === best[i + 1][j + 1] + score[i][j]) {
+            rows.push({ left: left[i++], right: right[j++] });
+        } else if (best[i + 1][j] >= best[i][j + 1]) {
+            rows.push({ left: left[i++], right: null });
+        } else {
+            rows.push({ left: null, right: right[j++] });
+        }
+    }
+    while (i < left.length) rows.push({ left: left[i++], right: null });
+    while (j < right.length) rows.push({ left: null, right: right[j++] });
+    return rows;
+};
+
+// Greedy pairing by name, best matches first; the result follows the left guide's order, with
+// materials only found on the right at the end.
+const pairMaterials = (left: MaterialParameter[], right: MaterialParameter[]): AlignedRow<MaterialParameter>[] => {
+    const candidates: { i: number; j: number; score: number }[] = [];
+    left.forEach((a, i) => right.forEach((b, j) => {
+        const score = similarity(keywords(a.name), keywords(b.name));
+        if (score >= matchThreshold) candidates.push({ i, j, score });
+    }));
+    candidates.sort((a, b) => b.score - a.score);
+
+    const partner = new Map<number, number>();
+    const taken = new Set<number>();
+    for (const { i, j } of candidates) {
+        if (partner.has(i) || taken.has(j)) continue;
+        partner.set(i, j);
+        taken.add(j);
+    }
+
+    return [
+        ...left.map((material, i) => ({ left: material, right: partner.has(i) ? right[partner.get(i)!] : null })),
+        ...right.filter((_, j) => !taken.has(j)).map(material => ({ left: null, right: material })),
+    ];
+};
+
+const compareNorms = (left: CitationIndexEntry[], right: CitationIndexEntry[]): NormComparison[] => {
+    const norms = new Map<string, NormComparison>();
+    left.forEach(entry => norms.set(entry.id, { id: entry.id, label: entry.label, inLeft: true, inRight: false }));
+    right.forEach(entry => {
+        const existing = norms.get(entry.id);
+        if (existing) existing.inRight = true;
+        else norms.set(entry.id, { id: entry.id, label: entry.label, inLeft: false, inRight: true });
+    });
+    return Array.from(norms.values()).sort((a, b) => a.id.localeCompare(b.id, 'es', { numeric: true }));
+};
+
+const toComparedSteps = (steps: ProcessStep[]): ComparedStep[] =>
+    steps.map((step, index) => ({ ...step, number: index + 1, durations: extractDurations(`${step.title} ${step.detail}`) }));
+
+// Guides whose markdown has none of the expected sections compare as empty.
+export const guideOf = (result: SearchResult): ProcessGuide => result.guide || parseProcessGuideMarkdown(result.text, jurisdictionOf(result).id) || {
+    title: '', description: '', descriptionCitations: [], steps: [], materials: [], norms: [], origin: 'markdown',
+};
+
+export const compareProcesses = (
+    left: { query: string; result: SearchResult },
+    right: { query: string; result: SearchResult },
+): ProcessComparison => {
+    const leftGuide = guideOf(left.result);
+    const rightGuide = guideOf(right.result);
+    return {
+        left: { query: left.query, guide: leftGuide },
+        right: { query: right.query, guide: rightGuide },
+        steps: alignSteps(toComparedSteps(leftGuide.steps), toComparedSteps(rightGuide.steps)),
+        materials: pairMaterials(leftGuide.materials, rightGuide.materials),
+        norms: compareNorms(
+            buildCitationIndex(left.result.text, jurisdictionOf(left.result).id),
+            buildCitationIndex(right.result.text, jurisdictionOf(right.result).id),
+        ),
+    };
+};
+
+export const formatMaterial = (material: MaterialParameter): string =>
+    material.value !== null
+        ? `${material.name}: ${material.value}${material.unit ? ` ${material.unit}` : ''}`
+        : `${material.name}: ${material.specification}`;
@@ -0,0 +1,56 @@
+import type { jsPDF } from 'jspdf';
+import { createPdfWriter } from './pdfWriter';
+import { formatMaterial, type ComparedStep, type ProcessComparison } from './compareGuides';
+import { formatReportDate, pdfDisclaimer } from './guidePdf';
+import { t } from '../i18n';
+
+const stepText = (step: ComparedStep | null): string => step ? `${step.number}. ${step.title}${step.detail ? `\n${step.detail}` : ''}` : '';
+
+export const buildComparisonPdf = (comparison: ProcessComparison): jsPDF => {
+    const { left, right } = comparison;
+    const writer = createPdfWriter({ orientation: 'l' });
+
+    writer.cover({
+        title: t('comparison.pdfTitle'),
+        subtitle: `${left.query} vs. ${right.query}`,
+        details: [
+            t('exports.generatedOn', { date: formatReportDate() }),
+            t('comparison.pdfHighlightNote'),
+        ],
+    });
+
+    writer.heading(t('comparison.description'), 1);
+    writer.table([left.query, right.query], [[left.guide.description, right.guide.description]]);
+
+    // Unmatched rows are highlighted on the side that has content.
+    writer.heading(t('comparison.steps'), 1);
+    writer.table(
+        [t('comparison.stepsOf', { query: left.query }), t('comparison.time'), t('comparison.stepsOf', { query: right.query }), t('comparison.time')],
+        comparison.steps.map(row => [
+            stepText(row.left),
+            row.left?.durations.join(', ') || '',
+            stepText(row.right),
+            row.right?.durations.join(', ') || '',
+        ]),
+        { highlight: (index, column) => !comparison.steps[index][column < 2 ? 'right' : 'left'] && !!comparison.steps[index][column < 2 ? 'left' : 'right'] },
+    );
+
+    writer.heading(t('comparison.materials'), 1);
+    writer.table(
+        [left.query, right.query],
+        comparison.materials.map(row => [row.left ? formatMaterial(row.left) : '', row.right ? formatMaterial(row.right) : '']),
+        { highlight: (index, column) => !comparison.materials[index][column === 0 ? 'right' : 'left'] },
+    );
+
+    writer.heading(t('citations.title'), 1);
+    writer.table(
+        [t('exports.norm'), left.query, right.query],
+        comparison.norms.map(norm => [norm.label, norm.inLeft ? t('comparison.yes') : '—', norm.inRight ? t('comparison.yes') : '—']),
+        { highlight: (index, column) => {
+            const norm = comparison.norms[index];
+            return column === 1 ? norm.inLeft && !norm.inRight : column === 2 && norm.inRight && !norm.inLeft;
+        } },
+    );
+
+    return writer.finalize({ header: t('comparison.pdfHeader', { left: left.query, right: right.query }), footer: pdfDisclaimer() });
+};
@@ -0,0 +1,6 @@
+const csvCell = (value: string): string => /[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Semicolon-separated with a BOM: what Excel expects on Spanish-locale machines, where the comma
+// is the decimal separator.
+export const toCsv = (rows: string[][]): string =>
+    '\uFEFF' + rows.map(row => row.map(csvCell).join(';')).join('\r\n') + '\r\n';
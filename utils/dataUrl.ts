@@ -0,0 +1,35 @@
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+    const binary = atob(dataUrl.substring(dataUrl.indexOf(',') + 1));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+export const dataUrlMimeType = (dataUrl: string): string => {
+    const match = dataUrl.match(/^data:([^;,]+)/);
+    return match ? match[1] : 'application/octet-stream';
+};
+
+// Reads the pixel size from the PNG header or the JPEG frame marker, without decoding the image.
+export const imageSize = (bytes: Uint8Array): { width: number; height: number } | null => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes.length > 24 && bytes[0] === 0x89 && bytes[1] === 0x50) {
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+    if (bytes.length > 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+        let offset = 2;
+        while (offset + 9 < bytes.length) {
+            if (bytes[offset] !== 0xff) return null;
+            const marker = bytes[offset + 1];
+            const length = view.getUint16(offset + 2);
+            // SOF0-SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC).
+            if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+                return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+            }
+            offset += 2 + length;
+        }
+    }
+    return null;
+};
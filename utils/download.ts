@@ -0,0 +1,15 @@
+// Triggers a browser download of generated content without leaving the page.
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    
+    link.click();
+    
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,269 @@
+import {
+    AlignmentType,
+    BorderStyle,
+    Document,
+    ExternalHyperlink,
+    Footer,
+    HeadingLevel,
+    ImageRun,
+    LevelFormat,
+    Packer,
+    PageNumber,
+    Paragraph,
+    ShadingType,
+    Table,
+    TableCell,
+    TableRow,
+    TextRun,
+    WidthType,
+    type ParagraphChild,
+} from 'docx';
+import type { Addendum, GroundingChunk, SearchResult } from '../types';
+import { parseMarkdown, type Block, type Inline } from './markdown';
+import { catalogNote, formatCitationLocation, type CitationIndexEntry } from './citations';
+import { verificationLabel } from './verifyCitation';
+import { dataUrlMimeType, dataUrlToBytes, imageSize } from './dataUrl';
+import { formatReportDate, pdfDisclaimer } from './guidePdf';
+import { t } from '../i18n';
+import { addendumTitle } from './addenda';
+import { jurisdictionOf } from '../data/jurisdictions';
+import { computeQuantities, quantityInputRows, quantityResultRows, type QuantityInputs } from './quantities';
+
+// Word structures for the guide: real headings, numbered and bulleted lists, tables and
+// hyperlinks, so the method statement can be edited in Word before it is submitted.
+
+const ORDERED_LIST = 'lista-numerada';
+const accentColor = '0E7490';
+const maxImageWidth = 600;
+
+type RunStyle = { bold?: boolean; italics?: boolean; strike?: boolean };
+
+const inlinesToChildren = (nodes: Inline[], style: RunStyle = {}): ParagraphChild[] =>
+    nodes.flatMap((node): ParagraphChild[] => {
+        switch (node.type) {
+            case 'text':
+                return [new TextRun({ ...style, text: node.text })];
+            case 'code':
+                return [new TextRun({ ...style, text: node.text, font: 'Courier New' })];
+            case 'strong':
+                return inlinesToChildren(node.children, { ...style, bold: true });
+            case 'emphasis':
+                return inlinesToChildren(node.children, { ...style, italics: true });
+            case 'strike':
+                return inlinesToChildren(node.children, { ...style, strike: true });
+            case 'link':
+                return [new ExternalHyperlink({
+                    link: node.href,
+                    children: node.children.map(child => child.type === 'text'
+                        ? new TextRun({ ...style, text: child.text, style: 'Hyperlink' })
+                        : inlinesToChildren([child], style)).flat(),
+                })];
+            case 'break':
+                return [new TextRun({ break: 1 })];
+        }
+    });
+
+const headingLevels = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4];
+
+const cell = (children: ParagraphChild[], header = false) => new TableCell({
+    children: [new Paragraph({ children })],
+    shading: header ? { type: ShadingType.CLEAR, color: 'auto', fill: 'ECFEFF' } : undefined,
+});
+
+export const docxTable = (header: ParagraphChild[][], rows: ParagraphChild[][][]): Table => new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+        new TableRow({ tableHeader: true, children: header.map(children => cell(children, true)) }),
+        ...rows.map(row => new TableRow({ children: row.map(children => cell(children)) })),
+    ],
+});
+
+const plainRuns = (text: string, bold = false): ParagraphChild[] => [new TextRun({ text, bold })];
+
+// Each ordered list gets its own numbering instance, so numbering restarts at its first item.
+// The counter is shared by all converters because one document can hold several markdown texts
+// (the guide and its addenda).
+let listInstance = 0;
+
+const createBlockConverter = () => {
+    const convert = (blocks: Block[], depth = 0): (Paragraph | Table)[] => blocks.flatMap((block): (Paragraph | Table)[] => {
+        switch (block.type) {
+            case 'heading':
+                return [new Paragraph({ heading: headingLevels[Math.min(block.level, headingLevels.length) - 1], children: inlinesToChildren(block.children) })];
+            case 'paragraph':
+                return [new Paragraph({ children: inlinesToChildren(block.children), indent: depth ? { left: 360 * depth } : undefined })];
+            case 'list': {
+                const instance = ++listInstance;
+                return block.items.flatMap(item => {
+                    const [first, ...rest] = item.children;
+                    const leading = first && first.type === 'paragraph' ? inlinesToChildren(first.children) : [];
+                    const nested = first && first.type === 'paragraph' ? rest : item.children;
+                    const paragraph = block.ordered
+                        ? new Paragraph({ children: leading, numbering: { reference: ORDERED_LIST, level: Math.min(depth, 8), instance } })
+                        : new Paragraph({ children: leading, bullet: { level: Math.min(depth, 8) } });
+                    return [paragraph, ...convert(nested, depth + 1)];
+                });
+            }
+            case 'table':
+                return [
+                    docxTable(
+                        block.header.map(header => inlinesToChildren(header, { bold: true })),
+                        block.rows.map(row => row.map(rowCell => inlinesToChildren(rowCell))),
+                    ),
+                    new Paragraph({}),
+                ];
+            case 'code':
+                return block.text.split('\n').map(line => new Paragraph({ children: [new TextRun({ text: line, font: 'Courier New', size: 18 })] }));
+            case 'blockquote':
+                return convert(block.children, depth + 1);
+            case 'rule':
+                return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D1D5DB', space: 1 } } })];
+        }
+    });
+
+    return convert;
+};
+
+export const markdownToDocx = (markdown: string): (Paragraph | Table)[] => createBlockConverter()(parseMarkdown(markdown));
+
+export const citationIndexToDocx = (index: CitationIndexEntry[]): (Paragraph | Table)[] => {
+    if (index.length === 0) return [];
+    return [
+        new Paragraph({ heading: HeadingLevel.HEADING_2, text: t('citations.title') }),
+        docxTable(
+            [t('exports.norm'), t('exports.status'), t('exports.catalogReference'), t('exports.citedIn')].map(title => plainRuns(title, true)),
+            index.map(entry => [
+                plainRuns(entry.id),
+                plainRuns(verificationLabel(entry.verification.status)),
+                plainRuns(entry.verification.title || ''),
+                plainRuns(entry.locations.map(formatCitationLocation).join('; ')),
+            ]),
+        ),
+        new Paragraph({
+            children: [new TextRun({ text: catalogNote(index), italics: true, size: 18 })],
+        }),
+    ];
+};
+
+export const imageToDocx = (imageUrl: string, caption: string): Paragraph[] => {
+    const bytes = dataUrlToBytes(imageUrl);
+    const size = imageSize(bytes) || { width: 4, height: 3 };
+    const width = Math.min(maxImageWidth, size.width);
+    return [
+        new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [new ImageRun({
+                type: dataUrlMimeType(imageUrl) === 'image/png' ? 'png' : 'jpg',
+                data: bytes,
+                transformation: { width, height: Math.round(width * (size.height / size.width)) },
+            })],
+        }),
+        new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: caption, italics: true, size: 18 })] }),
+    ];
+};
+
+export const addendaToDocx = (addenda: Addendum[] = []): (Paragraph | Table)[] => {
+    if (addenda.length === 0) return [];
+    return [
+        new Paragraph({ heading: HeadingLevel.HEADING_2, text: t('result.addenda') }),
+        ...addenda.flatMap((addendum, index) => [
+            new Paragraph({ children: plainRuns(addendumTitle(addendum, index), true) }),
+            ...markdownToDocx(addendum.answer),
+            ...addendum.sources.map(source => new Paragraph({
+                children: [new ExternalHyperlink({
+                    link: source.web.uri,
+                    children: [new TextRun({ text: source.web.title || source.web.uri, style: 'Hyperlink', size: 18 })],
+                })],
+            })),
+        ]),
+    ];
+};
+
+const labelledRowsToDocx = (header: [string, string], rows: [string, string][]): Table =>
+    docxTable(header.map(title => plainRuns(title, true)), rows.map(row => row.map(text => plainRuns(text))));
+
+export const quantitiesToDocx = (inputs: QuantityInputs): (Paragraph | Table)[] => [
+    new Paragraph({ heading: HeadingLevel.HEADING_2, text: t('quantities.title') }),
+    labelledRowsToDocx([t('exports.input'), t('exports.value')], quantityInputRows(inputs)),
+    new Paragraph({ text: '' }),
+    labelledRowsToDocx([t('exports.quantity'), t('exports.result')], quantityResultRows(computeQuantities(inputs))),
+];
+
+export const sourcesToDocx = (sources: GroundingChunk[]): Paragraph[] => {
+    if (sources.length === 0) return [];
+    const instance = ++listInstance;
+    return [
+        new Paragraph({ heading: HeadingLevel.HEADING_2, text: t('result.sources') }),
+        ...sources.map(source => new Paragraph({
+            numbering: { reference: ORDERED_LIST, level: 0, instance },
+            children: [new ExternalHyperlink({
+                link: source.web.uri,
+                children: [new TextRun({ text: source.web.title || source.web.uri, style: 'Hyperlink' })],
+            })],
+        })),
+    ];
+};
+
+export const createGuideDocument = (title: string, children: (Paragraph | Table)[]): Document => new Document({
+    title,
+    creator: 'Guía Procesos Constructivos',
+    numbering: {
+        config: [{
+            reference: ORDERED_LIST,
+            levels: Array.from({ length: 9 }, (_, level) => ({
+                level,
+                format: level % 2 === 0 ? LevelFormat.DECIMAL : LevelFormat.LOWER_LETTER,
+                text: `%${level + 1}.`,
+                alignment: AlignmentType.START,
+                style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+            })),
+        }],
+    },
+    styles: {
+        paragraphStyles: [
+            { id: 'Heading1', name: 'Heading 1', basedOn: 'Normal', next: 'Normal', quickFormat: true, run: { size: 32, bold: true, color: accentColor }, paragraph: { spacing: { before: 240, after: 120 } } },
+            { id: 'Heading2', name: 'Heading 2', basedOn: 'Normal', next: 'Normal', quickFormat: true, run: { size: 26, bold: true, color: accentColor }, paragraph: { spacing: { before: 240, after: 120 } } },
+        ],
+    },
+    sections: [{
+        footers: {
+            default: new Footer({
+                children: [new Paragraph({
+                    alignment: AlignmentType.CENTER,
+                    children: [
+                        new TextRun({ text: `${pdfDisclaimer()} — ${t('exports.page')} `, size: 16 }),
+                        new TextRun({ children: [PageNumber.CURRENT], size: 16 }),
+                    ],
+                })],
+            }),
+        },
+        children,
+    }],
+});
+
+interface GuideDocxInput {
+    query: string;
+    result: SearchResult;
+    imageUrl: string | null;
+    citationIndex: CitationIndexEntry[];
+    quantities?: QuantityInputs | null;
+}
+
+export const buildGuideDocx = ({ query, result, imageUrl, citationIndex, quantities }: GuideDocxInput): Promise<Blob> => {
+    const title = `${t('result.title')} ${query}`;
+    const details = `${t('exports.generatedOn', { date: formatReportDate() })}. ${t('exports.basedOn', { regulation: jurisdictionOf(result).regulation })}`;
+    const document = createGuideDocument(title, [
+        new Paragraph({ heading: HeadingLevel.TITLE, text: title }),
+        new Paragraph({ children: [new TextRun({ text: details, italics: true, color: '6B7280' })] }),
+        ...markdownToDocx(result.text),
+        ...addendaToDocx(result.addenda),
+        ...(quantities ? quantitiesToDocx(quantities) : []),
+        ...citationIndexToDocx(citationIndex),
+        ...(imageUrl ? [
+            new Paragraph({ heading: HeadingLevel.HEADING_2, text: t('result.illustration') }),
+            ...imageToDocx(imageUrl, t('exports.illustrationCaption', { query })),
+        ] : []),
+        ...sourcesToDocx(result.sources),
+    ]);
+    return Packer.toBlob(document);
+};
@@ -0,0 +1,153 @@
+import type { jsPDF } from 'jspdf';
+import type { Addendum, GroundingChunk, SearchResult } from '../types';
+import { parseMarkdown, type Block, type Inline } from './markdown';
+import { createPdfWriter, type PdfWriter, type TextRun } from './pdfWriter';
+import { catalogNote, formatCitationLocation, type CitationIndexEntry } from './citations';
+import { verificationLabel } from './verifyCitation';
+import { addendumTitle } from './addenda';
+import { jurisdictionOf } from '../data/jurisdictions';
+import { computeQuantities, quantityInputRows, quantityResultRows, type QuantityInputs } from './quantities';
+import { formatDate, t } from '../i18n';
+
+export const inlinesToRuns = (nodes: Inline[], style: Omit<TextRun, 'text'> = {}): TextRun[] =>
+    nodes.flatMap((node): TextRun[] => {
+        switch (node.type) {
+            case 'text':
+            case 'code':
+                return [{ ...style, text: node.text }];
+            case 'strong':
+                return inlinesToRuns(node.children, { ...style, bold: true });
+            case 'emphasis':
+                return inlinesToRuns(node.children, { ...style, italic: true });
+            case 'strike':
+                return inlinesToRuns(node.children, style);
+            case 'link':
+                return inlinesToRuns(node.children, { ...style, url: node.href });
+            case 'break':
+                return [{ ...style, text: '\n' }];
+        }
+    });
+
+export const inlinesToText = (nodes: Inline[]): string => inlinesToRuns(nodes).map(run => run.text).join('');
+
+const writeBlocks = (writer: PdfWriter, blocks: Block[], depth = 0) => {
+    for (const block of blocks) {
+        switch (block.type) {
+            case 'heading':
+                writer.heading(inlinesToText(block.children), block.level);
+                break;
+            case 'paragraph':
+                writer.paragraph(inlinesToRuns(block.children));
+                break;
+            case 'list':
+                block.items.forEach((item, index) => {
+                    const marker = block.ordered ? `${block.start + index}.` : '•';
+                    const [first, ...rest] = item.children;
+                    writer.listItem(marker, first && first.type === 'paragraph' ? inlinesToRuns(first.children) : [], depth);
+                    const nested = first && first.type === 'paragraph' ? rest : item.children;
+                    writeBlocks(writer, nested, depth + 1);
+                });
+                writer.space(4);
+                break;
+            case 'table':
+                writer.table(block.header.map(inlinesToText), block.rows.map(row => row.map(inlinesToText)));
+                break;
+            case 'code':
+                writer.paragraph([{ text: block.text }], { size: 9 });
+                break;
+            case 'blockquote':
+                writeBlocks(writer, block.children, depth + 1);
+                break;
+            case 'rule':
+                writer.rule();
+                break;
+        }
+    }
+};
+
+// `omitTitle` drops level-1 headings, for documents that title each guide themselves.
+export const writeMarkdown = (writer: PdfWriter, markdown: string, { omitTitle = false }: { omitTitle?: boolean } = {}) =>
+    writeBlocks(writer, parseMarkdown(markdown).filter(block => !(omitTitle && block.type === 'heading' && block.level === 1)));
+
+export const writeCitationIndex = (writer: PdfWriter, index: CitationIndexEntry[]) => {
+    if (index.length === 0) return;
+    writer.heading(t('citations.title'), 2);
+    writer.table(
+        [t('exports.norm'), t('exports.status'), t('exports.catalogReference'), t('exports.citedIn')],
+        index.map(entry => [
+            entry.id,
+            verificationLabel(entry.verification.status),
+            entry.verification.title || '',
+            entry.locations.map(formatCitationLocation).join('; '),
+        ]),
+    );
+    writer.paragraph(catalogNote(index), { size: 9 });
+};
+
+// Follow-up answers appended to the guide, each with the sources it was grounded on.
+export const writeAddenda = (writer: PdfWriter, addenda: Addendum[] = []) => {
+    if (addenda.length === 0) return;
+    writer.heading(t('result.addenda'), 2);
+    addenda.forEach((addendum, index) => {
+        writer.paragraph([{ text: addendumTitle(addendum, index), bold: true }]);
+        writeMarkdown(writer, addendum.answer, { omitTitle: true });
+        addendum.sources.forEach(source => {
+            writer.paragraph([{ text: source.web.title || source.web.uri, url: source.web.uri }], { size: 9 });
+        });
+        writer.space(6);
+    });
+};
+
+export const writeQuantities = (writer: PdfWriter, inputs: QuantityInputs) => {
+    writer.heading(t('quantities.title'), 2);
+    writer.table([t('exports.input'), t('exports.value')], quantityInputRows(inputs));
+    writer.space(6);
+    writer.table([t('exports.quantity'), t('exports.result')], quantityResultRows(computeQuantities(inputs)));
+};
+
+export const writeSources = (writer: PdfWriter, sources: GroundingChunk[]) => {
+    if (sources.length === 0) return;
+    writer.heading(t('result.sources'), 2);
+    sources.forEach((source, index) => {
+        writer.listItem(`${index + 1}.`, [
+            { text: source.web.title || source.web.uri, url: source.web.uri },
+            ...(source.web.title ? [{ text: `\n${source.web.uri}`, url: source.web.uri }] : []),
+        ]);
+    });
+};
+
+export const pdfDisclaimer = (): string => t('exports.disclaimer');
+
+export const formatReportDate = (date: Date = new Date()): string =>
+    formatDate(date.getTime(), { year: 'numeric', month: 'long', day: 'numeric' });
+
+interface GuidePdfInput {
+    query: string;
+    result: SearchResult;
+    imageUrl: string | null;
+    citationIndex: CitationIndexEntry[];
+    // Only when the user worked out quantities in the calculator.
+    quantities?: QuantityInputs | null;
+}
+
+export const buildGuidePdf = ({ query, result, imageUrl, citationIndex, quantities }: GuidePdfInput): jsPDF => {
+    const writer = createPdfWriter();
+
+    writer.cover({
+        title: t('exports.guideTitle'),
+        subtitle: query,
+        details: [t('exports.generatedOn', { date: formatReportDate() }), t('exports.basedOn', { regulation: jurisdictionOf(result).regulation })],
+    });
+
+    writeMarkdown(writer, result.text);
+    writeAddenda(writer, result.addenda);
+    if (quantities) writeQuantities(writer, quantities);
+    writeCitationIndex(writer, citationIndex);
+    writeSources(writer, result.sources);
+
+    if (imageUrl) {
+        writer.imagePage(imageUrl, { title: t('result.illustration'), caption: t('exports.illustrationCaption', { query }) });
+    }
+
+    return writer.finalize({ header: `${t('result.title')} ${query}`, footer: pdfDisclaimer() });
+};
@@ -0,0 +1,169 @@
+import type { QualityIssue, QualityReport } from '../types';
+import type { Locale } from '../i18n';
+import type { JurisdictionId } from '../data/jurisdictions';
+import { coreSections, extraSections as optionalSections, type ExtraSectionId, type GuideSection, type GuideSectionId } from '../data/promptTemplates';
+import { extractCitations } from './citations';
+import { guideSectionsOf } from './promptTemplate';
+
+// Quality gate run on the finished stream: checks the guide against what the prompt asks for
+// (its sections, `#`/`##` headings only, a citation on every step, no "no aplica" norms section)
+// and that it does not end mid-sentence.
+
+export const qualityConfig = {
+    // Share of the steps that must cite a norm.
+    minCitedShare: 0.8,
+    // Points of each check in the 0-100 score.
+    weights: { sections: 40, headings: 15, citations: 30, truncation: 15 },
+};
+
+interface GuideBlock {
+    id: GuideSectionId | null;
+    heading: string | null;
+    lines: string[];
+}
+
+const fold = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[*_:]/g, '').toLowerCase().trim();
+
+const headingPattern = /^(#{1,6})\s+(.*)$/;
+
+const matchSection = (title: string, sections: GuideSection<GuideSectionId>[]): GuideSectionId | null => {
+    const folded = fold(title);
+    const section = sections.find(candidate => Object.values(candidate.titles).some(sectionTitle => folded.includes(fold(sectionTitle))));
+    return section ? section.id : null;
+};
+
+// Splits the markdown at the headings of the known sections (any level but the title's). Other
+// headings stay inside the section they appear in.
+const splitSections = (markdown: string, sections: GuideSection<GuideSectionId>[]): GuideBlock[] => {
+    const blocks: GuideBlock[] = [{ id: null, heading: null, lines: [] }];
+    for (const line of markdown.split('\n')) {
+        const heading = line.trim().match(headingPattern);
+        const id = heading && heading[1].length > 1 ? matchSection(heading[2], sections) : null;
+        if (id) {
+            blocks.push({ id, heading: line, lines: [] });
+        } else {
+            blocks[blocks.length - 1].lines.push(line);
+        }
+    }
+    return blocks;
+};
+
+const hasContent = (block: GuideBlock) => block.lines.some(line => line.trim());
+
+// Each numbered step with the lines below it, up to the next step.
+const stepItems = (lines: string[]): string[] => {
+    const items: string[] = [];
+    for (const line of lines) {
+        if (/^\s*\d+[.)]\s+/.test(line)) {
+            items.push(line);
+        } else if (items.length > 0 && line.trim()) {
+            items[items.length - 1] += `\n${line}`;
+        }
+    }
+    return items;
+};
+
+const notApplicablePattern = /\b(no aplica|ninguna (norma|de las)|not applicable|none of the)\b/;
+
+// An answer cut short by the provider can still report a normal finish: a dangling connector,
+// an open parenthesis or bold marker gives it away.
+const looksCut = (line: string): boolean => {
+    const text = line.trim();
+    const count = (pattern: RegExp) => (text.match(pattern) || []).length;
+    return /[,;(\-–]$/.test(text)
+        || /\b(y|o|de|del|la|el|los|las|con|en|para|por|que|and|or|of|the|with|for|to|in)$/i.test(text)
+        || count(/\*\*/g) % 2 === 1
+        || count(/\(/g) > count(/\)/g);
+};
+
+interface QualityContext {
+    jurisdiction: JurisdictionId;
+    extraSections: ExtraSectionId[];
+}
+
+export const checkGuideQuality = (markdown: string, { jurisdiction, extraSections }: QualityContext): QualityReport => {
+    const { weights, minCitedShare } = qualityConfig;
+    const sections = guideSectionsOf(extraSections);
+    const blocks = splitSections(markdown, sections);
+    const present = new Set(blocks.filter(hasContent).map(block => block.id));
+    const issues: QualityIssue[] = [];
+
+    // "Normatividad Aplicable" may be left out, but not replaced by a "no aplica".
+    const required = sections.filter(section => section.id !== 'norms');
+    for (const section of required) {
+        if (!present.has(section.id)) issues.push({ kind: 'missing-section', section: section.id });
+    }
+    const norms = blocks.find(block => block.id === 'norms');
+    const normsNotApplicable = !!norms && (!hasContent(norms) || notApplicablePattern.test(fold(norms.lines.join(' '))));
+    if (normsNotApplicable) issues.push({ kind: 'not-applicable-norms', section: 'norms' });
+
+    let deepHeadings = 0;
+    for (const block of blocks) {
+        const count = block.lines.filter(line => /^#{3,}\s/.test(line.trim())).length
+            + (block.heading && /^#{3,}\s/.test(block.heading.trim()) ? 1 : 0);
+        if (count > 0) issues.push({ kind: 'deep-heading', section: block.id, count });
+        deepHeadings += count;
+    }
+
+    const steps = stepItems(blocks.find(block => block.id === 'steps')?.lines || []);
+    const citedSteps = steps.filter(step => extractCitations(step.replace(/\*\*|__/g, ''), jurisdiction).length > 0).length;
+    const citedShare = steps.length > 0 ? citedSteps / steps.length : 0;
+    if (steps.length > 0 && citedShare < minCitedShare) {
+        issues.push({ kind: 'uncited-steps', section: 'steps', count: citedSteps, total: steps.length });
+    }
+
+    const lastBlock = [...blocks].reverse().find(block => block.heading !== null || hasContent(block));
+    const lastLine = lastBlock ? [...lastBlock.lines].reverse().find(line => line.trim()) : undefined;
+    // An empty norms heading is reported as a "no aplica" instead.
+    const truncated = !!lastBlock && (lastLine === undefined ? lastBlock.id !== 'norms' : looksCut(lastLine));
+    if (truncated) issues.push({ kind: 'truncated', section: lastBlock!.id });
+
+    const presentRequired = required.filter(section => present.has(section.id)).length;
+    const score = weights.sections * (presentRequired + (normsNotApplicable ? 0 : 1)) / (required.length + 1)
+        + (deepHeadings === 0 ? weights.headings : 0)
+        + weights.citations * citedShare
+        + (truncated ? 0 : weights.truncation);
+
+    return {
+        score: Math.round(score),
+        passed: issues.length === 0,
+        issues,
+        citedSteps,
+        totalSteps: steps.length,
+        extraSections,
+    };
+};
+
+// Puts the sections returned by a repair request in place of the originals. A missing section is
+// inserted in its place in the prompt's order; a norms section returned empty is removed.
+export const mergeRepairedSections = (markdown: string, repair: string, extraSections: ExtraSectionId[]): string => {
+    const sections = guideSectionsOf(extraSections);
+    const order = sections.map(section => section.id);
+    const blocks = splitSections(markdown, sections);
+
+    for (const fix of splitSections(repair, sections)) {
+        if (!fix.id) continue;
+        const index = blocks.findIndex(block => block.id === fix.id);
+        if (!hasContent(fix)) {
+            if (fix.id === 'norms' && index > -1) blocks.splice(index, 1);
+            continue;
+        }
+        if (index > -1) {
+            blocks[index] = fix;
+            continue;
+        }
+        const rank = order.indexOf(fix.id);
+        const next = blocks.findIndex(block => block.id !== null && order.indexOf(block.id) > rank);
+        blocks.splice(next === -1 ? blocks.length : next, 0, fix);
+    }
+
+    return `${blocks
+        .map(block => [...(block.heading === null ? [] : [block.heading]), ...block.lines].join('\n').trim())
+        .filter(Boolean)
+        .join('\n\n')}\n`;
+};
+
+// Heading of a section in the guide's language, for the issue messages.
+export const sectionTitle = (id: GuideSectionId, language: Locale): string =>
+    ({ ...coreSections, ...optionalSections })[id].titles[language];
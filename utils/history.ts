@@ -0,0 +1,95 @@
+import type { HistoryEntry, ProcessGuide } from '../types';
+import { normalizeQuery } from '../services/cacheStore';
+import { validateProcessGuide } from '../services/processGuide';
+import { isJurisdictionId } from '../data/jurisdictions';
+import { isPromptTemplateRef } from '../data/promptTemplates';
+import { isLocale, localeTag } from '../i18n';
+import { isObject, toAddenda, toSources } from './validate';
+
+export const suggestedTags = ['estructura', 'hidráulica', 'eléctrica'];
+
+const HISTORY_FORMAT = 'guia-procesos-constructivos/historial';
+const HISTORY_FORMAT_VERSION = 1;
+
+const fold = (text: string): string => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// First lines of prose of the guide, without markdown syntax.
+export const historyPreview = (entry: HistoryEntry, maxLength = 180): string => {
+    const prose = entry.result.text
+        .split('\n')
+        .filter(line => line.trim() && !/^\s*(#|\||```|---)/.test(line))
+        .join(' ')
+        .replace(/\[(\d+(?:,\s*\d+)*)\]/g, '')
+        .replace(/[*_`>#]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return prose.length > maxLength ? `${prose.slice(0, maxLength).trimEnd()}…` : prose;
+};
+
+// Every word must appear in the query, the tags, the guide or its addenda; accents are ignored.
+export const matchesHistorySearch = (entry: HistoryEntry, search: string): boolean => {
+    const words = fold(search).split(/\s+/).filter(Boolean);
+    if (words.length === 0) return true;
+    const haystack = fold([
+        entry.label,
+        entry.tags.join(' '),
+        entry.result.text,
+        ...(entry.result.addenda || []).map(addendum => `${addendum.question} ${addendum.answer}`),
+    ].join(' '));
+    return words.every(word => haystack.includes(word));
+};
+
+export const formatHistoryDate = (timestamp: number): string =>
+    new Date(timestamp).toLocaleString(localeTag(), { dateStyle: 'medium', timeStyle: 'short' });
+
+export const formatHistoryExport = (entries: HistoryEntry[]): string => JSON.stringify({
+    format: HISTORY_FORMAT,
+    version: HISTORY_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries,
+}, null, 2);
+
+// A structured guide that fails validation is dropped: the guide is then read from its markdown.
+const toGuide = (value: unknown): ProcessGuide | null => {
+    const guide = validateProcessGuide(value);
+    return guide && isObject(value) && value.origin === 'markdown' ? { ...guide, origin: 'markdown' } : guide;
+};
+
+const toEntry = (value: unknown): HistoryEntry | null => {
+    if (!isObject(value) || typeof value.label !== 'string' || !normalizeQuery(value.label)) return null;
+    const result = value.result;
+    if (!isObject(result) || typeof result.text !== 'string' || !Array.isArray(result.sources)) return null;
+    return {
+        query: normalizeQuery(value.label),
+        label: value.label.trim(),
+        searchedAt: typeof value.searchedAt === 'number' ? value.searchedAt : Date.now(),
+        favorite: value.favorite === true,
+        tags: Array.isArray(value.tags) ? [...new Set(value.tags.filter((tag: unknown): tag is string => typeof tag === 'string').map(normalizeTag).filter(Boolean))] : [],
+        result: {
+            text: result.text,
+            sources: toSources(result.sources),
+            guide: toGuide(result.guide),
+            addenda: toAddenda(result.addenda),
+            jurisdiction: isJurisdictionId(result.jurisdiction) ? result.jurisdiction : undefined,
+            language: isLocale(result.language) ? result.language : undefined,
+            template: isPromptTemplateRef(result.template) ? result.template : undefined,
+        },
+    };
+};
+
+// Entries of a file written by `formatHistoryExport`, or null when it is not one. Entries that
+// cannot be read are skipped.
+export const parseHistoryExport = (json: string): HistoryEntry[] | null => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        return null;
+    }
+    if (!isObject(data) || data.format !== HISTORY_FORMAT || typeof data.version !== 'number' || data.version > HISTORY_FORMAT_VERSION || !Array.isArray(data.entries)) {
+        return null;
+    }
+    return data.entries.map(toEntry).filter((entry): entry is HistoryEntry => entry !== null);
+};
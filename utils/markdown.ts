@@ -0,0 +1,376 @@
+// A small GitHub-flavoured markdown parser for model output. It only builds a tree; rendering to React
+// happens in MarkdownRenderer, so no HTML string is ever injected. The input may be cut anywhere while
+// it streams: unclosed emphasis, links and code fences are tolerated instead of leaking raw syntax.
+
+export type Inline =
+    | { type: 'text'; text: string }
+    | { type: 'strong'; children: Inline[] }
+    | { type: 'emphasis'; children: Inline[] }
+    | { type: 'strike'; children: Inline[] }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: Inline[] }
+    | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface ListItem {
+    children: Block[];
+}
+
+export type Block =
+    | { type: 'heading'; level: number; children: Inline[] }
+    | { type: 'paragraph'; children: Inline[] }
+    | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+    | { type: 'table'; align: TableAlign[]; header: Inline[][]; rows: Inline[][][] }
+    | { type: 'code'; language: string; text: string }
+    | { type: 'blockquote'; children: Block[] }
+    | { type: 'rule' };
+
+// --- Inline ---
+
+const safeProtocols = /^(https?:|mailto:)/i;
+
+// Only absolute http(s) and mailto links are kept; anything else (javascript:, data:, relative) renders as text.
+export const sanitizeHref = (href: string): string | null => {
+    const trimmed = href.trim().replace(/^<|>$/g, '');
+    return safeProtocols.test(trimmed) ? trimmed : null;
+};
+
+const findClosing = (text: string, delimiter: string, from: number): number => {
+    let index = text.indexOf(delimiter, from);
+    while (index > -1 && text[index - 1] === '\\') {
+        index = text.indexOf(delimiter, index + delimiter.length);
+    }
+    return index;
+};
+
+// Link targets may contain balanced parentheses (Wikipedia URLs, for instance).
+const findParenClose = (text: string, from: number): number => {
+    let depth = 0;
+    for (let i = from; i < text.length; i++) {
+        if (text[i] === '(') depth++;
+        if (text[i] === ')') {
+            if (depth === 0) return i;
+            depth--;
+        }
+    }
+    return -1;
+};
+
+const pushText = (nodes: Inline[], text: string) => {
+    if (!text) return;
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === 'text') {
+        last.text += text;
+    } else {
+        nodes.push({ type: 'text', text });
+    }
+};
+
+const autolinkPattern = /^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/;
+
+export const parseInline = (text: string): Inline[] => {
+    const nodes: Inline[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const rest = text.slice(i);
+        const char = text[i];
+
+        if (char === '\\' && i + 1 < text.length && /[\\`*_[\]()#+\-.!|~>]/.test(text[i + 1])) {
+            pushText(nodes, text[i + 1]);
+            i += 2;
+            continue;
+        }
+
+        if (rest.startsWith('  \n') || char === '\n') {
+            // Soft line breaks inside a paragraph become spaces; two trailing spaces force a break.
+            if (rest.startsWith('  \n')) {
+                nodes.push({ type: 'break' });
+                i += 3;
+            } else {
+                pushText(nodes, ' ');
+                i += 1;
+            }
+            continue;
+        }
+
+        if (char === '`') {
+            const close = text.indexOf('`', i + 1);
+            if (close > -1) {
+                nodes.push({ type: 'code', text: text.slice(i + 1, close) });
+                i = close + 1;
+            } else {
+                // Still streaming: show what arrived of the code span.
+                nodes.push({ type: 'code', text: text.slice(i + 1) });
+                i = text.length;
+            }
+            continue;
+        }
+
+        const strongDelimiter = rest.startsWith('**') ? '**' : rest.startsWith('__') ? '__' : null;
+        if (strongDelimiter) {
+            const close = findClosing(text, strongDelimiter, i + 2);
+            if (close > -1) {
+                nodes.push({ type: 'strong', children: parseInline(text.slice(i + 2, close)) });
+                i = close + 2;
+            } else {
+                // Unclosed (usually mid-stream): bold the rest rather than printing the asterisks.
+                nodes.push({ type: 'strong', children: parseInline(text.slice(i + 2)) });
+                i = text.length;
+            }
+            continue;
+        }
+
+        if (rest.startsWith('~~')) {
+            const close = findClosing(text, '~~', i + 2);
+            if (close > -1) {
+                nodes.push({ type: 'strike', children: parseInline(text.slice(i + 2, close)) });
+                i = close + 2;
+                continue;
+            }
+        }
+
+        if ((char === '*' || char === '_') && text[i + 1] && !/\s/.test(text[i + 1])) {
+            // Underscores inside words (snake_case, file names) are not emphasis.
+            const isIntraword = char === '_' && i > 0 && /\w/.test(text[i - 1]);
+            const close = isIntraword ? -1 : findClosing(text, char, i + 1);
+            if (close > -1 && !/\s/.test(text[close - 1])) {
+                nodes.push({ type: 'emphasis', children: parseInline(text.slice(i + 1, close)) });
+                i = close + 1;
+                continue;
+            }
+        }
+
+        if (char === '[') {
+            const labelEnd = findClosing(text, ']', i + 1);
+            if (labelEnd > -1 && text[labelEnd + 1] === '(') {
+                const hrefEnd = findParenClose(text, labelEnd + 2);
+                if (hrefEnd > -1) {
+                    const label = parseInline(text.slice(i + 1, labelEnd));
+                    const href = sanitizeHref(text.slice(labelEnd + 2, hrefEnd).split(/\s+/)[0] || '');
+                    if (href) {
+                        nodes.push({ type: 'link', href, children: label });
+                    } else {
+                        label.forEach(node => node.type === 'text' ? pushText(nodes, node.text) : nodes.push(node));
+                    }
+                    i = hrefEnd + 1;
+                    continue;
+                }
+                // Link target still streaming: show the label only.
+                nodes.push(...parseInline(text.slice(i + 1, labelEnd)));
+                i = text.length;
+                continue;
+            }
+        }
+
+        if (char === 'h') {
+            const match = rest.match(autolinkPattern);
+            if (match && (i === 0 || /[\s(]/.test(text[i - 1]))) {
+                nodes.push({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] });
+                i += match[0].length;
+                continue;
+            }
+        }
+
+        pushText(nodes, char);
+        i += 1;
+    }
+
+    return nodes;
+};
+
+// --- Blocks ---
+
+const headingPattern = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const rulePattern = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const listItemPattern = /^(\s*)([*+-]|\d{1,9}[.)])\s+(.*)$/;
+const fencePattern = /^\s*(```|~~~)\s*([\w-]*)/;
+const quotePattern = /^\s*>\s?(.*)$/;
+const tableSeparatorPattern = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-*:?\s*)*\|?\s*$/;
+
+const indentOf = (line: string): number => {
+    const match = line.match(/^\s*/);
+    return match ? match[0].replace(/\t/g, '    ').length : 0;
+};
+
+const splitRow = (line: string): string[] => {
+    let row = line.trim();
+    if (row.startsWith('|')) row = row.slice(1);
+    if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+    return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], i: number): boolean => {
+    if (!lines[i].includes('|')) return false;
+    const next = lines[i + 1];
+    // A lone header row at the very end is a table whose separator has not streamed in yet.
+    if (next === undefined) return lines[i].trim().startsWith('|');
+    return tableSeparatorPattern.test(next) && next.includes('-');
+};
+
+const startsBlock = (lines: string[], i: number): boolean => {
+    const line = lines[i];
+    return headingPattern.test(line) || rulePattern.test(line) || listItemPattern.test(line)
+        || fencePattern.test(line) || quotePattern.test(line) || isTableStart(lines, i);
+};
+
+const parseTable = (lines: string[], start: number): { block: Block; next: number } => {
+    const header = splitRow(lines[start]);
+    const separator = lines[start + 1] !== undefined ? splitRow(lines[start + 1]) : [];
+    const align: TableAlign[] = header.map((_, column) => {
+        const cell = separator[column] || '';
+        if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+        if (cell.endsWith(':')) return 'right';
+        if (cell.startsWith(':')) return 'left';
+        return null;
+    });
+
+    const rows: Inline[][][] = [];
+    let i = start + 2;
+    while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] || '')));
+        i++;
+    }
+
+    return {
+        block: { type: 'table', align, header: header.map(cell => parseInline(cell)), rows },
+        next: i,
+    };
+};
+
+const parseList = (lines: string[], start: number): { block: Block; next: number } => {
+    const first = lines[start].match(listItemPattern)!;
+    const baseIndent = indentOf(first[1]);
+    const ordered = /\d/.test(first[2]);
+    const items: { lines: string[] }[] = [];
+    let contentIndent = baseIndent + first[2].length + 1;
+    let i = start;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const item = line.match(listItemPattern);
+
+        if (item && indentOf(item[1]) <= baseIndent + 1) {
+            if (/\d/.test(item[2]) !== ordered) break;
+            items.push({ lines: [item[3]] });
+            contentIndent = indentOf(item[1]) + item[2].length + 1;
+            i++;
+            continue;
+        }
+
+        if (!line.trim()) {
+            // A blank line ends the list unless the next line is still indented into it or is another item.
+            const next = lines[i + 1];
+            const nextItem = next !== undefined ? next.match(listItemPattern) : null;
+            if (next === undefined || (indentOf(next) <= baseIndent && !(nextItem && /\d/.test(nextItem[2]) === ordered))) {
+                break;
+            }
+            items[items.length - 1].lines.push('');
+            i++;
+            continue;
+        }
+
+        if (indentOf(line) > baseIndent) {
+            items[items.length - 1].lines.push(line.slice(Math.min(indentOf(line), contentIndent)));
+            i++;
+            continue;
+        }
+
+        // Lazy continuation of the item's paragraph.
+        if (!startsBlock(lines, i)) {
+            items[items.length - 1].lines.push(line);
+            i++;
+            continue;
+        }
+        break;
+    }
+
+    return {
+        block: {
+            type: 'list',
+            ordered,
+            start: ordered ? parseInt(first[2], 10) : 1,
+            items: items.map(item => ({ children: parseBlockLines(item.lines) })),
+        },
+        next: i,
+    };
+};
+
+const parseBlockLines = (lines: string[]): Block[] => {
+    const blocks: Block[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = line.match(fencePattern);
+        if (fence) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+                code.push(lines[i]);
+                i++;
+            }
+            i++;
+            blocks.push({ type: 'code', language: fence[2], text: code.join('\n') });
+            continue;
+        }
+
+        const heading = line.match(headingPattern);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        if (rulePattern.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (isTableStart(lines, i)) {
+            const { block, next } = parseTable(lines, i);
+            blocks.push(block);
+            i = next;
+            continue;
+        }
+
+        if (listItemPattern.test(line)) {
+            const { block, next } = parseList(lines, i);
+            blocks.push(block);
+            i = next;
+            continue;
+        }
+
+        if (quotePattern.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && lines[i].trim()) {
+                const match = lines[i].match(quotePattern);
+                quoted.push(match ? match[1] : lines[i]);
+                i++;
+            }
+            blocks.push({ type: 'blockquote', children: parseBlockLines(quoted) });
+            continue;
+        }
+
+        const paragraph: string[] = [line];
+        i++;
+        while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+            paragraph.push(lines[i]);
+            i++;
+        }
+        blocks.push({ type: 'paragraph', children: parseInline(paragraph.map(l => l.replace(/^\s+/, '')).join('\n')) });
+    }
+
+    return blocks;
+};
+
+export const parseMarkdown = (markdown: string): Block[] => parseBlockLines(markdown.replace(/\r\n?/g, '\n').split('\n'));
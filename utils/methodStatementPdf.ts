@@ -0,0 +1,114 @@
+import type { jsPDF } from 'jspdf';
+import type { GroundingChunk, Project } from '../types';
+import { createPdfWriter } from './pdfWriter';
+import { buildCitationIndex, catalogNote, formatCitationLocation, type CitationIndexEntry } from './citations';
+import { verificationLabel } from './verifyCitation';
+import { formatReportDate, pdfDisclaimer, writeAddenda, writeMarkdown } from './guidePdf';
+import { guideOf } from './compareGuides';
+import { DEFAULT_JURISDICTION, jurisdictionOf, jurisdictions } from '../data/jurisdictions';
+import { t } from '../i18n';
+
+interface ConsolidatedNorm {
+    entry: CitationIndexEntry;
+    // "2. Solado de limpieza: Pasos Clave, paso 3"
+    usages: string[];
+}
+
+interface ConsolidatedSource {
+    source: GroundingChunk;
+    chapters: number[];
+}
+
+const chapterTitle = (project: Project, index: number): string => {
+    const guide = project.guides[index];
+    return `${index + 1}. ${guideOf(guide.result).title || guide.query}`;
+};
+
+// A project normally follows one profile; guides added under different ones are all named.
+const projectRegulations = (project: Project): string => {
+    const regulations = Array.from(new Set(project.guides.map(guide => jurisdictionOf(guide.result).regulation)));
+    return regulations.length > 0 ? regulations.join(t('methodStatement.regulationsJoin')) : jurisdictions[DEFAULT_JURISDICTION].regulation;
+};
+
+const consolidateNorms = (project: Project): ConsolidatedNorm[] => {
+    const norms = new Map<string, ConsolidatedNorm>();
+    project.guides.forEach((guide, index) => {
+        buildCitationIndex(guide.result.text, jurisdictionOf(guide.result).id).forEach(entry => {
+            const consolidated = norms.get(entry.id) || { entry, usages: [] };
+            consolidated.usages.push(`${index + 1}. ${guide.query}: ${entry.locations.map(formatCitationLocation).join('; ')}`);
+            norms.set(entry.id, consolidated);
+        });
+    });
+    return Array.from(norms.values()).sort((a, b) => a.entry.id.localeCompare(b.entry.id, 'es', { numeric: true }));
+};
+
+const consolidateSources = (project: Project): ConsolidatedSource[] => {
+    const sources = new Map<string, ConsolidatedSource>();
+    project.guides.forEach((guide, index) => {
+        guide.result.sources.forEach(source => {
+            const consolidated = sources.get(source.web.uri) || { source, chapters: [] };
+            if (!consolidated.chapters.includes(index + 1)) consolidated.chapters.push(index + 1);
+            sources.set(source.web.uri, consolidated);
+        });
+    });
+    return Array.from(sources.values());
+};
+
+// One method statement ("procedimiento constructivo") for the whole project: cover, table of
+// contents, a chapter per guide in project order, then the norms and sources annexes.
+export const buildMethodStatementPdf = (project: Project): jsPDF => {
+    const writer = createPdfWriter();
+
+    writer.cover({
+        title: t('methodStatement.title'),
+        subtitle: project.name,
+        details: [
+            ...(project.client ? [`${t('projects.field.client')}: ${project.client}`] : []),
+            ...(project.location ? [`${t('projects.field.location')}: ${project.location}`] : []),
+            ...(project.engineer ? [`${t('projects.field.engineer')}: ${project.engineer}`] : []),
+            t('exports.generatedOn', { date: formatReportDate() }),
+            t(project.guides.length === 1 ? 'methodStatement.basedOnOne' : 'methodStatement.basedOn', { count: project.guides.length, regulation: projectRegulations(project) }),
+        ],
+    });
+
+    project.guides.forEach((guide, index) => {
+        if (index > 0) writer.addPage();
+        writer.heading(chapterTitle(project, index), 1);
+        writeMarkdown(writer, guide.result.text, { omitTitle: true });
+        writeAddenda(writer, guide.result.addenda);
+        if (guide.imageUrl) {
+            writer.imagePage(guide.imageUrl, { title: t('methodStatement.illustration', { query: guide.query }), caption: t('methodStatement.illustrationCaption') });
+        }
+    });
+
+    const norms = consolidateNorms(project);
+    if (norms.length > 0) {
+        writer.addPage();
+        writer.heading(t('methodStatement.annex', { letter: 'A', title: t('citations.title') }), 1);
+        writer.table(
+            [t('exports.norm'), t('exports.status'), t('exports.catalogReference'), t('exports.citedIn')],
+            norms.map(({ entry, usages }) => [
+                entry.id,
+                verificationLabel(entry.verification.status),
+                entry.verification.title || '',
+                usages.join('\n'),
+            ]),
+        );
+        writer.paragraph(catalogNote(norms.map(({ entry }) => entry)), { size: 9 });
+    }
+
+    const sources = consolidateSources(project);
+    if (sources.length > 0) {
+        writer.addPage();
+        writer.heading(t('methodStatement.annex', { letter: norms.length > 0 ? 'B' : 'A', title: t('methodStatement.sources') }), 1);
+        sources.forEach(({ source, chapters }, index) => {
+            writer.listItem(`${index + 1}.`, [
+                { text: source.web.title || source.web.uri, url: source.web.uri },
+                { text: ` (${t(chapters.length > 1 ? 'methodStatement.chapters' : 'methodStatement.chapter', { chapters: chapters.join(', ') })})`, italic: true },
+                ...(source.web.title ? [{ text: `\n${source.web.uri}`, url: source.web.uri }] : []),
+            ]);
+        });
+    }
+
+    return writer.finalize({ header: `${project.name} — ${t('methodStatement.title')}`, footer: pdfDisclaimer() });
+};
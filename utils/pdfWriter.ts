@@ -0,0 +1,382 @@
+import { jsPDF } from 'jspdf';
+import { t } from '../i18n';
+
+// Small layout engine on top of jsPDF: it keeps a vertical cursor, wraps styled text, breaks pages,
+// and at the end adds a linked table of contents plus running headers and footers. Everything is
+// real text, so the resulting PDF can be searched and copied from.
+
+export interface TextRun {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    url?: string;
+}
+
+interface TocEntry {
+    title: string;
+    level: number;
+    page: number;
+}
+
+type Color = [number, number, number];
+
+const colors: Record<'text' | 'muted' | 'accent' | 'rule' | 'link' | 'tableHeader' | 'highlight', Color> = {
+    text: [31, 41, 55],
+    muted: [107, 114, 128],
+    accent: [14, 116, 144],
+    rule: [209, 213, 219],
+    link: [8, 145, 178],
+    tableHeader: [236, 254, 255],
+    highlight: [254, 243, 199],
+};
+
+const replacements: Record<string, string> = {
+    '≥': '>=', '≤': '<=', '≈': '~', '≠': '!=', '→': '->', '←': '<-', '×': 'x', '‐': '-', '‑': '-',
+    'φ': 'Ø', 'ϕ': 'Ø', '∅': 'Ø', '√': 'raíz ', '∑': 'suma ', '\t': '    ',
+};
+
+// Characters above U+00FF that the standard PDF fonts (WinAnsi encoding) can still draw.
+const winAnsiExtras = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+// The built-in Helvetica only covers WinAnsi; anything else would print as garbage.
+export const toPdfText = (text: string): string =>
+    Array.from(text, char => {
+        if (replacements[char] !== undefined) return replacements[char];
+        if (char.charCodeAt(0) <= 0xff || winAnsiExtras.has(char)) return char;
+        return '';
+    }).join('');
+
+interface PdfWriterOptions {
+    orientation?: 'p' | 'l';
+}
+
+interface LineToken {
+    run: TextRun;
+    text: string;
+    width: number;
+}
+
+export const createPdfWriter = ({ orientation = 'p' }: PdfWriterOptions = {}) => {
+    const doc = new jsPDF({ orientation, unit: 'pt', format: 'letter' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 50;
+    const top = 72;
+    const bottom = pageHeight - 64;
+    const contentWidth = pageWidth - margin * 2;
+
+    let y = top;
+    const toc: TocEntry[] = [];
+    const pagesWithoutChrome = new Set<number>();
+
+    const currentPage = (): number => doc.getCurrentPageInfo().pageNumber;
+
+    const setStyle = (run: Pick<TextRun, 'bold' | 'italic'>, size: number) => {
+        const style = run.bold && run.italic ? 'bolditalic' : run.bold ? 'bold' : run.italic ? 'italic' : 'normal';
+        doc.setFont('helvetica', style);
+        doc.setFontSize(size);
+    };
+
+    const addPage = () => {
+        doc.addPage();
+        y = top;
+    };
+
+    const ensureSpace = (height: number) => {
+        if (y + height > bottom) {
+            addPage();
+        }
+    };
+
+    const space = (height: number) => {
+        y += height;
+    };
+
+    // Greedy word wrap across runs of different styles. Words longer than a line are cut.
+    const layoutRuns = (runs: TextRun[], width: number, size: number): LineToken[][] => {
+        const lines: LineToken[][] = [[]];
+        let lineWidth = 0;
+
+        const pushToken = (run: TextRun, text: string) => {
+            setStyle(run, size);
+            const tokenWidth = doc.getTextWidth(text);
+            const line = lines[lines.length - 1];
+            const isSpace = /^\s+$/.test(text);
+
+            if (isSpace && line.length === 0) return;
+            if (lineWidth + tokenWidth > width && line.length > 0 && !isSpace) {
+                while (line.length > 0 && /^\s+$/.test(line[line.length - 1].text)) line.pop();
+                lines.push([]);
+                lineWidth = 0;
+            }
+            if (tokenWidth > width && !isSpace) {
+                const pieces: string[] = doc.splitTextToSize(text, width);
+                pieces.forEach((piece, index) => {
+                    if (index > 0) {
+                        lines.push([]);
+                        lineWidth = 0;
+                    }
+                    const pieceWidth = doc.getTextWidth(piece);
+                    lines[lines.length - 1].push({ run, text: piece, width: pieceWidth });
+                    lineWidth += pieceWidth;
+                });
+                return;
+            }
+            lines[lines.length - 1].push({ run, text, width: tokenWidth });
+            lineWidth += tokenWidth;
+        };
+
+        for (const run of runs) {
+            const text = toPdfText(run.text);
+            for (const part of text.split(/(\n)/)) {
+                if (part === '\n') {
+                    lines.push([]);
+                    lineWidth = 0;
+                    continue;
+                }
+                for (const token of part.match(/\S+|\s+/g) || []) {
+                    pushToken(run, token);
+                }
+            }
+        }
+        return lines.filter((line, index) => line.length > 0 || index < lines.length - 1);
+    };
+
+    const writeRuns = (
+        runs: TextRun[],
+        { x = margin, width = contentWidth, size = 10.5, color = colors.text }: { x?: number; width?: number; size?: number; color?: Color } = {},
+    ) => {
+        const lineHeight = size * 1.45;
+        for (const line of layoutRuns(runs, width, size)) {
+            ensureSpace(lineHeight);
+            let cursor = x;
+            // Consecutive tokens of the same run are drawn as one string, which keeps the text extractable.
+            const merged = line.reduce<LineToken[]>((pieces, token) => {
+                const last = pieces[pieces.length - 1];
+                if (last && last.run === token.run) {
+                    pieces[pieces.length - 1] = { ...last, text: last.text + token.text, width: last.width + token.width };
+                } else {
+                    pieces.push(token);
+                }
+                return pieces;
+            }, []);
+            for (const token of merged) {
+                setStyle(token.run, size);
+                doc.setTextColor(...(token.run.url ? colors.link : color));
+                doc.text(token.text, cursor, y + size);
+                if (token.run.url) {
+                    doc.link(cursor, y, token.width, lineHeight, { url: token.run.url });
+                }
+                cursor += token.width;
+            }
+            y += lineHeight;
+        }
+    };
+
+    const paragraph = (content: string | TextRun[], options?: Parameters<typeof writeRuns>[1]) => {
+        writeRuns(typeof content === 'string' ? [{ text: content }] : content, options);
+        space(6);
+    };
+
+    const headingSizes = [18, 14, 12, 11];
+
+    // Levels 1 and 2 are listed in the table of contents.
+    const heading = (text: string, level: number, { inToc = true }: { inToc?: boolean } = {}) => {
+        const size = headingSizes[Math.min(level, headingSizes.length) - 1];
+        // Keep the heading together with at least a couple of lines of what follows.
+        ensureSpace(size * 1.5 + 40);
+        space(level <= 2 ? 10 : 6);
+        if (inToc && level <= 2) {
+            toc.push({ title: toPdfText(text), level, page: currentPage() });
+        }
+        writeRuns([{ text, bold: true }], { size, color: level <= 2 ? colors.accent : colors.text });
+        if (level === 2) {
+            doc.setDrawColor(...colors.rule);
+            doc.setLineWidth(0.75);
+            doc.line(margin, y + 1, margin + contentWidth, y + 1);
+            space(4);
+        }
+        space(4);
+    };
+
+    const listItem = (marker: string, runs: TextRun[], depth = 0) => {
+        const indent = margin + 14 + depth * 18;
+        const markerWidth = 18;
+        ensureSpace(16);
+        setStyle({ bold: true }, 10.5);
+        doc.setTextColor(...colors.accent);
+        doc.text(toPdfText(marker), indent, y + 10.5);
+        writeRuns(runs, { x: indent + markerWidth, width: margin + contentWidth - indent - markerWidth });
+        space(3);
+    };
+
+    interface TableOptions {
+        size?: number;
+        // Cells to shade, e.g. to flag what differs between two columns.
+        highlight?: (row: number, column: number) => boolean;
+    }
+
+    const table = (header: string[], rows: string[][], { size = 9, highlight }: TableOptions = {}) => {
+        const columns = header.length;
+        if (columns === 0) return;
+        const padding = 4;
+        const lineHeight = size * 1.35;
+
+        // Column widths follow the longest content of each column, within sensible limits.
+        const weights = header.map((cell, column) => {
+            const longest = Math.max(cell.length, ...rows.map(row => (row[column] || '').length));
+            return Math.min(Math.max(longest, 6), 60);
+        });
+        const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+        const widths = weights.map(weight => (weight / totalWeight) * contentWidth);
+
+        const wrapRow = (cells: string[], bold: boolean): string[][] => {
+            setStyle({ bold }, size);
+            return widths.map((width, column) => doc.splitTextToSize(toPdfText(cells[column] || ''), width - padding * 2));
+        };
+
+        const drawRow = (lines: string[][], bold: boolean, rowIndex = -1) => {
+            const rowHeight = Math.max(...lines.map(cell => cell.length)) * lineHeight + padding * 2;
+            let x = margin;
+            if (bold) {
+                doc.setFillColor(...colors.tableHeader);
+                doc.rect(margin, y, contentWidth, rowHeight, 'F');
+            }
+            doc.setDrawColor(...colors.rule);
+            doc.setLineWidth(0.5);
+            lines.forEach((cellLines, column) => {
+                if (!bold && highlight?.(rowIndex, column)) {
+                    doc.setFillColor(...colors.highlight);
+                    doc.rect(x, y, widths[column], rowHeight, 'F');
+                }
+                doc.rect(x, y, widths[column], rowHeight);
+                setStyle({ bold }, size);
+                doc.setTextColor(...(bold ? colors.accent : colors.text));
+                cellLines.forEach((line, index) => doc.text(line, x + padding, y + padding + size + index * lineHeight));
+                x += widths[column];
+            });
+            y += rowHeight;
+        };
+
+        const headerLines = wrapRow(header, true);
+        const headerHeight = Math.max(...headerLines.map(cell => cell.length)) * lineHeight + padding * 2;
+        ensureSpace(headerHeight + lineHeight * 2);
+        drawRow(headerLines, true);
+
+        rows.forEach((row, rowIndex) => {
+            const lines = wrapRow(row, false);
+            const rowHeight = Math.max(...lines.map(cell => cell.length)) * lineHeight + padding * 2;
+            if (y + rowHeight > bottom) {
+                addPage();
+                drawRow(headerLines, true);
+            }
+            drawRow(lines, false, rowIndex);
+        });
+        space(10);
+    };
+
+    const imageFormat = (dataUrl: string): string => {
+        const match = dataUrl.match(/^data:image\/(\w+)/);
+        return match ? match[1].toUpperCase().replace('JPG', 'JPEG') : 'JPEG';
+    };
+
+    // Places the image alone on a new page, scaled to fit, with an optional title and caption.
+    const imagePage = (dataUrl: string, { title, caption }: { title?: string; caption?: string } = {}) => {
+        addPage();
+        if (title) {
+            heading(title, 2);
+        }
+        const properties = doc.getImageProperties(dataUrl);
+        const available = bottom - y - (caption ? 30 : 0);
+        let width = contentWidth;
+        let height = width * (properties.height / properties.width);
+        if (height > available) {
+            height = available;
+            width = height * (properties.width / properties.height);
+        }
+        doc.addImage(dataUrl, imageFormat(dataUrl), margin + (contentWidth - width) / 2, y, width, height);
+        y += height + 10;
+        if (caption) {
+            writeRuns([{ text: caption, italic: true }], { size: 9, color: colors.muted });
+        }
+    };
+
+    const rule = () => {
+        ensureSpace(12);
+        doc.setDrawColor(...colors.rule);
+        doc.setLineWidth(0.75);
+        doc.line(margin, y + 6, margin + contentWidth, y + 6);
+        space(12);
+    };
+
+    // The first page: title block, without running header or footer.
+    const cover = ({ title, subtitle, details = [] }: { title: string; subtitle?: string; details?: string[] }) => {
+        pagesWithoutChrome.add(currentPage());
+        y = pageHeight * 0.3;
+        writeRuns([{ text: title, bold: true }], { size: 24, color: colors.accent });
+        if (subtitle) {
+            space(8);
+            writeRuns([{ text: subtitle }], { size: 14 });
+        }
+        space(24);
+        doc.setDrawColor(...colors.accent);
+        doc.setLineWidth(2);
+        doc.line(margin, y, margin + 120, y);
+        space(20);
+        details.forEach(detail => writeRuns([{ text: detail }], { size: 10.5, color: colors.muted }));
+        addPage();
+    };
+
+    const drawToc = (title: string, offset: number, firstTocPage: number, entriesPerPage: number) => {
+        toc.forEach((entry, index) => {
+            const pageIndex = Math.floor(index / entriesPerPage);
+            doc.setPage(firstTocPage + pageIndex);
+            if (index % entriesPerPage === 0) {
+                y = top;
+                heading(title, 1, { inToc: false });
+            }
+            const target = entry.page + offset;
+            const indent = margin + (entry.level - 1) * 16;
+            setStyle({ bold: entry.level === 1 }, 10.5);
+            doc.setTextColor(...colors.text);
+            const label: string = doc.splitTextToSize(entry.title, contentWidth - (indent - margin) - 50)[0];
+            doc.text(label, indent, y + 10.5);
+            doc.text(String(target), margin + contentWidth, y + 10.5, { align: 'right' });
+            doc.link(indent, y, contentWidth - (indent - margin), 16, { pageNumber: target });
+            y += 18;
+        });
+    };
+
+    // Adds the table of contents after the cover and the running header and footer on every page.
+    const finalize = ({ header, footer, tocTitle = t('exports.contents') }: { header: string; footer: string; tocTitle?: string }) => {
+        if (toc.length > 1) {
+            const entriesPerPage = Math.floor((bottom - top - 60) / 18);
+            const tocPages = Math.ceil(toc.length / entriesPerPage);
+            const firstTocPage = pagesWithoutChrome.has(1) ? 2 : 1;
+            for (let i = 0; i < tocPages; i++) {
+                doc.insertPage(firstTocPage + i);
+            }
+            drawToc(tocTitle, tocPages, firstTocPage, entriesPerPage);
+        }
+
+        const totalPages = doc.getNumberOfPages();
+        for (let page = 1; page <= totalPages; page++) {
+            if (pagesWithoutChrome.has(page)) continue;
+            doc.setPage(page);
+            setStyle({}, 8.5);
+            doc.setTextColor(...colors.muted);
+            doc.text(toPdfText(header), margin, 40, { maxWidth: contentWidth });
+            doc.setDrawColor(...colors.rule);
+            doc.setLineWidth(0.5);
+            doc.line(margin, 48, margin + contentWidth, 48);
+            doc.line(margin, pageHeight - 44, margin + contentWidth, pageHeight - 44);
+            doc.text(toPdfText(footer), margin, pageHeight - 30, { maxWidth: contentWidth - 80 });
+            doc.text(`${t('exports.page')} ${page}/${totalPages}`, margin + contentWidth, pageHeight - 30, { align: 'right' });
+        }
+        return doc;
+    };
+
+    return { doc, addPage, space, paragraph, heading, listItem, table, imagePage, rule, cover, finalize };
+};
+
+export type PdfWriter = ReturnType<typeof createPdfWriter>;
@@ -0,0 +1,32 @@
+import type { Locale } from '../i18n';
+import { coreSections, extraSections, templateVariables, type ExtraSectionId, type GuideSection, type GuideSectionId, type PromptTemplate } from '../data/promptTemplates';
+
+const placeholderPattern = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Fills in "{{name}}" placeholders. Unknown ones are left as written, so a typo shows up in the preview.
+export const renderTemplate = (body: string, values: Record<string, string>): string =>
+    body.replace(placeholderPattern, (placeholder, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder);
+
+// Placeholders the template uses that are not among its variables.
+export const unknownVariables = (template: Pick<PromptTemplate, 'id' | 'body'>): string[] => {
+    const known = new Set(templateVariables[template.id].map(variable => variable.name));
+    const used = Array.from(template.body.matchAll(placeholderPattern), match => match[1]);
+    return Array.from(new Set(used.filter(name => !known.has(name))));
+};
+
+// Core sections in their usual order, with the enabled extra sections before "Normatividad Aplicable",
+// which the model may omit.
+export const guideSectionsOf = (extras: ExtraSectionId[]): GuideSection<GuideSectionId>[] => [
+    coreSections.description,
+    coreSections.steps,
+    coreSections.materials,
+    ...(Object.keys(extraSections) as ExtraSectionId[]).filter(id => extras.includes(id)).map(id => extraSections[id]),
+    coreSections.norms,
+];
+
+// The `{{sections}}` variable: "1.  **Descripción del Proceso:** Una explicación...".
+export const formatSectionList = (extras: ExtraSectionId[], language: Locale): string =>
+    guideSectionsOf(extras)
+        .map((section, index) => `${index + 1}.  **${section.titles[language]}:** ${section.instruction}`)
+        .join('\n');
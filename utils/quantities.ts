@@ -0,0 +1,247 @@
+import type { MaterialParameter } from '../types';
+import { formatNumber as formatLocaleNumber, t, type MessageKey } from '../i18n';
+
+// Quantity take-off for one kind of element (footing, beam, slab, wall...) repeated `count` times.
+// Everything is computed here, never by the model, so the same inputs always give the same result.
+
+export type LengthUnit = 'm' | 'cm' | 'mm';
+
+export interface Dimension {
+    value: number;
+    unit: LengthUnit;
+}
+
+export type MixDesignId = '14' | '17.5' | '21' | '24.5' | '28';
+
+export interface MixDesign {
+    id: MixDesignId;
+    strengthMPa: number;
+    strengthPsi: number;
+    // Typical use, shown after the strength.
+    note?: MessageKey;
+    // Cement content per cubic metre of concrete, for site-mixed concrete with 50 kg bags.
+    cementKgPerM3: number;
+    // Cement : sand : gravel, by volume.
+    proportion: number[];
+}
+
+// Typical site dosages used in Colombia; a mix design from the lab always takes precedence.
+export const mixDesigns: MixDesign[] = [
+    { id: '14', strengthMPa: 14, strengthPsi: 2000, note: 'quantities.leanConcrete', cementKgPerM3: 250, proportion: [1, 3, 6] },
+    { id: '17.5', strengthMPa: 17.5, strengthPsi: 2500, cementKgPerM3: 300, proportion: [1, 2, 4] },
+    { id: '21', strengthMPa: 21, strengthPsi: 3000, cementKgPerM3: 350, proportion: [1, 2, 3] },
+    { id: '24.5', strengthMPa: 24.5, strengthPsi: 3500, cementKgPerM3: 400, proportion: [1, 1.5, 3] },
+    { id: '28', strengthMPa: 28, strengthPsi: 4000, cementKgPerM3: 420, proportion: [1, 1.5, 2.5] },
+];
+
+export const CEMENT_BAG_KG = 50;
+
+export type BarSize = '#2' | '#3' | '#4' | '#5' | '#6' | '#7' | '#8';
+
+// Nominal diameter and mass per metre of corrugated bars, NSR-10 Título C.3.5 / NTC 2289.
+export const barSizes: Record<BarSize, { diameterMm: number; kgPerM: number; inches: string }> = {
+    '#2': { diameterMm: 6.4, kgPerM: 0.250, inches: '1/4"' },
+    '#3': { diameterMm: 9.5, kgPerM: 0.560, inches: '3/8"' },
+    '#4': { diameterMm: 12.7, kgPerM: 0.994, inches: '1/2"' },
+    '#5': { diameterMm: 15.9, kgPerM: 1.552, inches: '5/8"' },
+    '#6': { diameterMm: 19.1, kgPerM: 2.235, inches: '3/4"' },
+    '#7': { diameterMm: 22.2, kgPerM: 3.042, inches: '7/8"' },
+    '#8': { diameterMm: 25.4, kgPerM: 3.973, inches: '1"' },
+};
+
+export interface QuantityInputs {
+    length: Dimension;
+    width: Dimension;
+    thickness: Dimension;
+    count: number;
+    mixDesign: MixDesignId;
+    barSize: BarSize;
+    barSpacing: Dimension;
+    cover: Dimension;
+    // Reinforcement mats, each a grid of bars in both directions (2 for top and bottom mats).
+    mats: number;
+    // Formwork on the four sides; `formworkBottom` adds the soffit (beams and slabs not cast on the ground).
+    formworkBottom: boolean;
+    // Percentages.
+    concreteWaste: number;
+    steelWaste: number;
+    formworkWaste: number;
+}
+
+export interface QuantityResults {
+    concreteM3: number;
+    concreteWithWasteM3: number;
+    cementKg: number;
+    cementBags: number;
+    barsLengthwise: number;
+    barsCrosswise: number;
+    steelLengthM: number;
+    steelKg: number;
+    steelWithWasteKg: number;
+    formworkM2: number;
+    formworkWithWasteM2: number;
+}
+
+const metersPer: Record<LengthUnit, number> = { m: 1, cm: 0.01, mm: 0.001 };
+
+export const toMeters = ({ value, unit }: Dimension): number => (Number.isFinite(value) && value > 0 ? value : 0) * metersPer[unit];
+
+// Rounds to the given decimals without binary-float surprises such as 1.005 -> 1.00.
+export const round = (value: number, decimals = 2): number => {
+    const factor = 10 ** decimals;
+    return Math.round((value + Number.EPSILON) * factor) / factor;
+};
+
+const withWaste = (value: number, percent: number) => value * (1 + Math.max(0, percent) / 100);
+
+// Bars along one direction of a mat: one at each edge (inside the cover) plus one per spacing.
+// The epsilon keeps spans that are an exact multiple of the spacing (1.35 / 0.15) from losing a bar.
+const barsAcross = (span: number, spacing: number): number => spacing > 0 && span > 0 ? Math.floor(span / spacing + 1e-9) + 1 : 0;
+
+export const computeQuantities = (inputs: QuantityInputs): QuantityResults => {
+    const length = toMeters(inputs.length);
+    const width = toMeters(inputs.width);
+    const thickness = toMeters(inputs.thickness);
+    const count = Math.max(0, Math.floor(inputs.count));
+    const spacing = toMeters(inputs.barSpacing);
+    const cover = toMeters(inputs.cover);
+
+    const concreteM3 = length * width * thickness * count;
+    const concreteWithWasteM3 = withWaste(concreteM3, inputs.concreteWaste);
+    const mix = mixDesigns.find(design => design.id === inputs.mixDesign) || mixDesigns[2];
+    const cementKg = concreteWithWasteM3 * mix.cementKgPerM3;
+
+    const barLengthwise = Math.max(0, length - 2 * cover);
+    const barCrosswise = Math.max(0, width - 2 * cover);
+    const barsLengthwise = barsAcross(barCrosswise, spacing) * inputs.mats;
+    const barsCrosswise = barsAcross(barLengthwise, spacing) * inputs.mats;
+    const steelLengthM = (barsLengthwise * barLengthwise + barsCrosswise * barCrosswise) * count;
+    const steelKg = steelLengthM * barSizes[inputs.barSize].kgPerM;
+
+    const formworkM2 = (2 * (length + width) * thickness + (inputs.formworkBottom ? length * width : 0)) * count;
+
+    return {
+        concreteM3: round(concreteM3, 3),
+        concreteWithWasteM3: round(concreteWithWasteM3, 3),
+        cementKg: round(cementKg, 1),
+        cementBags: Math.ceil(round(cementKg / CEMENT_BAG_KG, 3)),
+        barsLengthwise: barsLengthwise * count,
+        barsCrosswise: barsCrosswise * count,
+        steelLengthM: round(steelLengthM, 2),
+        steelKg: round(steelKg, 1),
+        steelWithWasteKg: round(withWaste(steelKg, inputs.steelWaste), 1),
+        formworkM2: round(formworkM2, 2),
+        formworkWithWasteM2: round(withWaste(formworkM2, inputs.formworkWaste), 2),
+    };
+};
+
+export const defaultQuantityInputs: QuantityInputs = {
+    length: { value: 1, unit: 'm' },
+    width: { value: 1, unit: 'm' },
+    thickness: { value: 0.3, unit: 'm' },
+    count: 1,
+    mixDesign: '21',
+    barSize: '#4',
+    barSpacing: { value: 20, unit: 'cm' },
+    cover: { value: 75, unit: 'mm' },
+    mats: 1,
+    formworkBottom: false,
+    concreteWaste: 5,
+    steelWaste: 7,
+    formworkWaste: 10,
+};
+
+const strengthToMPa = (value: number, unit: string): number | null => {
+    const normalized = unit.toLowerCase().replace(/\s+/g, '');
+    if (normalized === 'mpa') return value;
+    if (normalized === 'psi') return value * 0.00689476;
+    if (normalized === 'kg/cm2' || normalized === 'kg/cm²' || normalized === 'kgf/cm2') return value * 0.0980665;
+    return null;
+};
+
+const lengthUnit = (unit: string): LengthUnit | null => {
+    const normalized = unit.toLowerCase().trim();
+    return normalized === 'm' || normalized === 'cm' || normalized === 'mm' ? normalized : null;
+};
+
+const mentions = (material: MaterialParameter, pattern: RegExp) =>
+    pattern.test(`${material.name} ${material.specification}`.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase());
+
+// Starts from the defaults and takes what the guide's materials section states: concrete strength,
+// bar size, spacing, cover and thickness.
+export const quantityInputsFromMaterials = (materials: MaterialParameter[]): QuantityInputs => {
+    const inputs: QuantityInputs = { ...defaultQuantityInputs };
+
+    for (const material of materials) {
+        if (material.value !== null) {
+            // Only the compressive strength of the concrete; steel yield lines also read "resistencia ... MPa".
+            const isConcreteStrength = mentions(material, /\bf['´’]c\b|resistencia a la compresion/) && !mentions(material, /\bfy\b|fluencia/);
+            const strength = isConcreteStrength ? strengthToMPa(material.value, material.unit) : null;
+            if (strength !== null) {
+                const closest = mixDesigns.reduce((best, design) =>
+                    Math.abs(design.strengthMPa - strength) < Math.abs(best.strengthMPa - strength) ? design : best);
+                inputs.mixDesign = closest.id;
+                continue;
+            }
+
+            const unit = lengthUnit(material.unit);
+            if (unit) {
+                const dimension = { value: material.value, unit };
+                if (mentions(material, /recubrimiento/)) inputs.cover = dimension;
+                else if (mentions(material, /separacion|espaciamiento/)) inputs.barSpacing = dimension;
+                else if (mentions(material, /espesor/)) inputs.thickness = dimension;
+            }
+        }
+
+        const bar = `${material.name} ${material.specification}`.match(/(?:#|No\.?\s?|N[°º]\s?)([2-8])\b/);
+        if (bar && mentions(material, /barra|varilla|acero|refuerzo/)) {
+            inputs.barSize = `#${bar[1]}` as BarSize;
+        }
+    }
+
+    return inputs;
+};
+
+const formatNumber = (value: number, decimals = 2) =>
+    formatLocaleNumber(value, { minimumFractionDigits: 0, maximumFractionDigits: decimals });
+
+const formatDimension = ({ value, unit }: Dimension) => `${formatNumber(value, 3)} ${unit}`;
+
+// "21 MPa (3000 psi)", with its typical use when it has one.
+export const mixDesignLabel = (design: MixDesign): string =>
+    `${formatNumber(design.strengthMPa, 1)} MPa (${design.strengthPsi} psi)${design.note ? ` — ${t(design.note)}` : ''}`;
+
+export const mixProportion = (design: MixDesign): string => design.proportion.map(part => formatNumber(part, 1)).join(':');
+
+// Label/value pairs shared by the on-screen panel and every export.
+export const quantityInputRows = (inputs: QuantityInputs): [string, string][] => {
+    const mix = mixDesigns.find(design => design.id === inputs.mixDesign) || mixDesigns[2];
+    const bar = barSizes[inputs.barSize];
+    return [
+        [t('quantities.row.dimensions'), `${formatDimension(inputs.length)} × ${formatDimension(inputs.width)} × ${formatDimension(inputs.thickness)}`],
+        [t('quantities.row.count'), String(inputs.count)],
+        [t('quantities.row.mixDesign'), `${mixDesignLabel(mix)}, ${mixProportion(mix)}, ${mix.cementKgPerM3} kg/m³`],
+        [t('quantities.row.reinforcement'), t(inputs.mats === 1 ? 'quantities.value.reinforcementOne' : 'quantities.value.reinforcement', {
+            size: inputs.barSize,
+            inches: bar.inches,
+            kgPerM: formatNumber(bar.kgPerM, 3),
+            spacing: formatDimension(inputs.barSpacing),
+            mats: inputs.mats,
+            cover: formatDimension(inputs.cover),
+        })],
+        [t('quantities.row.waste'), t('quantities.value.waste', { concrete: inputs.concreteWaste, steel: inputs.steelWaste, formwork: inputs.formworkWaste })],
+    ];
+};
+
+export const quantityResultRows = (results: QuantityResults): [string, string][] => [
+    [t('quantities.row.concrete'), t('quantities.value.withWaste', { value: `${formatNumber(results.concreteM3, 3)} m³`, withWaste: `${formatNumber(results.concreteWithWasteM3, 3)} m³` })],
+    [t('quantities.row.cement'), t('quantities.value.cement', { bags: results.cementBags, bagKg: CEMENT_BAG_KG, kg: formatNumber(results.cementKg, 1) })],
+    [t('quantities.row.bars'), t('quantities.value.bars', { lengthwise: results.barsLengthwise, crosswise: results.barsCrosswise, length: formatNumber(results.steelLengthM) })],
+    [t('quantities.row.steel'), t('quantities.value.withWaste', { value: `${formatNumber(results.steelKg, 1)} kg`, withWaste: `${formatNumber(results.steelWithWasteKg, 1)} kg` })],
+    [t('quantities.row.formwork'), t('quantities.value.withWaste', { value: `${formatNumber(results.formworkM2)} m²`, withWaste: `${formatNumber(results.formworkWithWasteM2)} m²` })],
+];
+
+export const formatQuantitiesText = (inputs: QuantityInputs): string => {
+    const rows = [...quantityInputRows(inputs), ...quantityResultRows(computeQuantities(inputs))];
+    return [t('quantities.title').toUpperCase(), '', ...rows.map(([label, value]) => `${label}: ${value}`)].join('\n');
+};
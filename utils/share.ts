@@ -0,0 +1,136 @@
+import type { SearchResult } from '../types';
+import { isJurisdictionId } from '../data/jurisdictions';
+import { getLocale, isLocale, t } from '../i18n';
+import { isObject, toAddenda, toSources } from './validate';
+
+// Links to a search (`?q=`) and self-contained permalinks to a finished guide (`#guia=`). The
+// permalink carries the guide itself, deflated and base64url-encoded in the fragment, so opening
+// it calls no API and the guide never reaches a server.
+
+export interface SharedGuide {
+    query: string;
+    result: SearchResult;
+    imageUrl: string | null;
+    sharedAt: number;
+}
+
+const QUERY_PARAM = 'q';
+const SHARE_HASH_PREFIX = '#guia=';
+const SHARE_FORMAT_VERSION = 1;
+
+// Longer links survive browsers, but not every chat or mail client.
+export const LONG_LINK_CHARS = 8000;
+
+export const readQueryParam = (): string => new URLSearchParams(window.location.search).get(QUERY_PARAM)?.trim() || '';
+
+export const queryUrl = (query: string): string => {
+    const url = new URL(window.location.href);
+    url.hash = '';
+    if (query) url.searchParams.set(QUERY_PARAM, query);
+    else url.searchParams.delete(QUERY_PARAM);
+    return url.toString();
+};
+
+export const hasSharedGuide = (): boolean => window.location.hash.startsWith(SHARE_HASH_PREFIX);
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+export const buildPermalink = async (guide: SharedGuide): Promise<string> => {
+    const { query, result, imageUrl, sharedAt } = guide;
+    const payload = {
+        v: SHARE_FORMAT_VERSION,
+        query,
+        result: { text: result.text, sources: result.sources, addenda: result.addenda, jurisdiction: result.jurisdiction, language: result.language },
+        imageUrl,
+        sharedAt,
+    };
+    const compressed = await pipeBytes(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+    const url = new URL(window.location.href);
+    url.search = '';
+    url.hash = `${SHARE_HASH_PREFIX.slice(1)}${toBase64Url(compressed)}`;
+    return url.toString();
+};
+
+// The guide in the current URL's fragment, or null when it is damaged or from a newer version.
+export const readSharedGuide = async (): Promise<SharedGuide | null> => {
+    if (!hasSharedGuide()) return null;
+    try {
+        const bytes = await pipeBytes(fromBase64Url(window.location.hash.slice(SHARE_HASH_PREFIX.length)), new DecompressionStream('deflate-raw'));
+        const data: unknown = JSON.parse(new TextDecoder().decode(bytes));
+        if (!isObject(data) || data.v !== SHARE_FORMAT_VERSION || typeof data.query !== 'string') return null;
+        if (!isObject(data.result) || typeof data.result.text !== 'string') return null;
+        const imageUrl = typeof data.imageUrl === 'string' && data.imageUrl.startsWith('data:image/') ? data.imageUrl : null;
+        return {
+            query: data.query,
+            result: {
+                text: data.result.text,
+                sources: toSources(data.result.sources),
+                addenda: toAddenda(data.result.addenda),
+                jurisdiction: isJurisdictionId(data.result.jurisdiction) ? data.result.jurisdiction : undefined,
+                language: isLocale(data.result.language) ? data.result.language : undefined,
+            },
+            imageUrl,
+            sharedAt: typeof data.sharedAt === 'number' ? data.sharedAt : Date.now(),
+        };
+    } catch (error) {
+        console.warn("Could not read the shared guide:", error);
+        return null;
+    }
+};
+
+// Re-encodes the illustration as a small JPEG, so it adds tens of kilobytes to the link rather than megabytes.
+export const compressImage = (imageUrl: string, maxWidth = 640, quality = 0.6): Promise<string> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+        const scale = Math.min(1, maxWidth / img.width);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.width * scale);
+        canvas.height = Math.round(img.height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) {
+            reject(new Error('Canvas 2D is not available.'));
+            return;
+        }
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', quality));
+    };
+    img.onerror = () => reject(new Error('The illustration could not be decoded.'));
+    img.src = imageUrl;
+});
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A file for when the link is too long to paste: opening it redirects to the permalink.
+export const buildShareFile = (permalink: string, query: string): Blob => {
+    const href = escapeHtml(permalink);
+    const html = `<!DOCTYPE html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${t('result.title')} ${query}`)}</title>
+<meta http-equiv="refresh" content="0; url=${href}">
+</head>
+<body>
+<p><a href="${href}">${escapeHtml(t('share.openShared', { query }))}</a></p>
+</body>
+</html>
+`;
+    return new Blob([html], { type: 'text/html;charset=utf-8' });
+};
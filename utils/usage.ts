@@ -0,0 +1,124 @@
+import type { UnitPrices, UsageKind, UsageRecord } from '../types';
+import { toCsv } from './csv';
+import { formatNumber, t } from '../i18n';
+
+export const costOf = (record: UsageRecord, prices: UnitPrices): number =>
+    record.cached ? 0 : (
+        record.inputTokens * prices.inputPerMillionTokens / 1_000_000
+        + record.outputTokens * prices.outputPerMillionTokens / 1_000_000
+        + record.images * prices.perImage
+    );
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    cost: number;
+    cacheHits: number;
+    // What the cache hits would have cost as fresh calls.
+    savings: number;
+}
+
+export interface UsageRow extends UsageTotals {
+    query: string;
+    // Set on the per-day rows only.
+    day?: string;
+}
+
+export interface UsageSummary {
+    totals: UsageTotals;
+    // Most expensive first.
+    byQuery: UsageRow[];
+    // One row per day and query, most recent day first; what the CSV export contains.
+    byDay: UsageRow[];
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0, cacheHits: 0, savings: 0 });
+
+const add = (totals: UsageTotals, record: UsageRecord, cost: number, saving: number) => {
+    if (record.cached) {
+        totals.cacheHits++;
+        totals.savings += saving;
+        return;
+    }
+    totals.calls++;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.images += record.images;
+    totals.cost += cost;
+};
+
+const average = (costs: number[] | undefined): number | null =>
+    costs && costs.length > 0 ? costs.reduce((sum, cost) => sum + cost, 0) / costs.length : null;
+
+// A cache hit is valued at what the same query cost when it was generated; when that call is no
+// longer recorded, at the average cost of that kind of call.
+const cacheHitValuer = (records: UsageRecord[], prices: UnitPrices) => {
+    const byQuery = new Map<string, number[]>();
+    const byKind = new Map<UsageKind, number[]>();
+    records.filter(record => !record.cached).forEach(record => {
+        const cost = costOf(record, prices);
+        const key = `${record.kind}|${record.query}`;
+        byQuery.set(key, [...(byQuery.get(key) || []), cost]);
+        byKind.set(record.kind, [...(byKind.get(record.kind) || []), cost]);
+    });
+    return (record: UsageRecord): number =>
+        average(byQuery.get(`${record.kind}|${record.query}`)) ?? average(byKind.get(record.kind)) ?? 0;
+};
+
+export const summarizeUsage = (records: UsageRecord[], prices: UnitPrices): UsageSummary => {
+    const valueOf = cacheHitValuer(records, prices);
+    const totals = emptyTotals();
+    const byQuery = new Map<string, UsageRow>();
+    const byDay = new Map<string, UsageRow>();
+
+    records.forEach(record => {
+        const cost = costOf(record, prices);
+        const saving = record.cached ? valueOf(record) : 0;
+        add(totals, record, cost, saving);
+
+        const queryRow = byQuery.get(record.query) || { ...emptyTotals(), query: record.query };
+        add(queryRow, record, cost, saving);
+        byQuery.set(record.query, queryRow);
+
+        const dayKey = `${record.day}|${record.query}`;
+        const dayRow = byDay.get(dayKey) || { ...emptyTotals(), query: record.query, day: record.day };
+        add(dayRow, record, cost, saving);
+        byDay.set(dayKey, dayRow);
+    });
+
+    return {
+        totals,
+        byQuery: [...byQuery.values()].sort((a, b) => b.cost - a.cost),
+        byDay: [...byDay.values()].sort((a, b) => b.day!.localeCompare(a.day!) || b.cost - a.cost),
+    };
+};
+
+export const formatCost = (value: number, currency: string): string =>
+    `${formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 4 })} ${currency}`;
+
+export const formatTokens = (value: number): string => formatNumber(value);
+
+// Plain numbers with a decimal comma, so the spreadsheet can add them up.
+const csvNumber = (value: number): string => String(Math.round(value * 10_000) / 10_000).replace('.', ',');
+
+export const formatUsageCsv = (summary: UsageSummary, prices: UnitPrices): string => {
+    const header = [
+        t('usage.column.date'), t('usage.column.query'), t('usage.column.calls'), t('usage.column.inputTokens'), t('usage.column.outputTokens'),
+        t('usage.column.images'), t('usage.column.cost', { currency: prices.currency }), t('usage.column.cacheHits'),
+        t('usage.column.savings', { currency: prices.currency }),
+    ];
+    const rows = summary.byDay.map(row => [
+        row.day || '',
+        row.query,
+        String(row.calls),
+        String(row.inputTokens),
+        String(row.outputTokens),
+        String(row.images),
+        csvNumber(row.cost),
+        String(row.cacheHits),
+        csvNumber(row.savings),
+    ]);
+    return toCsv([header, ...rows]);
+};
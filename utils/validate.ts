@@ -0,0 +1,32 @@
+import type { Addendum, GroundingChunk } from '../types';
+import { sanitizeHref } from './markdown';
+
+// Checks for results read from outside the app (shared links, imported history files), which
+// must not reach the renderers with missing fields or unsafe links.
+
+export const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A source with an http(s) link, or null.
+export const toSource = (value: unknown): GroundingChunk | null => {
+    if (!isObject(value) || !isObject(value.web) || typeof value.web.uri !== 'string' || typeof value.web.title !== 'string') return null;
+    const uri = sanitizeHref(value.web.uri);
+    return uri ? { web: { uri, title: value.web.title } } : null;
+};
+
+export const toSources = (value: unknown): GroundingChunk[] =>
+    Array.isArray(value) ? value.map(toSource).filter((source): source is GroundingChunk => source !== null) : [];
+
+const toAddendum = (value: unknown): Addendum | null => {
+    if (!isObject(value) || typeof value.id !== 'string' || typeof value.question !== 'string' || typeof value.answer !== 'string') return null;
+    return {
+        id: value.id,
+        question: value.question,
+        answer: value.answer,
+        sources: toSources(value.sources),
+        askedAt: typeof value.askedAt === 'number' ? value.askedAt : Date.now(),
+    };
+};
+
+// The readable addenda of a list; malformed ones are dropped.
+export const toAddenda = (value: unknown): Addendum[] | undefined =>
+    Array.isArray(value) ? value.map(toAddendum).filter((addendum): addendum is Addendum => addendum !== null) : undefined;
@@ -0,0 +1,51 @@
+import { normsCatalog, NORMS_CATALOG_VERSION } from '../data/normsCatalog';
+import type { NormFamily } from './citations';
+import { t } from '../i18n';
+
+export type VerificationStatus = 'verified' | 'unknown' | 'hallucinated';
+
+export interface CitationVerification {
+    status: VerificationStatus;
+    // Catalog entry the citation was matched against ("C.5" for "C.5.2"), if any.
+    matchedSection: string | null;
+    title: string | null;
+    // Null for codes the catalog does not cover, e.g. those of other jurisdictions.
+    catalogVersion: string | null;
+}
+
+// "C.5.2" -> ["C.5.2", "C.5", "C"]; "20.2" -> ["20.2", "20"].
+const sectionAncestors = (section: string): string[] => {
+    const parts = section.split('.');
+    return parts.map((_, index) => parts.slice(0, parts.length - index).join('.'));
+};
+
+// The catalog goes down to chapter level for lettered norms (NSR-10, RAS) and to article level
+// for numbered ones, so deeper numerals are accepted once their chapter or article is known.
+export const verifyCitation = (family: NormFamily, section: string | null): CitationVerification => {
+    const catalog = normsCatalog[family];
+    if (!catalog) {
+        return { status: 'unknown', matchedSection: null, title: null, catalogVersion: null };
+    }
+    const result = (status: VerificationStatus, matchedSection: string | null, title: string | null): CitationVerification =>
+        ({ status, matchedSection, title, catalogVersion: NORMS_CATALOG_VERSION });
+
+    if (!section) {
+        return result('verified', null, catalog.name);
+    }
+    if (catalog.isImpossible(section)) {
+        return result('hallucinated', null, null);
+    }
+
+    const depth = section.split('.').length;
+    const requiredDepth = /^[A-Z]/.test(section) ? Math.min(depth, 2) : 1;
+    for (const candidate of sectionAncestors(section)) {
+        const title = catalog.entries[candidate];
+        if (title) {
+            const status = candidate.split('.').length >= requiredDepth ? 'verified' : 'unknown';
+            return result(status, candidate, title);
+        }
+    }
+    return result('unknown', null, null);
+};
+
+export const verificationLabel = (status: VerificationStatus): string => t(`citations.status.${status}`);
@@ -1,18 +1,23 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiPlugin } from './server/vitePlugin';
+import { loadServerConfig } from './server/config';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // API keys are only read by the backend; nothing secret is inlined into the client bundle.
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), apiPlugin(loadServerConfig({ ...process.env, ...env }))],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER === 'mock' ? 'mock' : 'proxy'),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        'process.env.TEXT_MODEL': JSON.stringify(env.TEXT_MODEL),
+        'process.env.IMAGE_MODEL': JSON.stringify(env.IMAGE_MODEL),
       },
       resolve: {
         alias: {